@@ -8,7 +8,8 @@ const nextConfig: NextConfig = {
   // Keep native Node.js packages out of the Turbopack/webpack bundle so they
   // are resolved at runtime from node_modules instead of being inlined.
   // ssh2 uses native crypto (non-ESM placeable) and must stay external.
-  serverExternalPackages: ["ssh2"],
+  // better-sqlite3 and @duckdb/node-bindings load compiled .node addons at runtime.
+  serverExternalPackages: ["ssh2", "better-sqlite3", "@duckdb/node-api", "@duckdb/node-bindings"],
 
   // Set the root directory for Turbopack to avoid the lockfile warning
   turbopack: {
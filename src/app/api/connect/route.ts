@@ -7,8 +7,8 @@ import {
 } from "@/lib/adapters/factory";
 import { DatabaseType, SSHTunnelConfig } from "@/lib/adapters/types";
 import { SSHTunnel } from "@/lib/adapters/tunnel";
+import { getEngine, isDatabaseType } from "@/lib/engines";
 import {
-  DB_DEFAULT_PORTS,
   parseHostname,
   parsePort,
   redirectToTunnel,
@@ -143,6 +143,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!isDatabaseType(type)) {
+      return NextResponse.json(
+        { error: `Unsupported database type: ${type}` },
+        { status: 400 }
+      );
+    }
+
     let result: { success: boolean; message: string };
     let effectiveConnectionString = connectionString;
     let diagnostics: { suggestions: string[] } | undefined;
@@ -150,7 +157,7 @@ export async function POST(request: NextRequest) {
     if (sshTunnel?.enabled) {
       // SSH tunnel: set up a temporary tunnel for testing
       const remoteHost = sshTunnel.remoteHost || parseHostname(connectionString);
-      const remotePort = sshTunnel.remotePort || parsePort(connectionString, DB_DEFAULT_PORTS[type] ?? 5432);
+      const remotePort = sshTunnel.remotePort || parsePort(connectionString, getEngine(type).defaultPort ?? 5432);
       const tempTunnel = new SSHTunnel({ ...sshTunnel, remoteHost, remotePort });
 
       try {
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCachedAdapter } from "@/lib/adapters/factory";
+import { audit } from "@/lib/audit";
+import {
+  sanitizeError,
+  TableNameSchema,
+  ConnectionIdSchema,
+  parseFiltersParam,
+} from "@/lib/validation";
+
+// Exact counts of very large tables may scan everything, so they get longer than a page read
+const EXACT_COUNT_TIMEOUT_MS = 60000;
+
+// Exact row count for a table whose data page reported an estimated total
+export async function GET(request: NextRequest) {
+  let connectionId: string | null = null;
+  let tableName: string | null = null;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    connectionId = searchParams.get("connectionId");
+    tableName = searchParams.get("table");
+
+    const connectionIdResult = ConnectionIdSchema.safeParse(connectionId);
+    const tableResult = TableNameSchema.safeParse(tableName);
+
+    if (!connectionIdResult.success || !tableResult.success) {
+      return NextResponse.json(
+        { error: "Missing or invalid required parameters: connectionId and table" },
+        { status: 400 }
+      );
+    }
+
+    const { filters, error: filtersError } = parseFiltersParam(searchParams.get("filters"));
+    if (filtersError) {
+      return NextResponse.json({ error: filtersError }, { status: 400 });
+    }
+
+    const adapter = getCachedAdapter(connectionId!);
+
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Connection not found. Please reconnect." },
+        { status: 404 }
+      );
+    }
+
+    if (!adapter.countRows) {
+      return NextResponse.json(
+        { error: "Row totals for this database are always exact" },
+        { status: 400 }
+      );
+    }
+
+    if (!adapter.isConnected()) {
+      await adapter.connect();
+    }
+
+    const total = await adapter.countRows(tableName!, filters, EXACT_COUNT_TIMEOUT_MS);
+
+    audit("data.read", {
+      connectionId: connectionId!,
+      details: { table: tableName, count: true },
+      success: true,
+    });
+
+    return NextResponse.json({ total });
+  } catch (error) {
+    console.error("Count rows error:", error);
+
+    audit("data.read", {
+      connectionId: connectionId ?? undefined,
+      details: { table: tableName, count: true },
+      success: false,
+      error: sanitizeError(error),
+    });
+
+    return NextResponse.json(
+      { error: sanitizeError(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,9 @@ import {
   sanitizeError,
   TableNameSchema,
   ConnectionIdSchema,
+  PageCursorSchema,
+  parseFiltersParam,
+  parseSortParam,
 } from "@/lib/validation";
 
 // Get paginated data from a table
@@ -20,10 +23,9 @@ export async function GET(request: NextRequest) {
     tableName = searchParams.get("table");
     const page = parseInt(searchParams.get("page") || "1");
     const pageSize = parseInt(searchParams.get("pageSize") || "50");
-    const sortBy = searchParams.get("sortBy") || undefined;
-    const sortOrder =
-      (searchParams.get("sortOrder") as "asc" | "desc") || undefined;
     const filtersJson = searchParams.get("filters");
+    const allowFullScan = searchParams.get("allowFullScan") === "true";
+    const cursor = searchParams.get("cursor") || undefined;
 
     // Validate required parameters
     const connectionIdResult = ConnectionIdSchema.safeParse(connectionId);
@@ -36,6 +38,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (cursor && !PageCursorSchema.safeParse(cursor).success) {
+      return NextResponse.json(
+        { error: "Invalid page cursor" },
+        { status: 400 }
+      );
+    }
+
     const adapter = getCachedAdapter(connectionId!);
 
     if (!adapter) {
@@ -49,25 +58,24 @@ export async function GET(request: NextRequest) {
       await adapter.connect();
     }
 
-    // Parse filters safely
-    let filters: Record<string, unknown> | undefined;
-    if (filtersJson) {
-      try {
-        filters = JSON.parse(filtersJson);
-      } catch {
-        return NextResponse.json(
-          { error: "Invalid filters format" },
-          { status: 400 }
-        );
-      }
+    // Parse and validate the filter expression
+    const { filters, error: filtersError } = parseFiltersParam(filtersJson);
+    if (filtersError) {
+      return NextResponse.json({ error: filtersError }, { status: 400 });
+    }
+
+    const { sort, error: sortError } = parseSortParam(searchParams.get("sort"));
+    if (sortError) {
+      return NextResponse.json({ error: sortError }, { status: 400 });
     }
 
     const options: QueryOptions = {
       page,
       pageSize: Math.min(pageSize, 100), // Max 100 rows per page
-      sortBy,
-      sortOrder,
+      sort,
       filters,
+      allowFullScan,
+      cursor,
     };
 
     const result = await adapter.getRows(tableName!, options);
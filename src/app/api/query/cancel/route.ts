@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCachedAdapter } from "@/lib/adapters/factory";
+import { audit } from "@/lib/audit";
+import { closeQueryStream } from "@/lib/query-streams";
+import { cancelScript } from "@/lib/query-scripts";
+import { sanitizeError, QueryCancelSchema } from "@/lib/validation";
+
+// Cancel a query started through POST /api/query with the same queryId
+export async function POST(request: NextRequest) {
+  let connectionId: string | undefined;
+  let queryId: string | undefined;
+
+  try {
+    const body = await request.json();
+    const parsed = QueryCancelSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Missing or invalid required fields: connectionId and queryId" },
+        { status: 400 }
+      );
+    }
+
+    ({ connectionId, queryId } = parsed.data);
+
+    const adapter = getCachedAdapter(connectionId);
+
+    if (!adapter) {
+      return NextResponse.json(
+        { error: "Connection not found. Please reconnect." },
+        { status: 404 }
+      );
+    }
+
+    // A result waiting for "fetch more" only needs its cursor closed
+    if (await closeQueryStream(queryId)) {
+      audit("query.cancel", {
+        connectionId,
+        details: { queryId, cancelled: true },
+        success: true,
+      });
+      return NextResponse.json({ cancelled: true });
+    }
+
+    // A script stops after its current statement, which is cancelled below if the database allows it
+    const scriptCancelled = cancelScript(queryId);
+
+    if (!adapter.cancelQuery && !scriptCancelled) {
+      return NextResponse.json(
+        { error: "Query cancellation is not supported for this database" },
+        { status: 400 }
+      );
+    }
+
+    // False when the query already finished (or never reached the database)
+    const cancelled = (await adapter.cancelQuery?.(queryId)) || scriptCancelled;
+
+    audit("query.cancel", {
+      connectionId,
+      details: { queryId, cancelled },
+      success: true,
+    });
+
+    return NextResponse.json({ cancelled });
+  } catch (error) {
+    console.error("Query cancel error:", error);
+
+    audit("query.cancel", {
+      connectionId,
+      details: { queryId },
+      success: false,
+      error: sanitizeError(error),
+    });
+
+    return NextResponse.json(
+      { error: sanitizeError(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCachedAdapter, getCachedAdapterType } from "@/lib/adapters/factory";
+import { locateError } from "@/lib/adapters/error-position";
+import { getEngine, missingParameters, splitScript } from "@/lib/engines";
+import { isReadOnlyMode } from "@/lib/server-state";
+import { audit } from "@/lib/audit";
+import { config } from "@/lib/config";
+import { sanitizeError, QueryExplainSchema } from "@/lib/validation";
+
+// Plan a single statement (see DatabaseAdapter.explainQuery)
+export async function POST(request: NextRequest) {
+  let connectionId: string | undefined;
+  let query: string | undefined;
+  let analyze = false;
+
+  try {
+    const body = await request.json();
+    const parsed = QueryExplainSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Missing or invalid required fields: connectionId and query" },
+        { status: 400 }
+      );
+    }
+
+    ({ connectionId, query } = parsed.data);
+    analyze = parsed.data.analyze ?? false;
+
+    const adapter = getCachedAdapter(connectionId);
+    const type = getCachedAdapterType(connectionId);
+
+    if (!adapter || !type) {
+      return NextResponse.json(
+        { error: "Connection not found. Please reconnect." },
+        { status: 404 }
+      );
+    }
+
+    if (!adapter.explainQuery) {
+      return NextResponse.json(
+        { error: "Query plans are not supported for this database" },
+        { status: 400 }
+      );
+    }
+
+    if (splitScript(type, query).length !== 1) {
+      return NextResponse.json(
+        { error: "Explain one statement at a time" },
+        { status: 400 }
+      );
+    }
+
+    // SERVER-SIDE read-only check - ANALYZE runs the statement, so writes are refused
+    const engine = getEngine(type);
+    if (analyze && isReadOnlyMode(connectionId) && engine.isWriteQuery(query)) {
+      audit("query.explain", {
+        connectionId,
+        details: { queryLength: query.length, analyze, blocked: true },
+        success: false,
+        error: "Write query blocked in read-only mode",
+      });
+
+      return NextResponse.json(
+        { error: "EXPLAIN ANALYZE runs the statement; write operations are not allowed in read-only mode" },
+        { status: 403 }
+      );
+    }
+
+    const missing = missingParameters(type, query, parsed.data.params);
+
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Missing values for parameters: ${missing.join(", ")}`, missingParams: missing },
+        { status: 400 }
+      );
+    }
+
+    if (!adapter.isConnected()) {
+      await adapter.connect();
+    }
+
+    const plan = await adapter.explainQuery(query, {
+      queryId: parsed.data.queryId,
+      timeoutMs: parsed.data.timeoutMs ?? config.statementTimeoutMs,
+      params: parsed.data.params,
+      analyze,
+    });
+
+    audit("query.explain", {
+      connectionId,
+      details: { queryLength: query.length, analyze, analyzed: plan.analyzed },
+      success: true,
+    });
+
+    return NextResponse.json({ plan });
+  } catch (error) {
+    console.error("Query explain error:", error);
+
+    audit("query.explain", {
+      connectionId,
+      details: { queryLength: query?.length, analyze },
+      success: false,
+      error: sanitizeError(error),
+    });
+
+    return NextResponse.json(
+      { error: sanitizeError(error), position: query ? locateError(error, query) : undefined },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { audit } from "@/lib/audit";
+import { queryStreamResponse, resumeQueryStream } from "@/lib/query-streams";
+import { sanitizeError, QueryMoreSchema } from "@/lib/validation";
+
+// Rows per "fetch more" when the editor doesn't ask for a number
+const DEFAULT_MAX_ROWS = 1000;
+
+// Stream the next rows of a query whose previous response ended with hasMore
+export async function POST(request: NextRequest) {
+  let connectionId: string | undefined;
+  let queryId: string | undefined;
+
+  try {
+    const body = await request.json();
+    const parsed = QueryMoreSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Missing or invalid required fields: connectionId and queryId" },
+        { status: 400 }
+      );
+    }
+
+    ({ connectionId, queryId } = parsed.data);
+
+    const stream = resumeQueryStream(queryId, connectionId);
+
+    if (!stream) {
+      return NextResponse.json(
+        { error: "This result is no longer available. Run the query again." },
+        { status: 410 }
+      );
+    }
+
+    return queryStreamResponse(queryId, stream, parsed.data.maxRows ?? DEFAULT_MAX_ROWS, (summary) => {
+      audit("query.execute", {
+        connectionId,
+        details: {
+          queryId,
+          fetchMore: true,
+          rowCount: summary.rowCount,
+          hasMore: summary.hasMore,
+        },
+        success: !summary.error,
+        error: summary.error,
+      });
+    });
+  } catch (error) {
+    console.error("Query fetch more error:", error);
+
+    return NextResponse.json(
+      { error: sanitizeError(error) },
+      { status: 500 }
+    );
+  }
+}
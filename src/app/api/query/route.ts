@@ -1,120 +1,33 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getCachedAdapter } from "@/lib/adapters/factory";
+import { getCachedAdapter, getCachedAdapterType } from "@/lib/adapters/factory";
+import { ENGINES, isWriteScript, missingParameters } from "@/lib/engines";
 import { isReadOnlyMode } from "@/lib/server-state";
 import { audit } from "@/lib/audit";
+import { config } from "@/lib/config";
+import { openQueryStream, queryStreamResponse } from "@/lib/query-streams";
 import {
   sanitizeError,
   ConnectionIdSchema,
+  QueryIdSchema,
+  StatementTimeoutSchema,
+  MaxRowsSchema,
+  QueryParamsSchema,
 } from "@/lib/validation";
 
-/**
- * Check if a query is a write operation.
- * Strips SQL comments to prevent bypass attacks.
- */
-function isWriteQuery(query: string): boolean {
-  // Remove SQL comments to prevent bypass
-  const stripped = query
-    .replace(/--.*$/gm, "") // Single-line comments
-    .replace(/\/\*[\s\S]*?\*\//g, "") // Block comments
-    .replace(/\s+/g, " ") // Normalize whitespace
-    .trim()
-    .toUpperCase();
-
-  // PostgreSQL/ClickHouse write keywords
-  const writeKeywords = [
-    "INSERT",
-    "UPDATE",
-    "DELETE",
-    "DROP",
-    "CREATE",
-    "ALTER",
-    "TRUNCATE",
-    "GRANT",
-    "REVOKE",
-    "COPY",
-    "VACUUM",
-    "REINDEX",
-    "CLUSTER",
-    "DISCARD",
-    "LOCK",
-  ];
-
-  // Check if query starts with any write keyword
-  const startsWithWrite = writeKeywords.some(
-    (keyword) =>
-      stripped.startsWith(keyword + " ") || stripped === keyword
-  );
-
-  // Also check for write operations in CTEs (WITH ... INSERT/UPDATE/DELETE)
-  const containsWriteInCTE = writeKeywords.some((keyword) =>
-    new RegExp(`\\)\\s*${keyword}\\s+`, "i").test(stripped)
-  );
-
-  return startsWithWrite || containsWriteInCTE;
-}
-
-/**
- * Check if a MongoDB query contains write operations.
- */
-function isMongoWriteQuery(query: string): boolean {
-  const mongoWriteOps = [
-    "insertOne",
-    "insertMany",
-    "updateOne",
-    "updateMany",
-    "deleteOne",
-    "deleteMany",
-    "drop",
-    "createIndex",
-    "dropIndex",
-    "dropIndexes",
-    "renameCollection",
-    "replaceOne",
-    "bulkWrite",
-  ];
-
-  return mongoWriteOps.some((op) => query.includes(`.${op}(`));
-}
+// Rows in the first response when the editor doesn't ask for a number
+const DEFAULT_MAX_ROWS = 1000;
 
-/**
- * Check if a Redis command is a write operation.
- */
-function isRedisWriteCommand(query: string): boolean {
-  const command = query.trim().split(/\s+/)[0]?.toUpperCase();
-  if (!command) return false;
-
-  const writeCommands = [
-    "SET", "SETNX", "SETEX", "PSETEX", "SETRANGE", "MSET", "MSETNX",
-    "GETSET", "GETDEL",
-    "DEL", "UNLINK",
-    "INCR", "DECR", "INCRBY", "DECRBY", "INCRBYFLOAT",
-    "APPEND",
-    "LPUSH", "RPUSH", "LPUSHX", "RPUSHX", "LPOP", "RPOP",
-    "LSET", "LTRIM", "LINSERT", "LREM",
-    "SADD", "SREM", "SPOP", "SMOVE", "SDIFFSTORE", "SINTERSTORE", "SUNIONSTORE",
-    "ZADD", "ZREM", "ZINCRBY", "ZPOPMIN", "ZPOPMAX",
-    "ZRANGESTORE", "ZDIFFSTORE", "ZINTERSTORE", "ZUNIONSTORE",
-    "HSET", "HSETNX", "HDEL", "HINCRBY", "HINCRBYFLOAT", "HMSET",
-    "EXPIRE", "EXPIREAT", "PEXPIRE", "PEXPIREAT", "PERSIST",
-    "RENAME", "RENAMENX",
-    "FLUSHDB", "FLUSHALL",
-    "XADD", "XDEL", "XTRIM",
-    "PFADD", "PFMERGE",
-    "RESTORE", "MIGRATE", "MOVE", "COPY",
-  ];
-
-  return writeCommands.includes(command);
-}
-
-// Execute a query
+// Execute a query, streaming the result back as NDJSON (see lib/query-streams)
 export async function POST(request: NextRequest) {
   let connectionId: string | undefined;
   let query: string | undefined;
+  let queryId: string | undefined;
 
   try {
     const body = await request.json();
     connectionId = body.connectionId;
     query = body.query;
+    queryId = body.queryId;
 
     // Validate required fields
     const connectionIdResult = ConnectionIdSchema.safeParse(connectionId);
@@ -126,6 +39,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The client may pick the query ID up front; either way it's the first line of the response
+    const queryIdResult = QueryIdSchema.optional().safeParse(queryId);
+    const timeoutResult = StatementTimeoutSchema.optional().safeParse(body.timeoutMs);
+    const maxRowsResult = MaxRowsSchema.optional().safeParse(body.maxRows);
+    const paramsResult = QueryParamsSchema.optional().safeParse(body.params);
+
+    if (!queryIdResult.success || !timeoutResult.success || !maxRowsResult.success || !paramsResult.success) {
+      return NextResponse.json(
+        { error: "Invalid queryId, timeoutMs, maxRows or params" },
+        { status: 400 }
+      );
+    }
+    queryId ??= `query_${crypto.randomUUID()}`;
+
     // Limit query length to prevent abuse
     if (query.length > 100000) {
       return NextResponse.json(
@@ -136,7 +63,12 @@ export async function POST(request: NextRequest) {
 
     // SERVER-SIDE read-only check - cannot be bypassed by client
     if (isReadOnlyMode(connectionId!)) {
-      const isWrite = isWriteQuery(query) || isMongoWriteQuery(query) || isRedisWriteCommand(query);
+      // Classify every statement with the connection's own engine; if unknown,
+      // block anything any engine would consider a write
+      const type = getCachedAdapterType(connectionId!);
+      const isWrite = type
+        ? isWriteScript(type, query)
+        : ENGINES.some((engine) => isWriteScript(engine.type, query!));
 
       if (isWrite) {
         audit("query.execute", {
@@ -162,24 +94,42 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Every placeholder needs a value; the adapter binds them, never the query text
+    const type = getCachedAdapterType(connectionId!);
+    const missing = type ? missingParameters(type, query, paramsResult.data) : [];
+
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Missing values for parameters: ${missing.join(", ")}`, missingParams: missing },
+        { status: 400 }
+      );
+    }
+
     if (!adapter.isConnected()) {
       await adapter.connect();
     }
 
-    const result = await adapter.executeQuery(query);
-
-    audit("query.execute", {
-      connectionId,
-      details: {
-        queryLength: query.length,
-        rowCount: result.rowCount,
-        executionTimeMs: result.executionTimeMs,
-      },
-      success: !result.error,
-      error: result.error,
+    const stream = openQueryStream(adapter, connectionId!, query, {
+      queryId,
+      timeoutMs: timeoutResult.data ?? config.statementTimeoutMs,
+      params: paramsResult.data,
+    });
+    const queryLength = query.length;
+
+    return queryStreamResponse(queryId, stream, maxRowsResult.data ?? DEFAULT_MAX_ROWS, (summary) => {
+      audit("query.execute", {
+        connectionId,
+        details: {
+          queryId,
+          queryLength,
+          rowCount: summary.rowCount,
+          executionTimeMs: summary.executionTimeMs,
+          hasMore: summary.hasMore,
+        },
+        success: !summary.error,
+        error: summary.error,
+      });
     });
-
-    return NextResponse.json(result);
   } catch (error) {
     console.error("Query execution error:", error);
 
@@ -191,13 +141,7 @@ export async function POST(request: NextRequest) {
     });
 
     return NextResponse.json(
-      {
-        rows: [],
-        columns: [],
-        rowCount: 0,
-        executionTimeMs: 0,
-        error: sanitizeError(error),
-      },
+      { error: sanitizeError(error) },
       { status: 500 }
     );
   }
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCachedAdapter, getCachedAdapterType } from "@/lib/adapters/factory";
+import { getEngine, missingParameters, splitScript } from "@/lib/engines";
+import { isReadOnlyMode } from "@/lib/server-state";
+import { audit } from "@/lib/audit";
+import { config } from "@/lib/config";
+import { scriptStreamResponse } from "@/lib/query-scripts";
+import { sanitizeError, QueryScriptSchema } from "@/lib/validation";
+
+// Rows kept per statement when the editor doesn't ask for a number
+const DEFAULT_MAX_ROWS = 1000;
+
+// Most statements a single script may contain
+const MAX_STATEMENTS = 500;
+
+// Run a multi-statement script, streaming one result per statement as NDJSON
+export async function POST(request: NextRequest) {
+  let connectionId: string | undefined;
+  let scriptLength: number | undefined;
+
+  try {
+    const body = await request.json();
+    const parsed = QueryScriptSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Missing or invalid required fields: connectionId and script" },
+        { status: 400 }
+      );
+    }
+
+    const { script, stopOnError = true } = parsed.data;
+    connectionId = parsed.data.connectionId;
+    scriptLength = script.length;
+
+    const adapter = getCachedAdapter(connectionId);
+    const type = getCachedAdapterType(connectionId);
+
+    if (!adapter || !type) {
+      return NextResponse.json(
+        { error: "Connection not found. Please reconnect." },
+        { status: 404 }
+      );
+    }
+
+    const statements = splitScript(type, script);
+
+    if (statements.length === 0) {
+      return NextResponse.json(
+        { error: "The script contains no statements" },
+        { status: 400 }
+      );
+    }
+
+    if (statements.length > MAX_STATEMENTS) {
+      return NextResponse.json(
+        { error: `Too many statements (max ${MAX_STATEMENTS})` },
+        { status: 400 }
+      );
+    }
+
+    // SERVER-SIDE read-only check - the whole script is refused before anything runs
+    if (isReadOnlyMode(connectionId)) {
+      const engine = getEngine(type);
+      const writeIndex = statements.findIndex((statement) => engine.isWriteQuery(statement.text));
+
+      if (writeIndex !== -1) {
+        audit("query.execute", {
+          connectionId,
+          details: { scriptLength, statementCount: statements.length, blocked: true },
+          success: false,
+          error: "Write query blocked in read-only mode",
+        });
+
+        return NextResponse.json(
+          {
+            error: `Write operations are not allowed in read-only mode (statement ${writeIndex + 1})`,
+            statementIndex: writeIndex,
+          },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Every placeholder needs a value; the adapter binds them, never the script text
+    const missing = missingParameters(type, script, parsed.data.params);
+
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Missing values for parameters: ${missing.join(", ")}`, missingParams: missing },
+        { status: 400 }
+      );
+    }
+
+    if (!adapter.isConnected()) {
+      await adapter.connect();
+    }
+
+    const queryId = parsed.data.queryId ?? `query_${crypto.randomUUID()}`;
+
+    return scriptStreamResponse(
+      adapter,
+      statements,
+      {
+        queryId,
+        timeoutMs: parsed.data.timeoutMs ?? config.statementTimeoutMs,
+        maxRows: parsed.data.maxRows ?? DEFAULT_MAX_ROWS,
+        stopOnError,
+        params: parsed.data.params,
+      },
+      (summary) => {
+        audit("query.execute", {
+          connectionId,
+          details: {
+            queryId,
+            scriptLength,
+            statementCount: summary.statementCount,
+            failed: summary.failed,
+            skipped: summary.skipped,
+            executionTimeMs: summary.executionTimeMs,
+          },
+          success: summary.failed === 0,
+          error: summary.failed ? `${summary.failed} statement(s) failed` : undefined,
+        });
+      }
+    );
+  } catch (error) {
+    console.error("Script execution error:", error);
+
+    audit("query.execute", {
+      connectionId,
+      details: { scriptLength },
+      success: false,
+      error: sanitizeError(error),
+    });
+
+    return NextResponse.json(
+      { error: sanitizeError(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getCachedAdapter } from "@/lib/adapters/factory";
+import { getCachedAdapter, getCachedAdapterType } from "@/lib/adapters/factory";
+import { getEngine } from "@/lib/engines";
 import {
   setReadOnlyMode,
   isReadOnlyMode,
@@ -90,11 +91,11 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get adapter capabilities if available
-    const capabilities = adapter.capabilities ?? {
-      supportsUpdate: true,
-      supportsDelete: true,
-      supportsTransactions: true,
+    // Engine defaults, narrowed by anything the adapter reports at runtime
+    const type = getCachedAdapterType(connectionId!);
+    const capabilities = {
+      ...(type ? getEngine(type).capabilities : undefined),
+      ...adapter.capabilities,
     };
 
     return NextResponse.json({
@@ -48,6 +48,7 @@ import {
 import { useStudioStore, TabType } from '@/lib/stores/studio';
 import { ConnectionConfig } from '@/lib/adapters/types';
 import { useConnectionHealth, ConnectionHealthStatus } from '@/hooks/use-connection-health';
+import { useCapabilities, useLoadCapabilities } from '@/hooks/use-capabilities';
 import { toast } from 'sonner';
 
 export default function StudioPage() {
@@ -65,18 +66,22 @@ export default function StudioPage() {
     reset,
   } = useStudioStore();
 
-  // If Redis connection and schema tab is active, redirect to data tab
-  useEffect(() => {
-    if (activeConnection?.type === 'redis' && activeTab === 'schema') {
-      setActiveTab('data');
-    }
-  }, [activeConnection, activeTab, setActiveTab]);
-
   // Reconnection state — start true so UI waits for adapter confirmation
   const [isReconnecting, setIsReconnecting] = useState(true);
   const [reconnectFailed, setReconnectFailed] = useState(false);
   const reconnectAttempted = useRef(false);
 
+  // Tabs and actions follow what the connected engine supports
+  useLoadCapabilities(activeConnection?.id ?? null, !isReconnecting);
+  const capabilities = useCapabilities();
+
+  // If the engine has no ER diagram and the schema tab is active, redirect to data tab
+  useEffect(() => {
+    if (!capabilities.supportsERDiagram && activeTab === 'schema') {
+      setActiveTab('data');
+    }
+  }, [capabilities, activeTab, setActiveTab]);
+
   // Connection health monitoring
   const { status: healthStatus, reconnect: healthReconnect } = useConnectionHealth({
     connectionId: activeConnection?.id ?? null,
@@ -404,7 +409,7 @@ export default function StudioPage() {
                   <Code2 className="h-4 w-4 mr-2" />
                   Query
                 </TabsTrigger>
-                {activeConnection.type !== 'redis' && (
+                {capabilities.supportsERDiagram && (
                   <TabsTrigger
                     value="schema"
                     className="px-4 h-9 data-[state=active]:bg-muted rounded-none border-b-2 border-transparent data-[state=active]:border-primary"
@@ -19,8 +19,9 @@ import {
 } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { useConnectionStore } from '@/lib/stores/connection';
-import { supportedDatabases } from '@/lib/constants';
+import { ENGINES, getEngine } from '@/lib/engines';
 import { DatabaseType, SSHTunnelConfig } from '@/lib/adapters/types';
+import { RedisMode, withRedisMode } from '@/lib/utils/connection-string';
 import { toast } from 'sonner';
 
 const DEFAULT_SSH_TUNNEL: SSHTunnelConfig = {
@@ -50,8 +51,24 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [sshTunnel, setSshTunnel] = useState<SSHTunnelConfig>(DEFAULT_SSH_TUNNEL);
+  const [redisMode, setRedisMode] = useState<RedisMode>('standalone');
+  const [sentinelMaster, setSentinelMaster] = useState('');
+  // Seconds as typed; empty means the server default
+  const [statementTimeout, setStatementTimeout] = useState('');
 
-  const selectedDb = supportedDatabases.find((db) => db.type === dbType);
+  const selectedDb = getEngine(dbType);
+
+  // Redis topology is carried in the connection string so saved connections keep it
+  const effectiveConnectionString =
+    dbType === 'redis' && connectionString
+      ? withRedisMode(connectionString, redisMode, sentinelMaster)
+      : connectionString;
+  const missingSentinelMaster = dbType === 'redis' && redisMode === 'sentinel' && !sentinelMaster;
+  const statementTimeoutMs =
+    !selectedDb.capabilities.supportsStatementTimeout || statementTimeout.trim() === ''
+      ? undefined
+      : Math.max(0, Math.round(Number(statementTimeout) * 1000));
+  const invalidStatementTimeout = statementTimeoutMs !== undefined && !Number.isFinite(statementTimeoutMs);
 
   const updateSsh = (updates: Partial<SSHTunnelConfig>) => {
     setSshTunnel((prev) => ({ ...prev, ...updates }));
@@ -59,7 +76,7 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
 
   const buildRequestBody = (overrides?: Partial<{ connectionId: string; readOnly: boolean }>) => ({
     type: dbType,
-    connectionString,
+    connectionString: effectiveConnectionString,
     sshTunnel: sshTunnel.enabled ? sshTunnel : undefined,
     ...overrides,
   });
@@ -102,9 +119,10 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
     try {
       const connectionId = addConnection({
         type: dbType,
-        connectionString,
+        connectionString: effectiveConnectionString,
         name: connectionName,
         sshTunnel: sshTunnel.enabled ? sshTunnel : undefined,
+        statementTimeoutMs,
       });
 
       const response = await fetch('/api/connect', {
@@ -146,7 +164,7 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {supportedDatabases.map((db) => (
+              {ENGINES.map((db) => (
                 <SelectItem key={db.type} value={db.type}>
                   {db.name}
                 </SelectItem>
@@ -171,7 +189,7 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
         <Input
           id="connection-string"
           type="text"
-          placeholder={selectedDb?.placeholder}
+          placeholder={selectedDb.placeholder}
           value={connectionString}
           onChange={(e) => setConnectionString(e.target.value)}
         />
@@ -183,6 +201,42 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
         </p>
       </div>
 
+      {dbType === 'redis' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="redis-mode">Redis Mode</Label>
+            <Select value={redisMode} onValueChange={(v) => setRedisMode(v as RedisMode)}>
+              <SelectTrigger id="redis-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="standalone">Standalone</SelectItem>
+                <SelectItem value="cluster">Cluster</SelectItem>
+                <SelectItem value="sentinel">Sentinel</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {redisMode === 'sentinel' && (
+            <div className="space-y-2">
+              <Label htmlFor="sentinel-master">Master Name</Label>
+              <Input
+                id="sentinel-master"
+                placeholder="mymaster"
+                value={sentinelMaster}
+                onChange={(e) => setSentinelMaster(e.target.value)}
+              />
+            </div>
+          )}
+
+          <p className="col-span-2 text-xs text-muted-foreground">
+            {redisMode === 'standalone' && 'Single Redis server. Use rediss:// for TLS.'}
+            {redisMode === 'cluster' && 'List one or more seed nodes: redis://:pass@node1:7000,node2:7001'}
+            {redisMode === 'sentinel' && 'List the sentinels, not the master: redis://:pass@sentinel1:26379,sentinel2:26379/0'}
+          </p>
+        </div>
+      )}
+
       {/* Advanced / SSH Tunnel Section */}
       <div className="border rounded-lg overflow-hidden">
         <button
@@ -192,7 +246,7 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
         >
           <span className="flex items-center gap-2">
             <Network className="h-4 w-4 text-muted-foreground" />
-            Advanced — SSH Tunnel
+            Advanced — SSH Tunnel & Timeouts
             {sshTunnel.enabled && (
               <span className="px-1.5 py-0.5 rounded text-xs bg-blue-500/10 text-blue-600 dark:text-blue-400 border border-blue-500/20">
                 Enabled
@@ -208,6 +262,27 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
 
         {showAdvanced && (
           <div className="px-4 pb-4 pt-2 space-y-4 border-t bg-muted/20">
+            {/* Statement timeout for query editor runs */}
+            {selectedDb.capabilities.supportsStatementTimeout && (
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium">Statement Timeout</p>
+                  <p className="text-xs text-muted-foreground">
+                    Seconds before a query editor run is stopped (0 for none)
+                  </p>
+                </div>
+                <Input
+                  id="statement-timeout"
+                  type="number"
+                  min={0}
+                  placeholder="Default"
+                  value={statementTimeout}
+                  onChange={(e) => setStatementTimeout(e.target.value)}
+                  className="h-8 w-24 text-sm"
+                />
+              </div>
+            )}
+
             {/* SSH Enable Toggle */}
             <div className="flex items-center justify-between">
               <div>
@@ -371,7 +446,7 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
         <Button
           variant="outline"
           onClick={handleTestConnection}
-          disabled={!connectionString || isLoading}
+          disabled={!connectionString || isLoading || missingSentinelMaster}
           className="w-full"
         >
           {isLoading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
@@ -379,7 +454,9 @@ export function ConnectionForm({ onConnected }: ConnectionFormProps) {
         </Button>
         <Button
           onClick={handleConnect}
-          disabled={!connectionString || !connectionName || isLoading}
+          disabled={
+            !connectionString || !connectionName || isLoading || missingSentinelMaster || invalidStatementTimeout
+          }
           className="w-full"
         >
           {isLoading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
@@ -21,51 +21,10 @@ import { cn } from '@/lib/utils';
 import { useConnectionStore, useConnections } from '@/lib/stores/connection';
 import { useStudioStore } from '@/lib/stores/studio';
 import { ConnectionConfig } from '@/lib/adapters/types';
+import { getEngine, isDatabaseType } from '@/lib/engines';
 
-const DB_CONFIG: Record<
-  string,
-  {
-    label: string;
-    color: string;
-    bgColor: string;
-    borderColor: string;
-    dotColor: string;
-    badgeBg: string;
-  }
-> = {
-  postgresql: {
-    label: 'PostgreSQL',
-    color: 'text-blue-500',
-    bgColor: 'bg-blue-500/10',
-    borderColor: 'border-blue-500/30',
-    dotColor: 'bg-blue-500',
-    badgeBg: 'bg-blue-500/10 text-blue-600 dark:text-blue-400',
-  },
-  mongodb: {
-    label: 'MongoDB',
-    color: 'text-green-500',
-    bgColor: 'bg-green-500/10',
-    borderColor: 'border-green-500/30',
-    dotColor: 'bg-green-500',
-    badgeBg: 'bg-green-500/10 text-green-600 dark:text-green-400',
-  },
-  clickhouse: {
-    label: 'ClickHouse',
-    color: 'text-amber-500',
-    bgColor: 'bg-amber-500/10',
-    borderColor: 'border-amber-500/30',
-    dotColor: 'bg-amber-500',
-    badgeBg: 'bg-amber-500/10 text-amber-600 dark:text-amber-400',
-  },
-  redis: {
-    label: 'Redis',
-    color: 'text-red-500',
-    bgColor: 'bg-red-500/10',
-    borderColor: 'border-red-500/30',
-    dotColor: 'bg-red-500',
-    badgeBg: 'bg-red-500/10 text-red-600 dark:text-red-400',
-  },
-};
+// Saved connections may reference an engine that's no longer registered
+const engineFor = (type: string) => getEngine(isDatabaseType(type) ? type : 'postgresql');
 
 function DbIcon({ type, className }: { type: string; className?: string }) {
   if (type === 'redis') {
@@ -89,7 +48,7 @@ export function DatabaseSwitcher({ activeConnection }: DatabaseSwitcherProps) {
   const [error, setError] = useState<string | null>(null);
 
   const isSwitching = switchingTo !== null;
-  const activeConfig = DB_CONFIG[activeConnection.type] ?? DB_CONFIG.postgresql;
+  const activeEngine = engineFor(activeConnection.type);
 
   const handleSwitch = async (connection: ConnectionConfig) => {
     if (connection.id === activeConnection.id) {
@@ -146,7 +105,7 @@ export function DatabaseSwitcher({ activeConnection }: DatabaseSwitcherProps) {
             'flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-all duration-200',
             'hover:bg-muted/60 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
             'disabled:opacity-60 group',
-            activeConfig.borderColor,
+            activeEngine.colors.border,
             error ? 'border-destructive' : '',
           )}
           disabled={isSwitching}
@@ -157,7 +116,7 @@ export function DatabaseSwitcher({ activeConnection }: DatabaseSwitcherProps) {
             <span
               className={cn(
                 'inline-block h-2 w-2 rounded-full shrink-0',
-                activeConfig.dotColor,
+                activeEngine.colors.dot,
               )}
             />
           )}
@@ -170,11 +129,11 @@ export function DatabaseSwitcher({ activeConnection }: DatabaseSwitcherProps) {
             variant="outline"
             className={cn(
               'text-[10px] px-1.5 py-0 h-4 border font-medium',
-              activeConfig.badgeBg,
-              activeConfig.borderColor,
+              activeEngine.colors.badge,
+              activeEngine.colors.border,
             )}
           >
-            {activeConfig.label}
+            {activeEngine.label}
           </Badge>
 
           <ChevronDown
@@ -202,7 +161,7 @@ export function DatabaseSwitcher({ activeConnection }: DatabaseSwitcherProps) {
         {/* Connection list */}
         <div className="space-y-0.5">
           {connections.map((conn) => {
-            const config = DB_CONFIG[conn.type] ?? DB_CONFIG.postgresql;
+            const engine = engineFor(conn.type);
             const isActive = conn.id === activeConnection.id;
             const isSwitchingToThis = switchingTo === conn.id;
 
@@ -222,11 +181,11 @@ export function DatabaseSwitcher({ activeConnection }: DatabaseSwitcherProps) {
                 <div
                   className={cn(
                     'h-9 w-9 rounded-lg flex items-center justify-center shrink-0 border',
-                    config.bgColor,
-                    config.borderColor,
+                    engine.colors.bg,
+                    engine.colors.border,
                   )}
                 >
-                  <DbIcon type={conn.type} className={cn('h-4 w-4', config.color)} />
+                  <DbIcon type={conn.type} className={cn('h-4 w-4', engine.colors.text)} />
                 </div>
 
                 {/* Connection info */}
@@ -242,8 +201,8 @@ export function DatabaseSwitcher({ activeConnection }: DatabaseSwitcherProps) {
                       </span>
                     )}
                   </div>
-                  <span className={cn('text-[11px] font-medium', config.color)}>
-                    {config.label}
+                  <span className={cn('text-[11px] font-medium', engine.colors.text)}>
+                    {engine.label}
                   </span>
                 </div>
 
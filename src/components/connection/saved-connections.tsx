@@ -19,14 +19,10 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { ConnectionConfig, DatabaseType } from '@/lib/adapters/types';
+import { ConnectionConfig } from '@/lib/adapters/types';
+import { isDatabaseType, getEngine } from '@/lib/engines';
 
-const DB_TYPE_LABEL: Record<DatabaseType, string> = {
-  postgresql: 'PostgreSQL',
-  mongodb: 'MongoDB',
-  clickhouse: 'ClickHouse',
-  redis: 'Redis',
-};
+const typeLabel = (type: string) => (isDatabaseType(type) ? getEngine(type).label : type);
 
 interface SavedConnectionsProps {
   connections: ConnectionConfig[];
@@ -82,7 +78,7 @@ export function SavedConnections({
                   )}
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  {DB_TYPE_LABEL[conn.type] ?? conn.type}
+                  {typeLabel(conn.type)}
                 </p>
               </div>
             </div>
@@ -138,7 +134,7 @@ export function SavedConnections({
             {editingConnection && (
               <div className="text-sm text-muted-foreground">
                 <span className="font-medium">Type:</span>{' '}
-                {DB_TYPE_LABEL[editingConnection.type] ?? editingConnection.type}
+                {typeLabel(editingConnection.type)}
               </div>
             )}
           </div>
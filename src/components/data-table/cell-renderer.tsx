@@ -13,6 +13,7 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import { ForeignKeyRef } from '@/lib/adapters/types';
 import { cn, formatTTL, formatBytes } from '@/lib/utils';
 
 function isIdLikeValue(value: unknown): boolean {
@@ -68,7 +69,7 @@ export function SmartCellDisplay({
 }: {
   value: unknown;
   isForeignKey?: boolean;
-  foreignKeyRef?: { table: string; column: string };
+  foreignKeyRef?: ForeignKeyRef;
   onFKClick?: () => void;
 }) {
   if (value === null || value === undefined) {
@@ -131,7 +132,11 @@ export function SmartCellDisplay({
             onFKClick();
           }}
           className="shrink-0 p-0.5 rounded hover:bg-primary/10 text-primary cursor-pointer transition-colors"
-          title={`Open ${foreignKeyRef.table} where ${foreignKeyRef.column} = ${strValue}`}
+          title={
+            foreignKeyRef.columns.length > 1
+              ? `Open ${foreignKeyRef.table} matching (${foreignKeyRef.foreignColumns.join(', ')})`
+              : `Open ${foreignKeyRef.table} where ${foreignKeyRef.column} = ${strValue}`
+          }
         >
           <ArrowUpRight className="h-3.5 w-3.5" />
         </button>
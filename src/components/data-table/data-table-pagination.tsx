@@ -14,13 +14,17 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { PageCursors } from '@/lib/adapters/types';
 
 interface DataTablePaginationProps {
   page: number;
   totalPages: number;
   pageSize: number;
-  isRedis: boolean;
+  isKeyValue: boolean;
+  // Keyset mode: pages are stepped through with cursors instead of jumped to by number
+  cursors?: PageCursors;
   onPageChange: (page: number) => void;
+  onCursorChange?: (cursor: string, page: number) => void;
   onPageSizeChange: (size: number) => void;
 }
 
@@ -28,15 +32,21 @@ export function DataTablePagination({
   page,
   totalPages,
   pageSize,
-  isRedis,
+  isKeyValue,
+  cursors,
   onPageChange,
+  onCursorChange,
   onPageSizeChange,
 }: DataTablePaginationProps) {
+  const keyset = !!cursors && !!onCursorChange;
+  const hasPrev = keyset ? !!cursors.prev : page > 1;
+  const hasNext = keyset ? !!cursors.next : page < totalPages;
+
   return (
     <div className="flex items-center justify-between px-4 py-3 border-t bg-muted/30 shrink-0">
       <div className="flex items-center gap-3 text-sm">
         <span className="text-muted-foreground">
-          {isRedis ? 'Keys per page:' : 'Rows per page:'}
+          {isKeyValue ? 'Keys per page:' : 'Rows per page:'}
         </span>
         <Select
           value={pageSize.toString()}
@@ -57,11 +67,15 @@ export function DataTablePagination({
 
       <div className="flex items-center gap-2">
         <span className="text-sm text-muted-foreground">
-          Page <span className="font-medium text-foreground">{page}</span>{' '}
-          of{' '}
-          <span className="font-medium text-foreground">
-            {totalPages || 1}
-          </span>
+          Page <span className="font-medium text-foreground">{page}</span>
+          {!keyset && (
+            <>
+              {' '}of{' '}
+              <span className="font-medium text-foreground">
+                {totalPages || 1}
+              </span>
+            </>
+          )}
         </span>
         <div className="flex items-center gap-1 ml-2">
           <Button
@@ -77,8 +91,10 @@ export function DataTablePagination({
             variant="outline"
             size="icon"
             className="h-8 w-8"
-            onClick={() => onPageChange(page - 1)}
-            disabled={page === 1}
+            onClick={() =>
+              keyset ? onCursorChange(cursors.prev!, page - 1) : onPageChange(page - 1)
+            }
+            disabled={!hasPrev}
           >
             <ChevronLeft className="h-4 w-4" />
           </Button>
@@ -86,20 +102,25 @@ export function DataTablePagination({
             variant="outline"
             size="icon"
             className="h-8 w-8"
-            onClick={() => onPageChange(page + 1)}
-            disabled={page >= totalPages}
+            onClick={() =>
+              keyset ? onCursorChange(cursors.next!, page + 1) : onPageChange(page + 1)
+            }
+            disabled={!hasNext}
           >
             <ChevronRight className="h-4 w-4" />
           </Button>
-          <Button
-            variant="outline"
-            size="icon"
-            className="h-8 w-8"
-            onClick={() => onPageChange(totalPages)}
-            disabled={page >= totalPages}
-          >
-            <ChevronsRight className="h-4 w-4" />
-          </Button>
+          {/* Seeking can't jump to the end, only step towards it */}
+          {!keyset && (
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onPageChange(totalPages)}
+              disabled={page >= totalPages}
+            >
+              <ChevronsRight className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       </div>
     </div>
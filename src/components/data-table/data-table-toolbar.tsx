@@ -5,8 +5,10 @@ import {
   Download,
   Filter,
   Flame,
+  Loader2,
   Pencil,
   Trash2,
+  X,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -14,53 +16,122 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
-import { cn } from '@/lib/utils';
+import { cn, formatNumber } from '@/lib/utils';
+import { DataTabFilter, describeFilter } from '@/lib/stores/studio';
+import { ColumnInfo, FilterCondition } from '@/lib/adapters/types';
+import { FilterBuilder, FilterMatch, describeCondition } from './filter-builder';
 
 interface DataTableToolbarProps {
   tableName: string;
   totalRows: number;
-  isRedis: boolean;
+  // totalRows is an engine estimate until counted exactly
+  totalIsEstimate?: boolean;
+  isCounting?: boolean;
+  // Records are keys rather than rows (key-value stores)
+  isKeyValue: boolean;
+  canEdit: boolean;
   isLoading: boolean;
   readOnlyMode: boolean;
-  filter?: { column: string; value: unknown };
+  filter?: DataTabFilter;
+  columns: ColumnInfo[];
+  // Conditions composed in the filter builder, combined with `filterMatch`
+  userFilters: FilterCondition[];
+  filterMatch: FilterMatch;
   selectedCount?: number;
   onRefresh: () => void;
   onExportCSV: () => void;
   onFlushAll?: () => void;
   onBulkDelete?: () => void;
+  onCountExactly?: () => void;
+  onFiltersChange: (filters: FilterCondition[], match: FilterMatch) => void;
 }
 
 export function DataTableToolbar({
   tableName,
   totalRows,
-  isRedis,
+  totalIsEstimate = false,
+  isCounting = false,
+  isKeyValue,
+  canEdit,
   isLoading,
   readOnlyMode,
   filter,
+  columns,
+  userFilters,
+  filterMatch,
   selectedCount = 0,
   onRefresh,
   onExportCSV,
   onFlushAll,
   onBulkDelete,
+  onCountExactly,
+  onFiltersChange,
 }: DataTableToolbarProps) {
-  const canEdit = !readOnlyMode && !isRedis;
-
   return (
     <div className="flex items-center justify-between px-4 py-3 border-b bg-muted/30 shrink-0">
       <div className="flex items-center gap-3 min-w-0">
         <h3 className="font-semibold text-base shrink-0">{tableName}</h3>
-        <span className="text-sm text-muted-foreground bg-muted px-2 py-0.5 rounded-full shrink-0">
-          {totalRows.toLocaleString()} {isRedis ? 'keys' : 'rows'}
-        </span>
+        {totalIsEstimate ? (
+          <div className="flex items-center gap-1.5 shrink-0">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <span className="text-sm text-muted-foreground bg-muted px-2 py-0.5 rounded-full cursor-default">
+                  ~{formatNumber(totalRows)} {isKeyValue ? 'keys' : 'rows'}
+                </span>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Estimated from table statistics ({totalRows.toLocaleString()})</p>
+              </TooltipContent>
+            </Tooltip>
+            {onCountExactly && (
+              <button
+                onClick={onCountExactly}
+                disabled={isCounting}
+                className="flex items-center gap-1 text-xs text-primary hover:underline disabled:opacity-60 disabled:no-underline"
+              >
+                {isCounting && <Loader2 className="h-3 w-3 animate-spin" />}
+                {isCounting ? 'Counting…' : 'Count exactly'}
+              </button>
+            )}
+          </div>
+        ) : (
+          <span className="text-sm text-muted-foreground bg-muted px-2 py-0.5 rounded-full shrink-0">
+            {totalRows.toLocaleString()} {isKeyValue ? 'keys' : 'rows'}
+          </span>
+        )}
 
         {filter && (
           <div className="flex items-center gap-1.5 bg-primary/10 text-primary border border-primary/20 px-2.5 py-1 rounded-full text-xs font-medium shrink-0">
             <Filter className="h-3 w-3" />
             <span>
-              {filter.column} = {String(filter.value)}
+              {describeFilter(filter)}
             </span>
           </div>
         )}
+
+        {userFilters.length > 0 && (
+          <div className="flex items-center gap-1.5 min-w-0 overflow-x-auto">
+            {userFilters.map((condition, index) => (
+              <div key={index} className="flex items-center gap-1.5 shrink-0">
+                {index > 0 && (
+                  <span className="text-[10px] uppercase text-muted-foreground font-medium">
+                    {filterMatch}
+                  </span>
+                )}
+                <div className="flex items-center gap-1 bg-muted border px-2.5 py-1 rounded-full text-xs font-mono">
+                  <span>{describeCondition(condition)}</span>
+                  <button
+                    onClick={() => onFiltersChange(userFilters.filter((_, i) => i !== index), filterMatch)}
+                    className="rounded-full hover:bg-background p-0.5 -mr-1 transition-colors"
+                    title="Remove filter"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       <div className="flex items-center gap-2 shrink-0">
@@ -90,7 +161,7 @@ export function DataTableToolbar({
           </Button>
         )}
 
-        {isRedis && !readOnlyMode && onFlushAll && (
+        {!readOnlyMode && onFlushAll && (
           <Button
             variant="outline"
             size="sm"
@@ -102,6 +173,14 @@ export function DataTableToolbar({
           </Button>
         )}
 
+        <FilterBuilder
+          columns={columns}
+          filters={userFilters}
+          match={filterMatch}
+          onApply={onFiltersChange}
+          allowRegex={!isKeyValue}
+        />
+
         <Button
           variant="outline"
           size="sm"
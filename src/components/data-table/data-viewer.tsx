@@ -27,15 +27,25 @@ import {
 import {
   TooltipProvider,
 } from '@/components/ui/tooltip';
-import { useStudioStore } from '@/lib/stores/studio';
+import { useStudioStore, DataTabFilter, describeFilter } from '@/lib/stores/studio';
 import { useActiveConnection, useReadOnlyMode } from '@/lib/stores/connection';
-import { PaginatedResult } from '@/lib/adapters/types';
+import { useCapabilities } from '@/hooks/use-capabilities';
+import {
+  PaginatedResult,
+  PageCursors,
+  SortKey,
+  ForeignKeyRef,
+  FilterCondition,
+  FilterExpression,
+} from '@/lib/adapters/types';
+import { equalsAll } from '@/lib/adapters/filters';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import { SmartCellDisplay, RedisCellDisplay } from './cell-renderer';
 import { EditRowDialog, EditSingleFieldDialog } from './edit-row-drawer';
 import { DataTableToolbar } from './data-table-toolbar';
 import { DataTablePagination } from './data-table-pagination';
+import { FilterMatch } from './filter-builder';
 
 type RowData = Record<string, unknown>;
 
@@ -45,21 +55,33 @@ function DataTable({
   filter,
 }: {
   tableName: string;
-  filter?: { column: string; value: unknown };
+  filter?: DataTabFilter;
 }) {
   const activeConnection = useActiveConnection();
   const readOnlyMode = useReadOnlyMode();
   const { tableSchema, addDataTab } = useStudioStore();
+  const capabilities = useCapabilities();
 
-  const isRedis = activeConnection?.type === 'redis';
+  const isKeyValue = capabilities.dataModel === 'key-value';
 
   const [data, setData] = useState<RowData[]>([]);
   const [totalRows, setTotalRows] = useState(0);
+  const [totalIsEstimate, setTotalIsEstimate] = useState(false);
+  // Result of "count exactly" for the current filters, replacing the estimate
+  const [exactTotal, setExactTotal] = useState<number | null>(null);
+  const [isCounting, setIsCounting] = useState(false);
   const [page, setPage] = useState(1);
+  // Keyset paging: the cursor the current page was read from, and the neighbours it returned
+  const [cursor, setCursor] = useState<string | undefined>();
+  const [cursors, setCursors] = useState<PageCursors | undefined>();
   const [pageSize, setPageSize] = useState(50);
   const [isLoading, setIsLoading] = useState(false);
-  const [sortBy, setSortBy] = useState<string | undefined>();
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  // Sort keys in priority order; shift-click on a header adds a secondary key
+  const [sort, setSort] = useState<SortKey[]>([]);
+  const [requiresFullScan, setRequiresFullScan] = useState(false);
+  const [allowFullScan, setAllowFullScan] = useState(false);
+  const [userFilters, setUserFilters] = useState<FilterCondition[]>([]);
+  const [filterMatch, setFilterMatch] = useState<FilterMatch>('and');
 
   // Full row edit state
   const [editDrawerOpen, setEditDrawerOpen] = useState(false);
@@ -83,7 +105,17 @@ function DataTable({
   const [columnResizeMode] = useState<ColumnResizeMode>('onChange');
   const [columnSizing, setColumnSizing] = useState({});
 
-  const totalPages = Math.ceil(totalRows / pageSize);
+  const knownTotal = totalIsEstimate && exactTotal !== null ? exactTotal : totalRows;
+  const totalPages = Math.ceil(knownTotal / pageSize);
+
+  // The tab's foreign-key filter always applies; builder conditions narrow it further
+  const filters = useMemo<FilterExpression | undefined>(() => {
+    const parts: FilterExpression[] = [];
+    if (filter) parts.push(equalsAll(filter));
+    if (userFilters.length > 0) parts.push({ type: filterMatch, filters: userFilters });
+    if (parts.length === 0) return undefined;
+    return parts.length === 1 ? parts[0] : { type: 'and', filters: parts };
+  }, [filter, userFilters, filterMatch]);
 
   const fetchData = useCallback(async () => {
     if (!activeConnection || !tableName) return;
@@ -98,46 +130,88 @@ function DataTable({
         pageSize: pageSize.toString(),
       });
 
-      if (sortBy) {
-        params.set('sortBy', sortBy);
-        params.set('sortOrder', sortOrder);
+      if (sort.length > 0) {
+        params.set('sort', JSON.stringify(sort));
       }
 
-      if (filter) {
-        params.set(
-          'filters',
-          JSON.stringify({ [filter.column]: filter.value })
-        );
+      if (filters) {
+        params.set('filters', JSON.stringify(filters));
+      }
+
+      if (allowFullScan) {
+        params.set('allowFullScan', 'true');
+      }
+
+      if (cursor) {
+        params.set('cursor', cursor);
       }
 
       const response = await fetch(`/api/data?${params}`);
-      const result: PaginatedResult = await response.json();
+      const result: PaginatedResult & { error?: string } = await response.json();
 
       if (!result.data) {
+        // Engines reject some filters (e.g. non-key columns on Cassandra)
+        if (result.error) toast.error('Failed to load rows', { description: result.error });
         return;
       }
 
       setData(result.data);
       setTotalRows(result.total);
+      setTotalIsEstimate(!!result.totalIsEstimate);
+      setCursors(result.cursors);
+      setRequiresFullScan(!!result.requiresFullScan);
       setRowSelection({});
     } catch {
       // fetch error — silently fail, toolbar shows stale state
     } finally {
       setIsLoading(false);
     }
-  }, [activeConnection, tableName, page, pageSize, sortBy, sortOrder, filter]);
+  }, [activeConnection, tableName, page, pageSize, cursor, sort, filters, allowFullScan]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  useEffect(() => {
+    setExactTotal(null);
+  }, [filters]);
+
+  // Runs alongside browsing; the server bounds it with a timeout
+  const handleCountExactly = async () => {
+    if (!activeConnection) return;
+
+    setIsCounting(true);
+    try {
+      const params = new URLSearchParams({
+        connectionId: activeConnection.id,
+        table: tableName,
+      });
+      if (filters) {
+        params.set('filters', JSON.stringify(filters));
+      }
+
+      const response = await fetch(`/api/data/count?${params}`);
+      const result = await response.json();
+
+      if (typeof result.total === 'number') {
+        setExactTotal(result.total);
+      } else {
+        toast.error('Failed to count rows', { description: result.error });
+      }
+    } catch {
+      toast.error('Failed to count rows');
+    } finally {
+      setIsCounting(false);
+    }
+  };
+
   // Build FK lookup from tableSchema
   const fkLookup = useMemo(() => {
     const map: Record<
       string,
       {
         isForeignKey: boolean;
-        foreignKeyRef?: { table: string; column: string };
+        foreignKeyRef?: ForeignKeyRef;
       }
     > = {};
     tableSchema.forEach((col) => {
@@ -153,7 +227,7 @@ function DataTable({
 
   const getPrimaryKey = useCallback(
     (row: RowData): Record<string, unknown> => {
-      if (isRedis) {
+      if (isKeyValue) {
         return { key: row.key };
       }
 
@@ -174,15 +248,17 @@ function DataTable({
       });
       return pk;
     },
-    [tableSchema, isRedis]
+    [tableSchema, isKeyValue]
   );
 
+  // Composite keys filter the target table on every referenced column
   const handleFKClick = useCallback(
-    (foreignKeyRef: { table: string; column: string }, value: unknown) => {
-      addDataTab(foreignKeyRef.table, {
-        column: foreignKeyRef.column,
-        value,
+    (foreignKeyRef: ForeignKeyRef, row: RowData) => {
+      const fkFilter: DataTabFilter = {};
+      foreignKeyRef.columns.forEach((column, i) => {
+        fkFilter[foreignKeyRef.foreignColumns[i]] = row[column];
       });
+      addDataTab(foreignKeyRef.table, fkFilter);
     },
     [addDataTab]
   );
@@ -203,7 +279,7 @@ function DataTable({
       if (result.success) {
         setDeleteDialogOpen(false);
         setRowToDelete(null);
-        toast.success(isRedis ? 'Key deleted' : 'Row deleted');
+        toast.success(isKeyValue ? 'Key deleted' : 'Row deleted');
         fetchData();
       } else {
         toast.error('Failed to delete', { description: result.error });
@@ -251,7 +327,7 @@ function DataTable({
     setRowSelection({});
 
     if (failCount === 0) {
-      toast.success(`${successCount} ${isRedis ? 'key' : 'row'}${successCount > 1 ? 's' : ''} deleted`);
+      toast.success(`${successCount} ${isKeyValue ? 'key' : 'row'}${successCount > 1 ? 's' : ''} deleted`);
     } else {
       toast.error(`Deleted ${successCount}, failed ${failCount}`);
     }
@@ -287,8 +363,21 @@ function DataTable({
     }
   };
 
-  const canEdit = !readOnlyMode && !isRedis;
-  const canDelete = !readOnlyMode;
+  const canEdit = !readOnlyMode && capabilities.supportsUpdate && capabilities.supportsInlineEdit;
+  const canDelete = !readOnlyMode && capabilities.supportsDelete;
+  const canBulkDelete = canDelete && capabilities.supportsBulkWrites;
+
+  // Cursors are tied to the sort and filters they were read with
+  const resetPaging = () => {
+    setPage(1);
+    setCursor(undefined);
+  };
+
+  const handleFiltersChange = (next: FilterCondition[], match: FilterMatch) => {
+    setUserFilters(next);
+    setFilterMatch(match);
+    resetPaging();
+  };
 
   const handleExportCSV = () => {
     if (data.length === 0) return;
@@ -325,8 +414,8 @@ function DataTable({
 
     const cols: ColumnDef<RowData, unknown>[] = [];
 
-    // Checkbox selection column (only when not read-only)
-    if (canDelete) {
+    // Checkbox selection column (only when bulk deletes are possible)
+    if (canBulkDelete) {
       cols.push({
         id: 'select',
         header: ({ table: t }) => (
@@ -353,45 +442,62 @@ function DataTable({
       });
     }
 
-    const dataCols: ColumnDef<RowData, unknown>[] = Object.keys(data[0]).map((key) => ({
-      accessorKey: key,
-      header: () => (
-        <button
-          onClick={() => {
-            if (sortBy === key) {
-              setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
-            } else {
-              setSortBy(key);
-              setSortOrder('asc');
-            }
-          }}
-          className="flex items-center gap-1.5 font-semibold text-sm hover:text-primary transition-colors text-left w-full"
-        >
-          <span className="truncate">{key}</span>
-          {sortBy === key && (
-            <span className="text-primary shrink-0">
-              {sortOrder === 'asc' ? '↑' : '↓'}
-            </span>
-          )}
-        </button>
-      ),
-      size: isRedis
-        ? (key === 'key' ? 280 : key === 'value' ? 450 : key === 'type' ? 100 : key === 'ttl' ? 130 : 120)
-        : 150,
-      minSize: 60,
-      maxSize: isRedis && key === 'value' ? 1000 : 600,
-    }));
+    const dataCols: ColumnDef<RowData, unknown>[] = Object.keys(data[0]).map((key) => {
+      const sortIndex = sort.findIndex((s) => s.column === key);
+      const sortKey = sortIndex === -1 ? undefined : sort[sortIndex];
+
+      return {
+        accessorKey: key,
+        header: () => (
+          <button
+            onClick={(e) => {
+              const flipped = sortKey?.order === 'asc' ? 'desc' : 'asc';
+              if (e.shiftKey) {
+                // Shift-click adds a secondary sort, or flips one already in the list
+                setSort(
+                  sortKey
+                    ? sort.map((s) => (s.column === key ? { ...s, order: flipped } : s))
+                    : [...sort, { column: key, order: 'asc' }]
+                );
+              } else {
+                setSort([{ column: key, order: sortKey && sort.length === 1 ? flipped : 'asc' }]);
+              }
+              resetPaging();
+            }}
+            title="Click to sort, shift-click to add a secondary sort"
+            className="flex items-center gap-1.5 font-semibold text-sm hover:text-primary transition-colors text-left w-full"
+          >
+            <span className="truncate">{key}</span>
+            {sortKey && (
+              <span className="flex items-center gap-0.5 text-primary shrink-0">
+                {sortKey.order === 'asc' ? '↑' : '↓'}
+                {sort.length > 1 && (
+                  <span className="rounded-full bg-primary/15 px-1 text-[10px] leading-4 font-semibold">
+                    {sortIndex + 1}
+                  </span>
+                )}
+              </span>
+            )}
+          </button>
+        ),
+        size: isKeyValue
+          ? (key === 'key' ? 280 : key === 'value' ? 450 : key === 'type' ? 100 : key === 'ttl' ? 130 : 120)
+          : 150,
+        minSize: 60,
+        maxSize: isKeyValue && key === 'value' ? 1000 : 600,
+      };
+    });
 
     cols.push(...dataCols);
     return cols;
-  }, [data, sortBy, sortOrder, isRedis, canDelete]);
+  }, [data, sort, isKeyValue, canBulkDelete]);
 
   const table = useReactTable({
     data,
     columns,
     getCoreRowModel: getCoreRowModel(),
     columnResizeMode,
-    enableRowSelection: canDelete,
+    enableRowSelection: canBulkDelete,
     onRowSelectionChange: setRowSelection,
     onColumnSizingChange: setColumnSizing,
     state: {
@@ -405,16 +511,27 @@ function DataTable({
     <div className="flex flex-col h-full overflow-hidden">
       <DataTableToolbar
         tableName={tableName}
-        totalRows={totalRows}
-        isRedis={isRedis}
+        totalRows={knownTotal}
+        totalIsEstimate={totalIsEstimate && exactTotal === null}
+        isCounting={isCounting}
+        isKeyValue={isKeyValue}
+        canEdit={canEdit}
         isLoading={isLoading}
         readOnlyMode={readOnlyMode}
         filter={filter}
+        columns={tableSchema}
+        userFilters={userFilters}
+        filterMatch={filterMatch}
         selectedCount={selectedRowCount}
-        onRefresh={fetchData}
+        onRefresh={() => {
+          setExactTotal(null);
+          fetchData();
+        }}
         onExportCSV={handleExportCSV}
-        onFlushAll={isRedis ? () => setFlushAllDialogOpen(true) : undefined}
-        onBulkDelete={canDelete && selectedRowCount > 0 ? () => setBulkDeleteDialogOpen(true) : undefined}
+        onFlushAll={capabilities.supportsFlush ? () => setFlushAllDialogOpen(true) : undefined}
+        onBulkDelete={canBulkDelete && selectedRowCount > 0 ? () => setBulkDeleteDialogOpen(true) : undefined}
+        onCountExactly={handleCountExactly}
+        onFiltersChange={handleFiltersChange}
       />
 
       {/* Table */}
@@ -490,6 +607,23 @@ function DataTable({
                   </div>
                 </td>
               </tr>
+            ) : requiresFullScan ? (
+              <tr>
+                <td
+                  colSpan={columns.length + (canEdit || canDelete ? 1 : 0)}
+                  className="h-32 text-center text-muted-foreground"
+                >
+                  <div className="flex flex-col items-center gap-3">
+                    <span>
+                      Browsing without a partition key filter scans every partition of{' '}
+                      <span className="font-mono">{tableName}</span>.
+                    </span>
+                    <Button variant="outline" size="sm" onClick={() => setAllowFullScan(true)}>
+                      Scan anyway
+                    </Button>
+                  </div>
+                </td>
+              </tr>
             ) : table.getRowModel().rows.length === 0 ? (
               <tr>
                 <td
@@ -537,7 +671,7 @@ function DataTable({
                       >
                         {isSelectCol ? (
                           flexRender(cell.column.columnDef.cell, cell.getContext())
-                        ) : isRedis ? (
+                        ) : isKeyValue ? (
                           <RedisCellDisplay
                             columnId={columnId}
                             value={value}
@@ -552,7 +686,7 @@ function DataTable({
                                 ? () =>
                                     handleFKClick(
                                       fkInfo.foreignKeyRef!,
-                                      value
+                                      row.original
                                     )
                                 : undefined
                             }
@@ -609,11 +743,19 @@ function DataTable({
         page={page}
         totalPages={totalPages}
         pageSize={pageSize}
-        isRedis={isRedis}
-        onPageChange={setPage}
+        isKeyValue={isKeyValue}
+        cursors={capabilities.supportsKeysetPagination ? cursors : undefined}
+        onPageChange={(p) => {
+          setCursor(undefined);
+          setPage(p);
+        }}
+        onCursorChange={(next, p) => {
+          setCursor(next);
+          setPage(p);
+        }}
         onPageSizeChange={(size) => {
           setPageSize(size);
-          setPage(1);
+          resetPaging();
         }}
       />
 
@@ -659,9 +801,9 @@ function DataTable({
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>{isRedis ? 'Delete Key' : 'Delete Row'}</DialogTitle>
+            <DialogTitle>{isKeyValue ? 'Delete Key' : 'Delete Row'}</DialogTitle>
             <DialogDescription>
-              {isRedis ? (
+              {isKeyValue ? (
                 <>Are you sure you want to delete the key <strong>{String(rowToDelete?.key ?? '')}</strong>? This action cannot be undone.</>
               ) : (
                 'Are you sure you want to delete this row? This action cannot be undone.'
@@ -715,9 +857,9 @@ function DataTable({
       <Dialog open={bulkDeleteDialogOpen} onOpenChange={setBulkDeleteDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Delete {selectedRowCount} {isRedis ? 'key' : 'row'}{selectedRowCount > 1 ? 's' : ''}</DialogTitle>
+            <DialogTitle>Delete {selectedRowCount} {isKeyValue ? 'key' : 'row'}{selectedRowCount > 1 ? 's' : ''}</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete <strong>{selectedRowCount}</strong> selected {isRedis ? 'key' : 'row'}{selectedRowCount > 1 ? 's' : ''}? This action cannot be undone.
+              Are you sure you want to delete <strong>{selectedRowCount}</strong> selected {isKeyValue ? 'key' : 'row'}{selectedRowCount > 1 ? 's' : ''}? This action cannot be undone.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -733,7 +875,7 @@ function DataTable({
               onClick={handleBulkDelete}
               disabled={isBulkDeleting}
             >
-              {isBulkDeleting ? `Deleting...` : `Delete ${selectedRowCount} ${isRedis ? 'key' : 'row'}${selectedRowCount > 1 ? 's' : ''}`}
+              {isBulkDeleting ? `Deleting...` : `Delete ${selectedRowCount} ${isKeyValue ? 'key' : 'row'}${selectedRowCount > 1 ? 's' : ''}`}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -744,7 +886,6 @@ function DataTable({
 
 // Main DataViewer with tab management
 export function DataViewer() {
-  const activeConnection = useActiveConnection();
   const {
     setSelectedTable,
     dataTabs,
@@ -754,7 +895,7 @@ export function DataViewer() {
     clearAllDataTabs,
   } = useStudioStore();
 
-  const isRedis = activeConnection?.type === 'redis';
+  const isKeyValue = useCapabilities().dataModel === 'key-value';
 
   // Determine what to show: active data tab or selected table
   const activeTab = dataTabs.find((t) => t.id === activeDataTabId);
@@ -793,7 +934,7 @@ export function DataViewer() {
                     <span className="max-w-40 truncate">{tab.tableName}</span>
                     {tab.filter && (
                       <span className="text-xs text-primary bg-primary/10 px-1.5 py-0.5 rounded">
-                        {tab.filter.column}={String(tab.filter.value)}
+                        {describeFilter(tab.filter)}
                       </span>
                     )}
                   </button>
@@ -831,7 +972,7 @@ export function DataViewer() {
             />
           ) : (
             <div className="flex items-center justify-center h-full text-muted-foreground">
-              {isRedis
+              {isKeyValue
                 ? 'Select a key pattern from the sidebar to browse keys'
                 : 'Select a table from the sidebar to view data'}
             </div>
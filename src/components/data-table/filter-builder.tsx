@@ -0,0 +1,465 @@
+'use client';
+
+import { useState } from 'react';
+import { Filter, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import {
+  ColumnInfo,
+  FilterCondition,
+  FilterOperator,
+  FilterValue,
+} from '@/lib/adapters/types';
+
+export type FilterMatch = 'and' | 'or';
+
+type ColumnKind = 'text' | 'number' | 'date' | 'datetime' | 'boolean' | 'enum';
+
+const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  eq: '=',
+  ne: '≠',
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥',
+  in: 'in',
+  nin: 'not in',
+  like: 'like',
+  ilike: 'ilike',
+  contains: 'contains',
+  regex: 'matches',
+  isNull: 'is null',
+  isNotNull: 'is not null',
+  between: 'between',
+};
+
+const OPERATORS_BY_KIND: Record<ColumnKind, FilterOperator[]> = {
+  text: ['eq', 'ne', 'contains', 'like', 'ilike', 'regex', 'in', 'nin', 'isNull', 'isNotNull'],
+  number: ['eq', 'ne', 'lt', 'lte', 'gt', 'gte', 'between', 'in', 'nin', 'isNull', 'isNotNull'],
+  date: ['eq', 'ne', 'lt', 'lte', 'gt', 'gte', 'between', 'isNull', 'isNotNull'],
+  datetime: ['lt', 'lte', 'gt', 'gte', 'between', 'eq', 'ne', 'isNull', 'isNotNull'],
+  boolean: ['eq', 'ne', 'isNull', 'isNotNull'],
+  enum: ['eq', 'ne', 'in', 'nin', 'isNull', 'isNotNull'],
+};
+
+// Whole type names, optionally sized or qualified: `int4`, `UInt64`,
+// `decimal(10,2)`, `bigint unsigned`, `double precision`
+const NUMBER_TYPE =
+  /^(?:u?int\d*|tinyint|smallint|mediumint|bigint|integer|float\d*|double|decimal\d*|numeric|real|number|(?:big|small)?serial\d*|money|counter|varint|long)(?:\(|\s|$)/;
+
+// ClickHouse wrappers that don't change how values compare
+const WRAPPER_TYPE = /^(?:nullable|lowcardinality)\((.*)\)$/;
+
+function getColumnKind(col: ColumnInfo | undefined): ColumnKind {
+  if (!col) return 'text';
+  if (Array.isArray(col.enumValues) && col.enumValues.length > 0) return 'enum';
+  let t = col.type.toLowerCase();
+  // LowCardinality(Nullable(String)) -> string
+  for (let match = WRAPPER_TYPE.exec(t); match; match = WRAPPER_TYPE.exec(t)) t = match[1];
+  if (t === 'boolean' || t === 'bool') return 'boolean';
+  if (NUMBER_TYPE.test(t)) return 'number';
+  if (t === 'date' || t.startsWith('date32')) return 'date';
+  if (t.startsWith('timestamp') || t.startsWith('datetime')) return 'datetime';
+  return 'text';
+}
+
+function isValueless(op: FilterOperator): boolean {
+  return op === 'isNull' || op === 'isNotNull';
+}
+
+function isListOperator(op: FilterOperator): boolean {
+  return op === 'in' || op === 'nin';
+}
+
+function formatFilterValue(value: FilterValue): string {
+  return value === null ? 'null' : String(value);
+}
+
+export function describeCondition(condition: FilterCondition): string {
+  const label = OPERATOR_LABELS[condition.op];
+  switch (condition.op) {
+    case 'isNull':
+    case 'isNotNull':
+      return `${condition.column} ${label}`;
+    case 'in':
+    case 'nin':
+      return `${condition.column} ${label} (${condition.value.map(formatFilterValue).join(', ')})`;
+    case 'between':
+      return `${condition.column} ${label} ${formatFilterValue(condition.value[0])} and ${formatFilterValue(condition.value[1])}`;
+    default:
+      return `${condition.column} ${label} ${formatFilterValue(condition.value)}`;
+  }
+}
+
+// ─── Draft rows ────────────────────────────────────────────────────────────
+
+// Values are kept as input strings while editing and typed on apply
+interface DraftCondition {
+  id: number;
+  column: string;
+  op: FilterOperator;
+  value: string;
+  valueTo: string;
+}
+
+let nextDraftId = 0;
+
+function emptyDraft(column: string): DraftCondition {
+  return { id: nextDraftId++, column, op: 'eq', value: '', valueTo: '' };
+}
+
+function toDraft(condition: FilterCondition): DraftCondition {
+  const draft = emptyDraft(condition.column);
+  draft.op = condition.op;
+  switch (condition.op) {
+    case 'isNull':
+    case 'isNotNull':
+      break;
+    case 'in':
+    case 'nin':
+      draft.value = condition.value.map(formatFilterValue).join(', ');
+      break;
+    case 'between':
+      draft.value = formatFilterValue(condition.value[0]);
+      draft.valueTo = formatFilterValue(condition.value[1]);
+      break;
+    default:
+      draft.value = formatFilterValue(condition.value);
+  }
+  return draft;
+}
+
+function parseValue(raw: string, kind: ColumnKind): FilterValue | undefined {
+  const value = raw.trim();
+  // The boolean switch starts unset, which reads as false
+  if (kind === 'boolean') return value === 'true';
+  if (value === '') return undefined;
+  switch (kind) {
+    case 'number': {
+      const n = Number(value);
+      return Number.isNaN(n) ? undefined : n;
+    }
+    case 'datetime':
+      // datetime-local yields "2024-01-31T09:30"; engines expect a space separator
+      return value.replace('T', ' ');
+    default:
+      return value;
+  }
+}
+
+// Returns undefined for incomplete rows, which are dropped on apply
+function toCondition(draft: DraftCondition, kind: ColumnKind): FilterCondition | undefined {
+  const { column, op } = draft;
+  if (!column) return undefined;
+
+  switch (op) {
+    case 'isNull':
+    case 'isNotNull':
+      return { column, op };
+    case 'in':
+    case 'nin': {
+      const values = draft.value
+        .split(',')
+        .map((part) => parseValue(part, kind))
+        .filter((v): v is FilterValue => v !== undefined);
+      return values.length > 0 ? { column, op, value: values } : undefined;
+    }
+    case 'between': {
+      const from = parseValue(draft.value, kind);
+      const to = parseValue(draft.valueTo, kind);
+      return from !== undefined && to !== undefined ? { column, op, value: [from, to] } : undefined;
+    }
+    case 'like':
+    case 'ilike':
+    case 'contains':
+    case 'regex': {
+      const value = draft.value.trim();
+      return value ? { column, op, value } : undefined;
+    }
+    default: {
+      const value = parseValue(draft.value, kind);
+      return value !== undefined ? { column, op, value } : undefined;
+    }
+  }
+}
+
+// ─── Value input ───────────────────────────────────────────────────────────
+
+function ValueInput({
+  column,
+  kind,
+  value,
+  onChange,
+  placeholder,
+}: {
+  column: ColumnInfo | undefined;
+  kind: ColumnKind;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}) {
+  if (kind === 'enum') {
+    return (
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger size="sm" className="h-8 w-full text-xs">
+          <SelectValue placeholder="Select value" />
+        </SelectTrigger>
+        <SelectContent>
+          {column!.enumValues!.map((ev) => (
+            <SelectItem key={ev} value={ev} className="text-xs">
+              {ev}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (kind === 'boolean') {
+    return (
+      <div className="flex items-center gap-2 h-8">
+        <Switch
+          checked={value === 'true'}
+          onCheckedChange={(checked) => onChange(String(checked))}
+        />
+        <span className="text-xs text-muted-foreground font-mono">
+          {value === 'true' ? 'true' : 'false'}
+        </span>
+      </div>
+    );
+  }
+
+  const inputType =
+    kind === 'number' ? 'number' : kind === 'date' ? 'date' : kind === 'datetime' ? 'datetime-local' : 'text';
+
+  return (
+    <Input
+      type={inputType}
+      value={kind === 'datetime' ? value.replace(' ', 'T') : value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder ?? 'Value'}
+      className="h-8 text-xs"
+    />
+  );
+}
+
+// ─── Filter Builder Popover ────────────────────────────────────────────────
+
+interface FilterBuilderProps {
+  columns: ColumnInfo[];
+  filters: FilterCondition[];
+  match: FilterMatch;
+  onApply: (filters: FilterCondition[], match: FilterMatch) => void;
+  // Off where the server can't run user patterns safely (Redis key names)
+  allowRegex?: boolean;
+}
+
+export function FilterBuilder({ columns, filters, match, onApply, allowRegex = true }: FilterBuilderProps) {
+  const [open, setOpen] = useState(false);
+  const [drafts, setDrafts] = useState<DraftCondition[]>([]);
+  const [draftMatch, setDraftMatch] = useState<FilterMatch>(match);
+
+  const columnByName = new Map(columns.map((col) => [col.name, col]));
+  const kindOf = (draft: DraftCondition) => getColumnKind(columnByName.get(draft.column));
+  const operatorsOf = (kind: ColumnKind) =>
+    allowRegex ? OPERATORS_BY_KIND[kind] : OPERATORS_BY_KIND[kind].filter((op) => op !== 'regex');
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      // Start from the applied filters each time the popover opens
+      setDrafts(
+        filters.length > 0
+          ? filters.map(toDraft)
+          : [emptyDraft(columns[0]?.name ?? '')]
+      );
+      setDraftMatch(match);
+    }
+    setOpen(nextOpen);
+  };
+
+  const updateDraft = (id: number, patch: Partial<DraftCondition>) => {
+    setDrafts((prev) => prev.map((d) => (d.id === id ? { ...d, ...patch } : d)));
+  };
+
+  const handleColumnChange = (draft: DraftCondition, column: string) => {
+    const kind = getColumnKind(columnByName.get(column));
+    const operators = operatorsOf(kind);
+    const op = operators.includes(draft.op) ? draft.op : operators[0];
+    updateDraft(draft.id, {
+      column,
+      op,
+      value: kind === 'boolean' ? 'true' : '',
+      valueTo: '',
+    });
+  };
+
+  const handleOperatorChange = (draft: DraftCondition, op: FilterOperator) => {
+    const listChanged = isListOperator(op) !== isListOperator(draft.op);
+    updateDraft(draft.id, {
+      op,
+      value: listChanged ? '' : draft.value,
+      valueTo: op === 'between' ? draft.valueTo : '',
+    });
+  };
+
+  const handleApply = () => {
+    const conditions = drafts
+      .map((draft) => toCondition(draft, kindOf(draft)))
+      .filter((c): c is FilterCondition => c !== undefined);
+    onApply(conditions, draftMatch);
+    setOpen(false);
+  };
+
+  const handleClear = () => {
+    onApply([], draftMatch);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn('h-8', filters.length > 0 && 'border-primary/40 text-primary')}
+          disabled={columns.length === 0}
+        >
+          <Filter className="h-3.5 w-3.5 mr-1.5" />
+          Filter
+          {filters.length > 0 && (
+            <span className="ml-1.5 rounded-full bg-primary/10 px-1.5 text-[10px] font-semibold">
+              {filters.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[560px] p-3">
+        <div className="flex items-center gap-2 mb-3 text-xs text-muted-foreground">
+          <span>Match</span>
+          <Select value={draftMatch} onValueChange={(v) => setDraftMatch(v as FilterMatch)}>
+            <SelectTrigger size="sm" className="h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="and" className="text-xs">all</SelectItem>
+              <SelectItem value="or" className="text-xs">any</SelectItem>
+            </SelectContent>
+          </Select>
+          <span>of the following conditions</span>
+        </div>
+
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {drafts.map((draft) => {
+            const column = columnByName.get(draft.column);
+            const kind = kindOf(draft);
+            return (
+              <div key={draft.id} className="flex items-center gap-2">
+                <Select value={draft.column} onValueChange={(v) => handleColumnChange(draft, v)}>
+                  <SelectTrigger size="sm" className="h-8 w-40 shrink-0 text-xs font-mono">
+                    <SelectValue placeholder="Column" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {columns.map((col) => (
+                      <SelectItem key={col.name} value={col.name} className="text-xs font-mono">
+                        {col.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select
+                  value={draft.op}
+                  onValueChange={(v) => handleOperatorChange(draft, v as FilterOperator)}
+                >
+                  <SelectTrigger size="sm" className="h-8 w-28 shrink-0 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {operatorsOf(kind).map((op) => (
+                      <SelectItem key={op} value={op} className="text-xs">
+                        {OPERATOR_LABELS[op]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <div className="flex flex-1 items-center gap-1.5 min-w-0">
+                  {isValueless(draft.op) ? null : isListOperator(draft.op) ? (
+                    <Input
+                      value={draft.value}
+                      onChange={(e) => updateDraft(draft.id, { value: e.target.value })}
+                      placeholder="Comma-separated values"
+                      className="h-8 text-xs"
+                    />
+                  ) : (
+                    <>
+                      <ValueInput
+                        column={column}
+                        kind={kind}
+                        value={draft.value}
+                        onChange={(value) => updateDraft(draft.id, { value })}
+                        placeholder={draft.op === 'between' ? 'From' : undefined}
+                      />
+                      {draft.op === 'between' && (
+                        <ValueInput
+                          column={column}
+                          kind={kind}
+                          value={draft.valueTo}
+                          onChange={(valueTo) => updateDraft(draft.id, { valueTo })}
+                          placeholder="To"
+                        />
+                      )}
+                    </>
+                  )}
+                </div>
+
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => setDrafts((prev) => prev.filter((d) => d.id !== draft.id))}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between mt-3 pt-3 border-t">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() => setDrafts((prev) => [...prev, emptyDraft(columns[0]?.name ?? '')])}
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add condition
+          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleClear}>
+              Clear
+            </Button>
+            <Button size="sm" className="h-8 text-xs" onClick={handleApply}>
+              Apply
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -2,24 +2,77 @@
 
 import { useRef, useEffect, useState, useCallback } from 'react';
 import { Loader2, AlertCircle, RefreshCw } from 'lucide-react';
+import type { EditorSchema } from '@/hooks/use-editor-schema';
+import { registerSchemaProviders } from './schema-completion';
 
 // Import Monaco CSS
 import 'monaco-editor/min/vs/editor/editor.main.css';
 
+// Character offsets into the editor value
+export interface EditorRange {
+  start: number;
+  end: number;
+}
+
+export interface EditorMarker {
+  offset: number;
+  message: string;
+}
+
+// What to run: the selection if any, else whatever the cursor is in
+export interface ExecuteRequest {
+  selection: EditorRange | null;
+  cursor: number;
+  // Ctrl/Cmd+Shift+Enter: ignore selection and cursor, run the whole buffer
+  runAll: boolean;
+  // Ctrl/Cmd+Shift+E: show the plan instead of running
+  explain: boolean;
+}
+
 interface MonacoEditorProps {
   value: string;
   onChange: (value: string | undefined) => void;
   language: string;
+  onExecute?: (request: ExecuteRequest) => void;
+  // Text of the last run, highlighted
+  highlight?: EditorRange | null;
+  // Errors of the last run
+  markers?: EditorMarker[];
+  // Tables and columns for completion and hover cards
+  schema?: EditorSchema | null;
 }
 
+// Owner of the editor's error markers
+const MARKER_OWNER = 'query';
+
 // Simple Monaco editor without workers (works reliably with any bundler)
-export function MonacoEditor({ value, onChange, language }: MonacoEditorProps) {
+export function MonacoEditor({
+  value,
+  onChange,
+  language,
+  onExecute,
+  highlight,
+  markers,
+  schema,
+}: MonacoEditorProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const editorRef = useRef<unknown>(null);
+  const decorationsRef = useRef<unknown>(null);
+  // The editor's actions outlive renders; always call the latest handler
+  const onExecuteRef = useRef(onExecute);
+  const schemaRef = useRef(schema);
   const [isLoading, setIsLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
   const [monaco, setMonaco] = useState<typeof import('monaco-editor') | null>(null);
 
+  useEffect(() => {
+    onExecuteRef.current = onExecute;
+  }, [onExecute]);
+
+  useEffect(() => {
+    schemaRef.current = schema;
+  }, [schema]);
+
   // Load Monaco
   useEffect(() => {
     let cancelled = false;
@@ -47,6 +100,13 @@ export function MonacoEditor({ value, onChange, language }: MonacoEditorProps) {
     };
   }, []);
 
+  // Completion and hover providers are global to Monaco; register them once
+  useEffect(() => {
+    if (!monaco) return;
+    const providers = registerSchemaProviders(monaco, () => schemaRef.current ?? null);
+    return () => providers.dispose();
+  }, [monaco]);
+
   // Create editor when Monaco is loaded and container is ready
   useEffect(() => {
     if (!monaco || !containerRef.current || editorRef.current) return;
@@ -68,11 +128,53 @@ export function MonacoEditor({ value, onChange, language }: MonacoEditorProps) {
       onChange(editor.getValue());
     });
 
+    const execute = (runAll: boolean, explain = false) => {
+      const model = editor.getModel();
+      const selection = editor.getSelection();
+      if (!model || !selection) return;
+
+      onExecuteRef.current?.({
+        selection: selection.isEmpty()
+          ? null
+          : {
+              start: model.getOffsetAt(selection.getStartPosition()),
+              end: model.getOffsetAt(selection.getEndPosition()),
+            },
+        cursor: model.getOffsetAt(selection.getPosition()),
+        runAll,
+        explain,
+      });
+    };
+
+    editor.addAction({
+      id: 'query.run',
+      label: 'Run Selection or Current Statement',
+      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter],
+      contextMenuGroupId: 'navigation',
+      run: () => execute(false),
+    });
+    editor.addAction({
+      id: 'query.runAll',
+      label: 'Run All',
+      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.Enter],
+      contextMenuGroupId: 'navigation',
+      run: () => execute(true),
+    });
+    editor.addAction({
+      id: 'query.explain',
+      label: 'Explain Selection or Current Statement',
+      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.KeyE],
+      contextMenuGroupId: 'navigation',
+      run: () => execute(false, true),
+    });
+
     editorRef.current = editor;
+    decorationsRef.current = editor.createDecorationsCollection();
 
     return () => {
       editor.dispose();
       editorRef.current = null;
+      decorationsRef.current = null;
     };
   }, [monaco, language]); // eslint-disable-line react-hooks/exhaustive-deps
 
@@ -95,6 +197,53 @@ export function MonacoEditor({ value, onChange, language }: MonacoEditorProps) {
     }
   }, [language, monaco]);
 
+  // Highlight the last run
+  useEffect(() => {
+    if (!editorRef.current || !monaco) return;
+    const editor = editorRef.current as ReturnType<typeof monaco.editor.create>;
+    const decorations = decorationsRef.current as ReturnType<typeof editor.createDecorationsCollection>;
+    const model = editor.getModel();
+    if (!model) return;
+
+    if (!highlight) {
+      decorations.clear();
+      return;
+    }
+    const start = model.getPositionAt(highlight.start);
+    const end = model.getPositionAt(highlight.end);
+    decorations.set([
+      {
+        range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+        options: { className: 'query-executed-range' },
+      },
+    ]);
+  }, [highlight, monaco, language]);
+
+  // Show errors of the last run; each marker covers the word it points at
+  useEffect(() => {
+    if (!editorRef.current || !monaco) return;
+    const editor = editorRef.current as ReturnType<typeof monaco.editor.create>;
+    const model = editor.getModel();
+    if (!model) return;
+
+    monaco.editor.setModelMarkers(
+      model,
+      MARKER_OWNER,
+      (markers ?? []).map((marker) => {
+        const position = model.getPositionAt(marker.offset);
+        const word = model.getWordAtPosition(position);
+        return {
+          severity: monaco.MarkerSeverity.Error,
+          message: marker.message,
+          startLineNumber: position.lineNumber,
+          startColumn: word?.startColumn ?? position.column,
+          endLineNumber: position.lineNumber,
+          endColumn: word?.endColumn ?? position.column + 1,
+        };
+      })
+    );
+  }, [markers, monaco, language]);
+
   const handleRetry = useCallback(() => {
     window.location.reload();
   }, []);
@@ -0,0 +1,133 @@
+'use client';
+
+import { Variable } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { QueryParam, QueryParams } from '@/lib/adapters/types';
+import type { ParameterInput } from '@/lib/stores/studio';
+
+const TYPE_LABELS: Record<QueryParam['type'], string> = {
+  text: 'Text',
+  number: 'Number',
+  boolean: 'Boolean',
+  date: 'Date',
+  null: 'NULL',
+};
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const DEFAULT_INPUT: ParameterInput = { type: 'text', value: '' };
+
+function toQueryParam(name: string, input: ParameterInput): QueryParam {
+  switch (input.type) {
+    case 'text':
+      return { type: 'text', value: input.value };
+    case 'number': {
+      const value = Number(input.value);
+      if (!input.value.trim() || !Number.isFinite(value)) {
+        throw new Error(`Parameter "${name}" needs a number`);
+      }
+      return { type: 'number', value };
+    }
+    case 'boolean':
+      return { type: 'boolean', value: input.value === 'true' };
+    case 'date':
+      if (!DATE.test(input.value)) throw new Error(`Parameter "${name}" needs a date`);
+      return { type: 'date', value: input.value };
+    case 'null':
+      return { type: 'null', value: null };
+  }
+}
+
+/**
+ * Typed values for the given placeholders. Throws when a value is missing or
+ * doesn't parse as its type, naming the parameter.
+ */
+export function buildQueryParams(names: string[], inputs: Record<string, ParameterInput> = {}): QueryParams {
+  const missing = names.filter((name) => !inputs[name]);
+  if (missing.length > 0) {
+    throw new Error(`Enter a value for ${missing.map((name) => `"${name}"`).join(', ')}`);
+  }
+  return Object.fromEntries(names.map((name) => [name, toQueryParam(name, inputs[name])]));
+}
+
+interface ParameterPanelProps {
+  names: string[];
+  inputs?: Record<string, ParameterInput>;
+  onChange: (name: string, input: ParameterInput) => void;
+}
+
+/**
+ * Side panel prompting for the values of a query's placeholders.
+ */
+export function ParameterPanel({ names, inputs = {}, onChange }: ParameterPanelProps) {
+  return (
+    <div className="w-64 border-l flex flex-col">
+      <div className="flex items-center gap-1.5 px-3 py-2 border-b text-xs font-medium text-muted-foreground">
+        <Variable className="h-3.5 w-3.5" />
+        Parameters
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="flex flex-col gap-3 p-3">
+          {names.map((name) => {
+            const input = inputs[name] ?? DEFAULT_INPUT;
+            return (
+              <div key={name} className="flex flex-col gap-1">
+                <span className="font-mono text-xs">{name}</span>
+                <div className="flex gap-1">
+                  <Select
+                    value={input.type}
+                    onValueChange={(type) =>
+                      onChange(name, {
+                        type: type as QueryParam['type'],
+                        value: type === 'boolean' ? 'true' : type === input.type ? input.value : '',
+                      })
+                    }
+                  >
+                    <SelectTrigger className="h-8 w-[92px] text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                        <SelectItem key={type} value={type}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {input.type === 'boolean' ? (
+                    <Select value={input.value} onValueChange={(value) => onChange(name, { ...input, value })}>
+                      <SelectTrigger className="h-8 flex-1 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="true">true</SelectItem>
+                        <SelectItem value="false">false</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      type={input.type === 'date' ? 'date' : input.type === 'number' ? 'number' : 'text'}
+                      value={input.type === 'null' ? '' : input.value}
+                      placeholder={input.type === 'null' ? 'NULL' : 'Value'}
+                      disabled={input.type === 'null'}
+                      onChange={(e) => onChange(name, { ...input, value: e.target.value })}
+                      className="h-8 flex-1 text-xs"
+                    />
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Clock, Gauge, TriangleAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import { PlanNode, QueryPlan } from '@/lib/adapters/types';
+
+// Full scans of smaller relations aren't worth a warning
+const FULL_SCAN_WARN_ROWS = 1000;
+
+// Share of the run spent in a node itself that marks it as a hot spot
+const HOT_SHARE = 0.5;
+const WARM_SHARE = 0.2;
+
+// Estimates this many times off the actual row count are flagged
+const MISESTIMATE_FACTOR = 10;
+
+interface FlatNode {
+  node: PlanNode;
+  // Dotted child indexes from the root, e.g. "0.1.0"
+  path: string;
+  depth: number;
+  // Time in this node minus its children (analyzed plans only)
+  selfTimeMs?: number;
+  warning?: string;
+}
+
+function selfTime(node: PlanNode): number | undefined {
+  if (node.totalTimeMs === undefined) return undefined;
+  const children = node.children.reduce((sum, child) => sum + (child.totalTimeMs ?? 0), 0);
+  return Math.max(0, node.totalTimeMs - children);
+}
+
+function fullScanWarning(node: PlanNode): string | undefined {
+  if (!node.fullScan) return undefined;
+  const rows = node.actualRows ?? node.estimatedRows;
+  if (rows !== undefined && rows < FULL_SCAN_WARN_ROWS) return undefined;
+
+  const target = node.relation ? ` of ${node.relation}` : '';
+  const size = rows !== undefined ? ` (${formatNumber(rows)} rows)` : '';
+  return `Full scan${target}${size}. An index on the filtered or joined columns may avoid it.`;
+}
+
+// Nodes in display order, skipping the children of collapsed nodes
+function flatten(root: PlanNode, collapsed: Set<string>): FlatNode[] {
+  const nodes: FlatNode[] = [];
+  const visit = (node: PlanNode, path: string, depth: number) => {
+    nodes.push({ node, path, depth, selfTimeMs: selfTime(node), warning: fullScanWarning(node) });
+    if (collapsed.has(path)) return;
+    node.children.forEach((child, index) => visit(child, `${path}.${index}`, depth + 1));
+  };
+  visit(root, '0', 0);
+  return nodes;
+}
+
+function findNode(root: PlanNode, path: string): PlanNode | undefined {
+  let node: PlanNode | undefined = root;
+  for (const index of path.split('.').slice(1)) {
+    node = node?.children[Number(index)];
+  }
+  return node;
+}
+
+function countWarnings(node: PlanNode): number {
+  return (fullScanWarning(node) ? 1 : 0) + node.children.reduce((sum, child) => sum + countWarnings(child), 0);
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function formatMs(value: number): string {
+  return value < 1 ? `${value.toFixed(3)}ms` : `${formatNumber(value)}ms`;
+}
+
+function isMisestimate(node: PlanNode): boolean {
+  if (node.actualRows === undefined || node.estimatedRows === undefined) return false;
+  const [low, high] = [node.actualRows, node.estimatedRows].sort((a, b) => a - b);
+  return high >= MISESTIMATE_FACTOR * Math.max(low, 1);
+}
+
+function formatProperty(value: unknown): string {
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+interface PlanViewerProps {
+  plan: QueryPlan;
+  // Explain the statement again with ANALYZE; omitted when not possible
+  onAnalyze?: () => void;
+}
+
+/**
+ * A query plan as a collapsible tree: cost, estimated and actual rows,
+ * time hot spots and full-scan warnings, with a pane for the selected node's
+ * attributes and the engine's raw output one tab away.
+ */
+export function PlanViewer({ plan, onAnalyze }: PlanViewerProps) {
+  const [view, setView] = useState<string>('tree');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selectedPath, setSelectedPath] = useState('0');
+  const [shownPlan, setShownPlan] = useState(plan);
+
+  // A new plan starts expanded with its root selected
+  if (shownPlan !== plan) {
+    setShownPlan(plan);
+    setCollapsed(new Set());
+    setSelectedPath('0');
+  }
+
+  const nodes = useMemo(() => flatten(plan.root, collapsed), [plan, collapsed]);
+  const warnings = useMemo(() => countWarnings(plan.root), [plan]);
+  const selected = findNode(plan.root, selectedPath) ?? plan.root;
+  const totalTimeMs = plan.root.totalTimeMs ?? plan.executionTimeMs;
+  const output = plan.outputs.find((item) => item.label === view);
+
+  const toggle = (path: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      {/* Plan Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b bg-muted/50">
+        <div className="flex items-center gap-3">
+          <Badge variant={plan.analyzed ? 'default' : 'secondary'}>
+            {plan.analyzed ? 'Analyzed' : 'Estimated plan'}
+          </Badge>
+          {plan.planningTimeMs !== undefined && (
+            <span className="text-xs text-muted-foreground">Planning {formatMs(plan.planningTimeMs)}</span>
+          )}
+          {plan.executionTimeMs !== undefined && (
+            <span className="text-xs text-muted-foreground flex items-center gap-1">
+              <Clock className="h-3 w-3" />
+              {formatMs(plan.executionTimeMs)}
+            </span>
+          )}
+          {warnings > 0 && (
+            <span className="text-xs text-amber-600 dark:text-amber-400 flex items-center gap-1">
+              <TriangleAlert className="h-3 w-3" />
+              {warnings} warning{warnings !== 1 ? 's' : ''}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {['tree', ...plan.outputs.map((item) => item.label)].map((label) => (
+            <Button
+              key={label}
+              variant={view === label ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setView(label)}
+            >
+              {label === 'tree' ? 'Tree' : label}
+            </Button>
+          ))}
+          {!plan.analyzed && onAnalyze && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs ml-1"
+              onClick={onAnalyze}
+              title="Run the statement to measure actual rows and timings"
+            >
+              <Gauge className="h-3 w-3 mr-1" />
+              Analyze
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {output ? (
+        <ScrollArea className="flex-1 min-h-0">
+          <pre className="p-3 text-xs font-mono whitespace-pre">{output.text}</pre>
+          <ScrollBar orientation="horizontal" />
+        </ScrollArea>
+      ) : (
+        <div className="flex flex-1 min-h-0">
+          {/* Plan Tree */}
+          <ScrollArea className="flex-1 min-w-0">
+            <div className="py-1 text-sm">
+              {nodes.map(({ node, path, depth, selfTimeMs, warning }) => {
+                const share = selfTimeMs !== undefined && totalTimeMs ? selfTimeMs / totalTimeMs : 0;
+                return (
+                  <div
+                    key={path}
+                    onClick={() => setSelectedPath(path)}
+                    className={cn(
+                      'flex items-center gap-2 pr-3 py-1 cursor-pointer hover:bg-muted/50',
+                      share >= HOT_SHARE && 'bg-red-500/10',
+                      share >= WARM_SHARE && share < HOT_SHARE && 'bg-amber-500/10',
+                      path === selectedPath && 'bg-muted'
+                    )}
+                    style={{ paddingLeft: 8 + depth * 16 }}
+                  >
+                    {node.children.length > 0 ? (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          toggle(path);
+                        }}
+                        className="p-0.5 hover:bg-muted rounded"
+                      >
+                        {collapsed.has(path) ? (
+                          <ChevronRight className="h-3 w-3" />
+                        ) : (
+                          <ChevronDown className="h-3 w-3" />
+                        )}
+                      </button>
+                    ) : (
+                      <span className="w-4" />
+                    )}
+                    <div className="flex items-center gap-1.5 min-w-0 flex-1">
+                      <span className="font-medium whitespace-nowrap">{node.operation}</span>
+                      {node.relation && (
+                        <span className="font-mono text-xs text-muted-foreground whitespace-nowrap">{node.relation}</span>
+                      )}
+                      {warning && (
+                        <span title={warning} className="text-amber-600 dark:text-amber-400">
+                          <TriangleAlert className="h-3.5 w-3.5" />
+                        </span>
+                      )}
+                      {node.detail && (
+                        <span className="text-xs text-muted-foreground truncate" title={node.detail}>
+                          {node.detail}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground whitespace-nowrap">
+                      {node.cost !== undefined && <span title="Planner cost">cost {formatNumber(node.cost)}</span>}
+                      {(node.estimatedRows !== undefined || node.actualRows !== undefined) && (
+                        <span
+                          title="Estimated → actual rows"
+                          className={cn(isMisestimate(node) && 'text-amber-600 dark:text-amber-400')}
+                        >
+                          {node.estimatedRows !== undefined ? formatNumber(node.estimatedRows) : '?'}
+                          {node.actualRows !== undefined && ` → ${formatNumber(node.actualRows)}`} rows
+                        </span>
+                      )}
+                      {selfTimeMs !== undefined && (
+                        <span className="flex items-center gap-1.5" title="Time in this node, excluding its children">
+                          <span className="w-12 h-1.5 rounded bg-muted overflow-hidden">
+                            <span
+                              className={cn(
+                                'block h-full',
+                                share >= HOT_SHARE ? 'bg-red-500' : share >= WARM_SHARE ? 'bg-amber-500' : 'bg-primary/60'
+                              )}
+                              style={{ width: `${Math.min(share, 1) * 100}%` }}
+                            />
+                          </span>
+                          {formatMs(selfTimeMs)}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <ScrollBar orientation="horizontal" />
+          </ScrollArea>
+
+          {/* Node Details */}
+          <ScrollArea className="w-72 border-l">
+            <div className="p-3 flex flex-col gap-2 text-xs">
+              <span className="font-medium text-sm">{selected.operation}</span>
+              {fullScanWarning(selected) && (
+                <div className="flex gap-1.5 text-amber-600 dark:text-amber-400">
+                  <TriangleAlert className="h-3.5 w-3.5 shrink-0" />
+                  {fullScanWarning(selected)}
+                </div>
+              )}
+              {Object.entries(selected.properties).map(([key, value]) => (
+                <div key={key} className="flex flex-col">
+                  <span className="text-muted-foreground">{key}</span>
+                  <span className="font-mono whitespace-pre-wrap break-all">{formatProperty(value)}</span>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+      )}
+    </div>
+  );
+}
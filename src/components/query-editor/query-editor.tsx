@@ -1,8 +1,22 @@
 'use client';
 
-import { useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
 import dynamic from 'next/dynamic';
-import { Play, Plus, X, Clock, Download, Loader2 } from 'lucide-react';
+import {
+  Play,
+  Plus,
+  X,
+  Clock,
+  Download,
+  Loader2,
+  Square,
+  ChevronsDown,
+  CircleCheck,
+  CircleX,
+  CircleMinus,
+  ListTree,
+} from 'lucide-react';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
@@ -15,8 +29,94 @@ import {
 } from '@/components/ui/table';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useStudioStore } from '@/lib/stores/studio';
 import { useActiveConnection, useReadOnlyMode } from '@/lib/stores/connection';
+import {
+  getEngine,
+  isDatabaseType,
+  parameterNames,
+  queryParameterNames,
+  splitScript,
+  type ScriptStatement,
+} from '@/lib/engines';
+import { useCapabilities } from '@/hooks/use-capabilities';
+import { useEditorSchema } from '@/hooks/use-editor-schema';
+import {
+  ErrorPosition,
+  QueryParams,
+  QueryPlan,
+  QueryResult,
+  QueryStreamEvent,
+  ScriptStreamEvent,
+  StatementResult,
+} from '@/lib/adapters/types';
+import type { EditorMarker, EditorRange, ExecuteRequest } from './monaco-editor';
+import { ParameterPanel, buildQueryParams } from './parameter-panel';
+import { PlanViewer } from './plan-viewer';
+
+// Row caps offered for a run; "Fetch more" loads the next batch of the same size
+const ROW_LIMITS = [100, 500, 1000, 5000, 10000];
+
+/**
+ * Read an NDJSON query response, calling `onEvent` per line as it arrives.
+ * Requests rejected before the stream starts come back as a plain JSON error.
+ */
+async function readQueryStream<E extends QueryStreamEvent | ScriptStreamEvent>(
+  response: Response,
+  onEvent: (event: E) => void
+): Promise<void> {
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => ({}));
+    onEvent({ type: 'error', error: body.error || 'Failed to execute query' } as E);
+    return;
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line));
+    }
+  }
+}
+
+/**
+ * The statement the cursor is in. Between statements, that's the one
+ * before the cursor (the one just typed); before the first, the first.
+ */
+function statementAt(statements: ScriptStatement[], cursor: number): ScriptStatement | undefined {
+  return statements.findLast((statement) => statement.start <= cursor) ?? statements[0];
+}
+
+/**
+ * Offset of an error position in the text it refers to. Errors the database
+ * didn't locate point at the start of the text.
+ */
+function errorOffset(text: string, position: ErrorPosition | undefined): number {
+  if (!position) return text.length - text.trimStart().length;
+
+  let offset = 0;
+  for (let line = 1; line < position.line; line++) {
+    const newline = text.indexOf('\n', offset);
+    if (newline === -1) break;
+    offset = newline + 1;
+  }
+  return Math.min(offset + position.column - 1, text.length);
+}
 
 // Dynamically import Monaco editor to avoid SSR issues
 const MonacoEditor = dynamic(
@@ -35,6 +135,8 @@ const MonacoEditor = dynamic(
 export function QueryEditor() {
   const activeConnection = useActiveConnection();
   const readOnlyMode = useReadOnlyMode();
+  const capabilities = useCapabilities();
+  const editorSchema = useEditorSchema();
   const {
     queryTabs,
     activeQueryTabId,
@@ -42,15 +144,207 @@ export function QueryEditor() {
     removeQueryTab,
     setActiveQueryTab,
     updateQueryTab,
+    appendQueryRows,
+    queryRowLimit,
+    setQueryRowLimit,
+    setStatementResult,
+    stopOnError,
+    setStopOnError,
+    setParameterInput,
     addToHistory,
   } = useStudioStore();
 
   const activeTab = queryTabs.find((tab) => tab.id === activeQueryTabId);
+  // A script shows the result of its selected statement
+  const result: StatementResult | null | undefined = activeTab?.statements
+    ? activeTab.statementResults?.[activeTab.activeStatement ?? 0]
+    : activeTab?.result;
+
+  const getLanguage = () =>
+    activeConnection && isDatabaseType(activeConnection.type)
+      ? getEngine(activeConnection.type).editorLanguage
+      : 'sql';
+
+  // Placeholders of a query, found with the engine's quoting rules
+  const language = getLanguage();
+  const connectionType = activeConnection && isDatabaseType(activeConnection.type) ? activeConnection.type : null;
+  const placeholdersOf = useCallback(
+    (text: string) => (connectionType ? queryParameterNames(connectionType, text) : parameterNames(text, language)),
+    [connectionType, language]
+  );
+
+  // Placeholders of the whole query, prompted for in the side panel
+  const parameters = useMemo(() => placeholdersOf(activeTab?.query ?? ''), [activeTab?.query, placeholdersOf]);
+
+  /**
+   * Apply one line of a streamed response to a tab. `base` is the tab's
+   * result as it was before this request (null for a fresh run).
+   */
+  const applyStreamEvent = useCallback(
+    (tabId: string, event: QueryStreamEvent, base: QueryResult | null) => {
+      const current = useStudioStore.getState().queryTabs.find((tab) => tab.id === tabId);
+      const result = current?.result ?? { rows: [], columns: [], rowCount: 0, executionTimeMs: 0 };
+
+      switch (event.type) {
+        case 'start':
+          updateQueryTab(tabId, { queryId: event.queryId, result });
+          break;
+        case 'rows':
+          appendQueryRows(tabId, event.columns, event.rows);
+          break;
+        case 'done':
+          updateQueryTab(tabId, {
+            result: {
+              ...result,
+              // Also counts rows affected by writes, which aren't in `rows`
+              rowCount: (base?.rowCount ?? 0) + event.rowCount,
+              executionTimeMs: (base?.executionTimeMs ?? 0) + event.executionTimeMs,
+            },
+            hasMore: event.hasMore,
+            queryId: event.hasMore ? current?.queryId : undefined,
+            isExecuting: false,
+            isFetchingMore: false,
+          });
+          break;
+        case 'error':
+          updateQueryTab(tabId, {
+            result: { ...result, error: event.error, errorPosition: event.position },
+            hasMore: false,
+            queryId: undefined,
+            isExecuting: false,
+            isFetchingMore: false,
+          });
+          break;
+      }
+    },
+    [updateQueryTab, appendQueryRows]
+  );
+
+  const applyScriptEvent = useCallback(
+    (tabId: string, event: ScriptStreamEvent) => {
+      switch (event.type) {
+        case 'start':
+          updateQueryTab(tabId, { queryId: event.queryId, statements: event.statements });
+          break;
+        case 'statement':
+          setStatementResult(tabId, event.index, event.result);
+          break;
+        case 'done':
+          updateQueryTab(tabId, { queryId: undefined, isExecuting: false });
+          if (event.failed > 0) {
+            toast.error(
+              `${event.failed} statement${event.failed !== 1 ? 's' : ''} failed` +
+                (event.skipped > 0 ? `, ${event.skipped} not run` : '')
+            );
+          }
+          break;
+        case 'error':
+          // Rejected before any statement ran (e.g. a write in read-only mode)
+          updateQueryTab(tabId, {
+            queryId: undefined,
+            isExecuting: false,
+            statements: undefined,
+            statementResults: undefined,
+            result: { rows: [], columns: [], rowCount: 0, executionTimeMs: 0, error: event.error },
+          });
+          break;
+      }
+    },
+    [updateQueryTab, setStatementResult]
+  );
+
+  const executeScript = useCallback(
+    async (tabId: string, script: string, queryId: string, params?: QueryParams) => {
+      if (!activeConnection) return;
+
+      try {
+        const response = await fetch('/api/query/script', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            connectionId: activeConnection.id,
+            script,
+            queryId,
+            timeoutMs: activeConnection.statementTimeoutMs,
+            maxRows: queryRowLimit,
+            stopOnError,
+            params,
+          }),
+        });
 
-  const executeQuery = useCallback(async () => {
-    if (!activeConnection || !activeTab || !activeTab.query.trim()) return;
+        await readQueryStream<ScriptStreamEvent>(response, (event) => applyScriptEvent(tabId, event));
+      } catch {
+        applyScriptEvent(tabId, { type: 'error', error: 'Failed to execute script' });
+      }
+    },
+    [activeConnection, queryRowLimit, stopOnError, applyScriptEvent]
+  );
+
+  /**
+   * Values for the placeholders in `text`, or null (after a toast) when
+   * some are missing or invalid.
+   */
+  const paramsFor = useCallback(
+    (text: string): QueryParams | undefined | null => {
+      // Only the placeholders of the text being run need values
+      const names = placeholdersOf(text);
+      try {
+        return names.length > 0 ? buildQueryParams(names, activeTab?.parameters) : undefined;
+      } catch (error) {
+        toast.error((error as Error).message);
+        return null;
+      }
+    },
+    [activeTab, placeholdersOf]
+  );
+
+  // A previous result still waiting for "fetch more" holds a server-side cursor
+  const releaseOpenResult = useCallback(() => {
+    if (!activeConnection || !activeTab?.hasMore || !activeTab.queryId) return;
+    fetch('/api/query/cancel', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ connectionId: activeConnection.id, queryId: activeTab.queryId }),
+    }).catch(() => {});
+  }, [activeConnection, activeTab]);
+
+  /**
+   * Run part of the tab's query, the whole of it by default. `range` is kept
+   * so the editor can highlight it and place error markers.
+   */
+  const executeQuery = useCallback(async (range?: EditorRange) => {
+    if (!activeConnection || !activeTab) return;
+
+    const executedRange = range ?? { start: 0, end: activeTab.query.length };
+    const query = activeTab.query.slice(executedRange.start, executedRange.end);
+    if (!query.trim()) return;
+
+    const params = paramsFor(query);
+    if (params === null) return;
+
+    const tabId = activeTab.id;
+    releaseOpenResult();
 
-    updateQueryTab(activeTab.id, { isExecuting: true, result: null });
+    // Chosen here rather than by the server so Cancel works while the request is in flight
+    const queryId = `query_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+    updateQueryTab(tabId, {
+      isExecuting: true,
+      result: null,
+      queryId,
+      hasMore: false,
+      executedRange,
+      statements: undefined,
+      statementResults: undefined,
+      activeStatement: undefined,
+      plan: undefined,
+    });
+
+    // More than one statement runs as a script, with a result per statement
+    if (isDatabaseType(activeConnection.type) && splitScript(activeConnection.type, query).length > 1) {
+      await executeScript(tabId, query, queryId, params);
+      addToHistory(query, activeConnection.name);
+      return;
+    }
 
     try {
       const response = await fetch('/api/query', {
@@ -58,47 +352,217 @@ export function QueryEditor() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           connectionId: activeConnection.id,
-          query: activeTab.query,
+          query,
+          queryId,
+          timeoutMs: activeConnection.statementTimeoutMs,
+          maxRows: queryRowLimit,
           readOnly: readOnlyMode,
+          params,
         }),
       });
 
-      const result = await response.json();
-
-      updateQueryTab(activeTab.id, { result, isExecuting: false });
-      addToHistory(activeTab.query, activeConnection.name);
+      await readQueryStream<QueryStreamEvent>(response, (event) => applyStreamEvent(tabId, event, null));
+      addToHistory(query, activeConnection.name);
     } catch {
-      updateQueryTab(activeTab.id, {
-        result: {
-          rows: [],
-          columns: [],
-          rowCount: 0,
-          executionTimeMs: 0,
-          error: 'Failed to execute query',
-        },
+      applyStreamEvent(tabId, { type: 'error', error: 'Failed to execute query' }, null);
+    }
+  }, [activeConnection, activeTab, readOnlyMode, queryRowLimit, paramsFor, releaseOpenResult, updateQueryTab, applyStreamEvent, executeScript, addToHistory]);
+
+  /**
+   * Show the plan of the one statement in `range` (the whole query by
+   * default). With `analyze` the statement runs to measure it.
+   */
+  const explainQuery = useCallback(async (range: EditorRange | undefined, analyze: boolean) => {
+    if (!activeConnection || !activeTab || !isDatabaseType(activeConnection.type)) return;
+
+    const base = range ?? { start: 0, end: activeTab.query.length };
+    const statements = splitScript(activeConnection.type, activeTab.query.slice(base.start, base.end));
+    if (statements.length !== 1) {
+      if (statements.length > 1) {
+        toast.error('Select a statement, or put the cursor in one and press Ctrl+Shift+E, to explain it');
+      }
+      return;
+    }
+
+    const [statement] = statements;
+    const params = paramsFor(statement.text);
+    if (params === null) return;
+
+    const tabId = activeTab.id;
+    releaseOpenResult();
+
+    const queryId = `query_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+    updateQueryTab(tabId, {
+      isExecuting: true,
+      result: null,
+      queryId,
+      hasMore: false,
+      executedRange: { start: base.start + statement.start, end: base.start + statement.end },
+      statements: undefined,
+      statementResults: undefined,
+      activeStatement: undefined,
+      plan: undefined,
+    });
+
+    const fail = (error: string, errorPosition?: ErrorPosition) =>
+      updateQueryTab(tabId, {
         isExecuting: false,
+        queryId: undefined,
+        result: { rows: [], columns: [], rowCount: 0, executionTimeMs: 0, error, errorPosition },
+      });
+
+    try {
+      const response = await fetch('/api/query/explain', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          connectionId: activeConnection.id,
+          query: statement.text,
+          queryId,
+          timeoutMs: activeConnection.statementTimeoutMs,
+          params,
+          analyze,
+        }),
+      });
+
+      const data: { plan?: QueryPlan; error?: string; position?: ErrorPosition } = await response.json();
+      if (!response.ok || !data.plan) {
+        fail(data.error || 'Failed to explain query', data.position);
+        return;
+      }
+      updateQueryTab(tabId, { isExecuting: false, queryId: undefined, plan: data.plan });
+    } catch {
+      fail('Failed to explain query');
+    }
+  }, [activeConnection, activeTab, paramsFor, releaseOpenResult, updateQueryTab]);
+
+  const fetchMore = useCallback(async () => {
+    if (!activeConnection || !activeTab?.queryId || !activeTab.result) return;
+
+    const tabId = activeTab.id;
+    const base = activeTab.result;
+    updateQueryTab(tabId, { isFetchingMore: true });
+
+    try {
+      const response = await fetch('/api/query/more', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          connectionId: activeConnection.id,
+          queryId: activeTab.queryId,
+          maxRows: queryRowLimit,
+        }),
+      });
+
+      await readQueryStream<QueryStreamEvent>(response, (event) => applyStreamEvent(tabId, event, base));
+    } catch {
+      applyStreamEvent(tabId, { type: 'error', error: 'Failed to fetch more rows' }, base);
+    }
+  }, [activeConnection, activeTab, queryRowLimit, updateQueryTab, applyStreamEvent]);
+
+  const cancelQuery = useCallback(async () => {
+    if (!activeConnection || !activeTab?.queryId) return;
+
+    try {
+      const response = await fetch('/api/query/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          connectionId: activeConnection.id,
+          queryId: activeTab.queryId,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        toast.error(result.error || 'Failed to cancel query');
+      } else if (!result.cancelled) {
+        toast.info('Query already finished');
+      }
+    } catch {
+      toast.error('Failed to cancel query');
+    }
+  }, [activeConnection, activeTab]);
+
+  // Ctrl/Cmd+Enter (or Ctrl/Cmd+Shift+E) in the editor: the selection, else the statement under the cursor
+  const handleExecute = useCallback(
+    ({ selection, cursor, runAll, explain }: ExecuteRequest) => {
+      const run = (range?: EditorRange) => (explain ? explainQuery(range, false) : executeQuery(range));
+      if (!activeTab || runAll) {
+        run();
+        return;
+      }
+      if (selection) {
+        run(selection);
+        return;
+      }
+
+      const statements =
+        activeConnection && isDatabaseType(activeConnection.type)
+          ? splitScript(activeConnection.type, activeTab.query)
+          : [];
+      const statement = statementAt(statements, cursor);
+      if (statement) run(statement);
+    },
+    [activeConnection, activeTab, executeQuery, explainQuery]
+  );
+
+  // Errors of the last run, as offsets into the tab's query
+  const markers = useMemo((): EditorMarker[] => {
+    const range = activeTab?.executedRange;
+    if (!activeTab || !range) return [];
+    const executed = activeTab.query.slice(range.start, range.end);
+
+    if (activeTab.statements) {
+      return activeTab.statements.flatMap((statement, index) => {
+        const statementResult = activeTab.statementResults?.[index];
+        if (!statementResult?.error) return [];
+        return [
+          {
+            offset: range.start + statement.start + errorOffset(statement.text, statementResult.errorPosition),
+            message: statementResult.error,
+          },
+        ];
       });
     }
-  }, [activeConnection, activeTab, readOnlyMode, updateQueryTab, addToHistory]);
+
+    if (!activeTab.result?.error) return [];
+    return [
+      {
+        offset: range.start + errorOffset(executed, activeTab.result.errorPosition),
+        message: activeTab.result.error,
+      },
+    ];
+  }, [activeTab]);
+
+  // ANALYZE runs the explained statement, which read-only mode refuses for writes
+  const explained = activeTab?.plan && activeTab.executedRange
+    ? activeTab.query.slice(activeTab.executedRange.start, activeTab.executedRange.end)
+    : undefined;
+  const canAnalyze =
+    explained !== undefined &&
+    !(readOnlyMode && activeConnection && isDatabaseType(activeConnection.type) &&
+      getEngine(activeConnection.type).isWriteQuery(explained));
 
   const handleEditorChange = (value: string | undefined) => {
     if (activeTab && value !== undefined) {
-      updateQueryTab(activeTab.id, { query: value });
+      // Highlight and markers point into the old text
+      updateQueryTab(activeTab.id, { query: value, executedRange: undefined });
     }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    // Ctrl/Cmd + Enter to execute
-    if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
+    // Ctrl/Cmd + Enter outside the editor runs everything; the editor handles its own
+    if ((e.ctrlKey || e.metaKey) && e.key === 'Enter' && !e.defaultPrevented) {
       e.preventDefault();
       executeQuery();
     }
   };
 
   const handleExportResults = () => {
-    if (!activeTab?.result?.rows.length) return;
+    if (!result?.rows.length) return;
 
-    const { rows, columns } = activeTab.result;
+    const { rows, columns } = result;
     const csvContent = [
       columns.join(','),
       ...rows.map((row) =>
@@ -124,18 +588,6 @@ export function QueryEditor() {
     URL.revokeObjectURL(url);
   };
 
-  const getLanguage = () => {
-    if (activeConnection?.type === 'mongodb') {
-      return 'javascript';
-    }
-    if (activeConnection?.type === 'redis') {
-      return 'plaintext';
-    }
-    return 'sql';
-  };
-
-  
-
   return (
     <div className="flex flex-col h-full" onKeyDown={handleKeyDown}>
       {/* Tabs Bar */}
@@ -183,10 +635,53 @@ export function QueryEditor() {
               Read-only
             </Badge>
           )}
+          <Select
+            value={String(queryRowLimit)}
+            onValueChange={(v) => setQueryRowLimit(Number(v))}
+          >
+            <SelectTrigger className="h-8 w-[120px] text-xs" title="Rows loaded per run">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROW_LIMITS.map((limit) => (
+                <SelectItem key={limit} value={String(limit)}>
+                  {limit.toLocaleString()} rows
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <label
+            className="flex items-center gap-1.5 text-xs text-muted-foreground"
+            title="Scripts with several statements stop at the first one that fails"
+          >
+            <Switch checked={stopOnError} onCheckedChange={setStopOnError} />
+            Stop on error
+          </label>
+          {(activeTab?.isExecuting || activeTab?.isFetchingMore) &&
+            // Any script can stop between statements
+            (capabilities.supportsQueryCancellation || activeTab.statements) && (
+            <Button size="sm" variant="outline" onClick={cancelQuery}>
+              <Square className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          )}
+          {capabilities.supportsExplain && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => explainQuery(undefined, false)}
+              disabled={!activeTab?.query.trim() || activeTab?.isExecuting}
+              title="Show the query plan (Ctrl+Shift+E explains the selection or the statement under the cursor)"
+            >
+              <ListTree className="h-4 w-4 mr-1" />
+              Explain
+            </Button>
+          )}
           <Button
             size="sm"
-            onClick={executeQuery}
+            onClick={() => executeQuery()}
             disabled={!activeTab?.query.trim() || activeTab?.isExecuting}
+            title="Run all (Ctrl+Shift+Enter). Ctrl+Enter runs the selection or the statement under the cursor"
           >
             <Play className="h-4 w-4 mr-1" />
             {activeTab?.isExecuting ? 'Running...' : 'Run'}
@@ -195,88 +690,169 @@ export function QueryEditor() {
       </div>
 
       {/* Editor */}
-      <div className="flex-1 min-h-[200px]">
-        <MonacoEditor
-          language={getLanguage()}
-          value={activeTab?.query || ''}
-          onChange={handleEditorChange}
-        />
+      <div className="flex flex-1 min-h-[200px]">
+        <div className="flex-1 min-w-0">
+          <MonacoEditor
+            language={language}
+            value={activeTab?.query || ''}
+            onChange={handleEditorChange}
+            onExecute={handleExecute}
+            highlight={activeTab?.executedRange}
+            markers={markers}
+            schema={editorSchema}
+          />
+        </div>
+        {activeTab && parameters.length > 0 && (
+          <ParameterPanel
+            names={parameters}
+            inputs={activeTab.parameters}
+            onChange={(name, input) => setParameterInput(activeTab.id, name, input)}
+          />
+        )}
       </div>
 
       {/* Results */}
-      {activeTab?.result && (
+      {activeTab && (activeTab.result || activeTab.statements || activeTab.plan) && (
         <div className="border-t flex flex-col h-[300px]">
-          {/* Results Header */}
-          <div className="flex items-center justify-between px-3 py-2 border-b bg-muted/50">
-            <div className="flex items-center gap-3">
-              {activeTab.result.error ? (
-                <Badge variant="destructive">Error</Badge>
+          {/* Statement tabs of a script */}
+          {activeTab.statements && (
+            <ScrollArea className="border-b">
+              <div className="flex items-center gap-1 px-2 py-1">
+                {activeTab.statements.map((statement, index) => {
+                  const statementResult = activeTab.statementResults?.[index];
+                  return (
+                    <button
+                      key={index}
+                      onClick={() => updateQueryTab(activeTab.id, { activeStatement: index })}
+                      title={statement.text}
+                      className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs whitespace-nowrap hover:bg-muted ${
+                        index === (activeTab.activeStatement ?? 0) ? 'bg-muted font-medium' : 'text-muted-foreground'
+                      }`}
+                    >
+                      {statementResult?.error ? (
+                        <CircleX className="h-3 w-3 text-destructive" />
+                      ) : statementResult ? (
+                        <CircleCheck className="h-3 w-3 text-green-600" />
+                      ) : activeTab.isExecuting ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        <CircleMinus className="h-3 w-3" />
+                      )}
+                      Statement {index + 1}
+                      {statementResult && (
+                        <span className="text-muted-foreground">{statementResult.executionTimeMs}ms</span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+              <ScrollBar orientation="horizontal" />
+            </ScrollArea>
+          )}
+
+          {activeTab.plan ? (
+            <PlanViewer
+              plan={activeTab.plan}
+              onAnalyze={canAnalyze ? () => explainQuery(activeTab.executedRange, true) : undefined}
+            />
+          ) : !result ? (
+            <div className="flex flex-1 items-center justify-center text-muted-foreground text-sm">
+              {activeTab.isExecuting ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
               ) : (
-                <>
-                  <span className="text-sm font-medium">
-                    {activeTab.result.rowCount} row{activeTab.result.rowCount !== 1 ? 's' : ''}
-                  </span>
-                  <span className="text-xs text-muted-foreground flex items-center gap-1">
-                    <Clock className="h-3 w-3" />
-                    {activeTab.result.executionTimeMs}ms
-                  </span>
-                </>
+                'Not run: an earlier statement failed or the script was cancelled.'
               )}
             </div>
-            {!activeTab.result.error && activeTab.result.rows.length > 0 && (
-              <Button variant="ghost" size="sm" onClick={handleExportResults}>
-                <Download className="h-4 w-4 mr-1" />
-                Export
-              </Button>
-            )}
-          </div>
-
-          {/* Results Content */}
-          <ScrollArea className="flex-1">
-            {activeTab.result.error ? (
-              <div className="p-4 text-destructive">
-                <pre className="text-sm whitespace-pre-wrap">
-                  {activeTab.result.error}
-                </pre>
-              </div>
-            ) : activeTab.result.rows.length === 0 ? (
-              <div className="flex items-center justify-center h-full text-muted-foreground text-sm">
-                Query executed successfully. No rows returned.
+          ) : (
+            <>
+              {/* Results Header */}
+              <div className="flex items-center justify-between px-3 py-2 border-b bg-muted/50">
+                <div className="flex items-center gap-3">
+                  {result.error ? (
+                    <Badge variant="destructive">Error</Badge>
+                  ) : (
+                    <>
+                      <span className="text-sm font-medium">
+                        {result.rowCount} row{result.rowCount !== 1 ? 's' : ''}
+                        {(activeTab.hasMore || result.truncated) && '+'}
+                      </span>
+                      {(activeTab.isExecuting && !activeTab.statements) || activeTab.isFetchingMore ? (
+                        <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+                      ) : (
+                        <span className="text-xs text-muted-foreground flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          {result.executionTimeMs}ms
+                        </span>
+                      )}
+                      {activeTab.hasMore && !activeTab.isFetchingMore && (
+                        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={fetchMore}>
+                          <ChevronsDown className="h-3 w-3 mr-1" />
+                          Fetch {queryRowLimit.toLocaleString()} more
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </div>
+                {!result.error && result.rows.length > 0 && (
+                  <Button variant="ghost" size="sm" onClick={handleExportResults}>
+                    <Download className="h-4 w-4 mr-1" />
+                    Export
+                  </Button>
+                )}
               </div>
-            ) : (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    {activeTab.result.columns.map((col) => (
-                      <TableHead key={col} className="whitespace-nowrap">
-                        {col}
-                      </TableHead>
-                    ))}
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {activeTab.result.rows.map((row, i) => (
-                    <TableRow key={i}>
-                      {activeTab.result!.columns.map((col) => (
-                        <TableCell key={col} className="py-1.5">
-                          {row[col] === null || row[col] === undefined ? (
-                            <span className="text-muted-foreground italic">NULL</span>
-                          ) : typeof row[col] === 'object' ? (
-                            <code className="text-xs bg-muted px-1 py-0.5 rounded">
-                              {JSON.stringify(row[col])}
-                            </code>
-                          ) : (
-                            String(row[col])
-                          )}
-                        </TableCell>
+
+              {/* Results Content */}
+              <ScrollArea className="flex-1">
+                {result.error ? (
+                  <div className="p-4 text-destructive">
+                    <pre className="text-sm whitespace-pre-wrap">
+                      {result.error}
+                    </pre>
+                  </div>
+                ) : result.rows.length === 0 ? (
+                  <div className="flex items-center justify-center h-full text-muted-foreground text-sm">
+                    {activeTab.isExecuting && !activeTab.statements ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      'Query executed successfully. No rows returned.'
+                    )}
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {result.columns.map((col) => (
+                          <TableHead key={col} className="whitespace-nowrap">
+                            {col}
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.rows.map((row, i) => (
+                        <TableRow key={i}>
+                          {result.columns.map((col) => (
+                            <TableCell key={col} className="py-1.5">
+                              {row[col] === null || row[col] === undefined ? (
+                                <span className="text-muted-foreground italic">NULL</span>
+                              ) : typeof row[col] === 'object' ? (
+                                <code className="text-xs bg-muted px-1 py-0.5 rounded">
+                                  {JSON.stringify(row[col])}
+                                </code>
+                              ) : (
+                                String(row[col])
+                              )}
+                            </TableCell>
+                          ))}
+                        </TableRow>
                       ))}
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            )}
-            <ScrollBar orientation="horizontal" />
-          </ScrollArea>
+                    </TableBody>
+                  </Table>
+                )}
+                <ScrollBar orientation="horizontal" />
+              </ScrollArea>
+            </>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,531 @@
+import type { IDisposable, IMarkdownString, IRange, Position, editor, languages } from 'monaco-editor';
+import { ColumnInfo, TableInfo } from '@/lib/adapters/types';
+import { splitScript } from '@/lib/engines';
+import type { EditorSchema } from '@/hooks/use-editor-schema';
+
+/**
+ * Completion and hover providers for the query editor, fed by the tables
+ * and columns of the connected database. SQL gets table, column, alias and
+ * join suggestions; MongoDB gets collections, methods and field paths after
+ * `db.`; Redis gets command names and key patterns.
+ */
+
+type Monaco = typeof import('monaco-editor');
+
+const SQL_KEYWORDS = [
+  'SELECT', 'FROM', 'WHERE', 'JOIN', 'LEFT JOIN', 'INNER JOIN', 'ON', 'AND', 'OR', 'NOT',
+  'IN', 'IS NULL', 'IS NOT NULL', 'LIKE', 'BETWEEN', 'AS', 'DISTINCT', 'GROUP BY', 'ORDER BY',
+  'HAVING', 'LIMIT', 'OFFSET', 'WITH', 'UNION', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END',
+  'INSERT INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE FROM', 'COUNT',
+];
+
+// Words that can follow a table reference, so they're never taken for its alias
+const CLAUSE_WORDS = new Set([
+  'WHERE', 'ON', 'USING', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER', 'FULL', 'CROSS', 'NATURAL',
+  'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'UNION', 'EXCEPT', 'INTERSECT', 'SET', 'VALUES',
+  'WINDOW', 'FETCH', 'FOR', 'RETURNING', 'FINAL', 'SAMPLE', 'PREWHERE', 'SELECT', 'ALLOW',
+]);
+
+// A table name, possibly schema-qualified and quoted, with an optional alias
+const TABLE_REF = /\s*([\w$."`[\]]+)(?:\s+(?:AS\s+)?([A-Za-z_]\w*))?/iy;
+const REF_LIST_SEPARATOR = /\s*,/y;
+
+interface TableRef {
+  table: TableInfo;
+  alias?: string;
+}
+
+const unquote = (identifier: string) => identifier.replace(/["`[\]]/g, '');
+
+// "public.users" -> "users"
+const bareName = (table: TableInfo) => table.name.split('.').pop() ?? table.name;
+
+/**
+ * Find a table by the name a query uses for it. Schema-qualified names match
+ * exactly; bare names also match tables in any schema.
+ */
+function findTable(tables: TableInfo[], name: string): TableInfo | undefined {
+  const wanted = unquote(name).toLowerCase();
+  return (
+    tables.find((table) => table.name.toLowerCase() === wanted) ??
+    tables.find((table) => bareName(table).toLowerCase() === wanted)
+  );
+}
+
+/**
+ * Tables a statement reads or writes (FROM lists, JOINs, UPDATE, INTO) and
+ * their aliases.
+ */
+function tableRefs(sql: string, tables: TableInfo[]): TableRef[] {
+  const refs: TableRef[] = [];
+
+  for (const match of sql.matchAll(/\b(?:FROM|JOIN|UPDATE|INTO)\s/gi)) {
+    let index = match.index + match[0].length;
+    for (;;) {
+      TABLE_REF.lastIndex = index;
+      const ref = TABLE_REF.exec(sql);
+      if (!ref) break;
+
+      const isAlias = !!ref[2] && !CLAUSE_WORDS.has(ref[2].toUpperCase());
+      const table = findTable(tables, ref[1]);
+      if (table) refs.push({ table, alias: isAlias ? ref[2] : undefined });
+
+      // "FROM a x, b y" lists several tables; anything else ends the list
+      REF_LIST_SEPARATOR.lastIndex = TABLE_REF.lastIndex;
+      if ((ref[2] && !isAlias) || !REF_LIST_SEPARATOR.test(sql)) break;
+      index = REF_LIST_SEPARATOR.lastIndex;
+    }
+  }
+
+  return refs;
+}
+
+// The table an alias or table name before a "." refers to
+function resolveQualifier(qualifier: string, refs: TableRef[], tables: TableInfo[]): TableInfo | undefined {
+  const wanted = unquote(qualifier).toLowerCase();
+  return (
+    refs.find((ref) => ref.alias?.toLowerCase() === wanted)?.table ??
+    refs.find((ref) => bareName(ref.table).toLowerCase() === wanted)?.table ??
+    findTable(tables, wanted)
+  );
+}
+
+// How a statement refers to a table it uses
+const refName = (ref: TableRef) => ref.alias ?? bareName(ref.table);
+
+/**
+ * Bounds of the statement the cursor is in. Past the last delimiter the
+ * cursor starts a new, still empty statement.
+ */
+function statementBounds(schema: EditorSchema, text: string, offset: number): { start: number; end: number } {
+  const statement = splitScript(schema.type, text).findLast((s) => s.start <= offset);
+  const afterDelimiter = text.lastIndexOf(';', offset - 1) + 1;
+
+  if (!statement || afterDelimiter > statement.end) {
+    return { start: afterDelimiter, end: offset };
+  }
+  return { start: statement.start, end: Math.max(statement.end, offset) };
+}
+
+function wordRange(model: editor.ITextModel, position: Position): IRange {
+  const word = model.getWordUntilPosition(position);
+  return {
+    startLineNumber: position.lineNumber,
+    endLineNumber: position.lineNumber,
+    startColumn: word.startColumn,
+    endColumn: word.endColumn,
+  };
+}
+
+function describeColumn(column: ColumnInfo, tableName: string): IMarkdownString[] {
+  const flags = [
+    column.nullable ? 'nullable' : 'NOT NULL',
+    column.isPrimaryKey && 'primary key',
+    column.isPartitionKey && 'partition key',
+    column.isClusteringKey && 'clustering key',
+    column.defaultValue && `default \`${column.defaultValue}\``,
+  ].filter(Boolean);
+
+  const contents = [
+    { value: `**${tableName}.${column.name}** \`${column.type}\`` },
+    { value: flags.join(' · ') },
+  ];
+  if (column.foreignKeyRef) {
+    const { table, columns, foreignColumns } = column.foreignKeyRef;
+    contents.push({
+      value: `→ references \`${table}\` (${foreignColumns.join(', ')})` +
+        (columns.length > 1 ? ` with ${columns.join(', ')}` : ''),
+    });
+  }
+  if (column.enumValues?.length) {
+    contents.push({ value: `One of: ${column.enumValues.map((v) => `\`${v}\``).join(', ')}` });
+  }
+  return contents;
+}
+
+function describeTable(table: TableInfo): IMarkdownString[] {
+  return [
+    { value: `**${table.name}** (${table.type})` },
+    ...(table.rowCount !== undefined ? [{ value: `~${table.rowCount.toLocaleString()} rows` }] : []),
+  ];
+}
+
+// ── SQL ─────────────────────────────────────────────────────────────
+
+/**
+ * ON conditions for a JOIN, from foreign keys between the joined table and
+ * the tables already in the statement (in either direction).
+ */
+async function joinConditions(schema: EditorSchema, joined: TableRef, others: TableRef[]): Promise<string[]> {
+  const conditions: string[] = [];
+  const condition = (from: TableRef, to: TableRef, column: ColumnInfo) => {
+    const { columns, foreignColumns } = column.foreignKeyRef!;
+    return columns
+      .map((name, i) => `${refName(from)}.${name} = ${refName(to)}.${foreignColumns[i]}`)
+      .join(' AND ');
+  };
+
+  const joinedColumns = await schema.loadColumns(joined.table.name);
+  for (const other of others) {
+    const otherColumns = await schema.loadColumns(other.table.name);
+    const tables = [joined.table, other.table];
+
+    for (const column of joinedColumns) {
+      const target = column.foreignKeyRef && findTable(tables, column.foreignKeyRef.table);
+      if (target === other.table && column.foreignKeyRef!.columns[0] === column.name) {
+        conditions.push(condition(joined, other, column));
+      }
+    }
+    for (const column of otherColumns) {
+      const target = column.foreignKeyRef && findTable(tables, column.foreignKeyRef.table);
+      if (target === joined.table && column.foreignKeyRef!.columns[0] === column.name) {
+        conditions.push(condition(other, joined, column));
+      }
+    }
+  }
+
+  return [...new Set(conditions)];
+}
+
+async function sqlCompletions(
+  monaco: Monaco,
+  schema: EditorSchema,
+  model: editor.ITextModel,
+  position: Position
+): Promise<languages.CompletionList> {
+  const { CompletionItemKind } = monaco.languages;
+  const text = model.getValue();
+  const offset = model.getOffsetAt(position);
+  const bounds = statementBounds(schema, text, offset);
+  const sql = text.slice(bounds.start, bounds.end);
+  const before = text.slice(bounds.start, offset);
+  const range = wordRange(model, position);
+  const tables = schema.tables();
+  const refs = tableRefs(sql, tables);
+
+  const columnItems = (columns: ColumnInfo[], table: TableInfo, sortText = '0') =>
+    columns.map((column) => ({
+      label: column.name,
+      kind: CompletionItemKind.Field,
+      detail: `${bareName(table)} · ${column.type}`,
+      insertText: column.name,
+      sortText,
+      range,
+    }));
+  const tableItems = (sortFor: (table: TableInfo) => string = () => '1') =>
+    tables.map((table) => ({
+      label: table.name,
+      kind: CompletionItemKind.Struct,
+      detail: table.type,
+      insertText: table.name,
+      sortText: sortFor(table),
+      range,
+    }));
+
+  // alias.| or table.| -> that table's columns; schema.| -> its tables
+  const qualified = /([\w$"`\]]+)\.[\w$]*$/.exec(before);
+  if (qualified) {
+    const table = resolveQualifier(qualified[1], refs, tables);
+    if (table) {
+      return { suggestions: columnItems(await schema.loadColumns(table.name), table) };
+    }
+    const schemaName = unquote(qualified[1]);
+    return {
+      suggestions: tables
+        .filter((t) => t.schema === schemaName)
+        .map((t) => ({
+          label: bareName(t),
+          kind: CompletionItemKind.Struct,
+          detail: t.type,
+          insertText: bareName(t),
+          range,
+        })),
+    };
+  }
+
+  // JOIN x ON | -> conditions from foreign keys
+  const joinOn = /\bJOIN\s+([\w$."`[\]]+)(?:\s+(?:AS\s+)?([A-Za-z_]\w*))?\s+ON\s+[\w$]*$/i.exec(before);
+  if (joinOn) {
+    const joinedTable = findTable(tables, joinOn[1]);
+    if (joinedTable) {
+      const joined = { table: joinedTable, alias: joinOn[2] };
+      const others = refs.filter((ref) => ref.table !== joinedTable || ref.alias !== joined.alias);
+      const conditions = await joinConditions(schema, joined, others);
+      if (conditions.length > 0) {
+        return {
+          suggestions: conditions.map((condition) => ({
+            label: condition,
+            kind: CompletionItemKind.Reference,
+            detail: 'Join on foreign key',
+            insertText: condition,
+            sortText: '0',
+            range,
+          })),
+        };
+      }
+    }
+  }
+
+  // FROM | or JOIN | -> tables; after JOIN, tables the statement's tables reference come first
+  const tablePosition = /\b(FROM|JOIN|UPDATE|INTO|TABLE)\s+[\w$."`]*$/i.exec(before) ??
+    /\bFROM\s+[^;()]*,\s*[\w$."`]*$/i.exec(before);
+  if (tablePosition) {
+    if (tablePosition[1]?.toUpperCase() !== 'JOIN') return { suggestions: tableItems() };
+
+    const referenced = new Set<TableInfo>();
+    for (const ref of refs) {
+      for (const column of await schema.loadColumns(ref.table.name)) {
+        const target = column.foreignKeyRef && findTable(tables, column.foreignKeyRef.table);
+        if (target) referenced.add(target);
+      }
+    }
+    return { suggestions: tableItems((table) => (referenced.has(table) ? '0' : '1')) };
+  }
+
+  // Anywhere else: columns of the statement's tables, aliases, tables and keywords
+  const suggestions: languages.CompletionItem[] = [];
+  for (const ref of refs) {
+    suggestions.push(...columnItems(await schema.loadColumns(ref.table.name), ref.table));
+    if (ref.alias) {
+      suggestions.push({
+        label: ref.alias,
+        kind: CompletionItemKind.Variable,
+        detail: `alias of ${ref.table.name}`,
+        insertText: ref.alias,
+        sortText: '1',
+        range,
+      });
+    }
+  }
+  suggestions.push(...tableItems(() => '2'));
+  suggestions.push(
+    ...SQL_KEYWORDS.map((keyword) => ({
+      label: keyword,
+      kind: CompletionItemKind.Keyword,
+      insertText: keyword,
+      sortText: '3',
+      range,
+    }))
+  );
+  return { suggestions };
+}
+
+async function sqlHover(
+  schema: EditorSchema,
+  model: editor.ITextModel,
+  position: Position
+): Promise<languages.Hover | null> {
+  const word = model.getWordAtPosition(position);
+  if (!word) return null;
+
+  const text = model.getValue();
+  const bounds = statementBounds(schema, text, model.getOffsetAt(position));
+  const tables = schema.tables();
+  const refs = tableRefs(text.slice(bounds.start, bounds.end), tables);
+  const range = {
+    startLineNumber: position.lineNumber,
+    endLineNumber: position.lineNumber,
+    startColumn: word.startColumn,
+    endColumn: word.endColumn,
+  };
+  const name = word.word.toLowerCase();
+
+  // alias.column
+  const lineBefore = model.getLineContent(position.lineNumber).slice(0, word.startColumn - 1);
+  const qualifier = /([\w$"`\]]+)\.$/.exec(lineBefore);
+  const candidates = qualifier
+    ? [resolveQualifier(qualifier[1], refs, tables)].filter((t): t is TableInfo => !!t)
+    : refs.map((ref) => ref.table);
+
+  for (const table of candidates) {
+    const column = (await schema.loadColumns(table.name)).find((c) => c.name.toLowerCase() === name);
+    if (column) return { range, contents: describeColumn(column, bareName(table)) };
+  }
+
+  const table = !qualifier && findTable(tables, word.word);
+  return table ? { range, contents: describeTable(table) } : null;
+}
+
+// ── MongoDB ─────────────────────────────────────────────────────────
+
+async function mongoCompletions(
+  monaco: Monaco,
+  schema: EditorSchema,
+  model: editor.ITextModel,
+  position: Position
+): Promise<languages.CompletionList> {
+  const { CompletionItemKind } = monaco.languages;
+  const before = model.getValue().slice(0, model.getOffsetAt(position));
+  const range = wordRange(model, position);
+  const tables = schema.tables();
+
+  // db.| -> collections
+  if (/\bdb\.[\w$]*$/.test(before)) {
+    return {
+      suggestions: tables.map((table) => ({
+        label: table.name,
+        kind: CompletionItemKind.Module,
+        detail: table.type,
+        insertText: table.name,
+        range,
+      })),
+    };
+  }
+
+  // db.collection.| -> methods
+  if (/\bdb\.[\w$-]+\.[\w$]*$/.test(before)) {
+    return {
+      suggestions: schema.commands.map((method) => ({
+        label: method,
+        kind: CompletionItemKind.Method,
+        insertText: `${method}($0)`,
+        insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+        range,
+      })),
+    };
+  }
+
+  // Inside db.collection.method(...): field paths as object keys, $paths in strings
+  const call = /\bdb\.([\w$-]+)\.\w+\(([^]*)$/.exec(before);
+  const table = call && findTable(tables, call[1]);
+  if (!call || !table) return { suggestions: [] };
+
+  const args = call[2];
+  const key = /[{,]\s*(["']?)([\w$.]*)$/.exec(args);
+  const reference = /["']\$([\w.]*)$/.exec(args);
+  if (!key && !reference) return { suggestions: [] };
+
+  // Dotted paths aren't valid unquoted keys, and Monaco's word stops at the dot
+  const typed = reference?.[1] ?? key![2];
+  const pathRange = { ...range, startColumn: position.column - typed.length };
+  const columns = await schema.loadColumns(table.name);
+
+  return {
+    suggestions: columns.map((column) => ({
+      label: column.name,
+      kind: CompletionItemKind.Field,
+      detail: column.type,
+      insertText: reference || key![1] || !column.name.includes('.') ? column.name : `"${column.name}"`,
+      range: pathRange,
+    })),
+  };
+}
+
+async function mongoHover(
+  schema: EditorSchema,
+  model: editor.ITextModel,
+  position: Position
+): Promise<languages.Hover | null> {
+  // Field paths contain dots, so take the whole dotted run under the cursor
+  const line = model.getLineContent(position.lineNumber);
+  const start = line.slice(0, position.column - 1).search(/[\w$.]*$/);
+  const end = position.column - 1 + (/^[\w$.]*/.exec(line.slice(position.column - 1))?.[0].length ?? 0);
+  const path = line.slice(start, end).replace(/^\$/, '');
+  if (!path) return null;
+
+  const before = model.getValue().slice(0, model.getOffsetAt(position));
+  const collection = [...before.matchAll(/\bdb\.([\w$-]+)\./g)].pop()?.[1];
+  const table = collection && findTable(schema.tables(), collection);
+  if (!table) return null;
+
+  const column = (await schema.loadColumns(table.name)).find((c) => c.name === path);
+  const range = {
+    startLineNumber: position.lineNumber,
+    endLineNumber: position.lineNumber,
+    startColumn: start + 1,
+    endColumn: end + 1,
+  };
+  return column ? { range, contents: describeColumn(column, table.name) } : null;
+}
+
+// ── Redis ───────────────────────────────────────────────────────────
+
+function redisCompletions(
+  monaco: Monaco,
+  schema: EditorSchema,
+  model: editor.ITextModel,
+  position: Position
+): languages.CompletionList {
+  const { CompletionItemKind } = monaco.languages;
+  const before = model.getLineContent(position.lineNumber).slice(0, position.column - 1);
+  const tokens = before.trimStart().split(/\s+/);
+  const typed = tokens[tokens.length - 1];
+  // Key patterns contain ":", which ends Monaco's words
+  const range = {
+    startLineNumber: position.lineNumber,
+    endLineNumber: position.lineNumber,
+    startColumn: position.column - typed.length,
+    endColumn: position.column,
+  };
+
+  if (tokens.length === 1) {
+    return {
+      suggestions: schema.commands.map((command) => ({
+        label: command,
+        kind: CompletionItemKind.Function,
+        insertText: command,
+        range,
+      })),
+    };
+  }
+
+  // The key: KEYS takes the pattern itself, other commands a key with that prefix
+  if (tokens.length === 2) {
+    const wantsPattern = tokens[0].toUpperCase() === 'KEYS';
+    return {
+      suggestions: schema.tables().map((table) => ({
+        label: table.name,
+        kind: CompletionItemKind.Constant,
+        detail: table.rowCount !== undefined ? `${table.rowCount.toLocaleString()} keys` : undefined,
+        insertText: wantsPattern ? table.name : table.name.replace(/\*.*$/, ''),
+        range,
+      })),
+    };
+  }
+
+  return { suggestions: [] };
+}
+
+/**
+ * Register the providers for every editor language. `getSchema` is read on
+ * each request, so one registration serves whichever connection is active.
+ */
+export function registerSchemaProviders(monaco: Monaco, getSchema: () => EditorSchema | null): IDisposable {
+  const disposables = [
+    monaco.languages.registerCompletionItemProvider('sql', {
+      triggerCharacters: ['.'],
+      provideCompletionItems: async (model, position) => {
+        const schema = getSchema();
+        return schema ? sqlCompletions(monaco, schema, model, position) : { suggestions: [] };
+      },
+    }),
+    monaco.languages.registerHoverProvider('sql', {
+      provideHover: async (model, position) => {
+        const schema = getSchema();
+        return schema ? sqlHover(schema, model, position) : null;
+      },
+    }),
+    monaco.languages.registerCompletionItemProvider('javascript', {
+      triggerCharacters: ['.', '"', "'", '$'],
+      provideCompletionItems: async (model, position) => {
+        const schema = getSchema();
+        return schema ? mongoCompletions(monaco, schema, model, position) : { suggestions: [] };
+      },
+    }),
+    monaco.languages.registerHoverProvider('javascript', {
+      provideHover: async (model, position) => {
+        const schema = getSchema();
+        return schema ? mongoHover(schema, model, position) : null;
+      },
+    }),
+    monaco.languages.registerCompletionItemProvider('plaintext', {
+      triggerCharacters: [' '],
+      provideCompletionItems: (model, position) => {
+        const schema = getSchema();
+        return schema ? redisCompletions(monaco, schema, model, position) : { suggestions: [] };
+      },
+    }),
+  ];
+
+  return { dispose: () => disposables.forEach((disposable) => disposable.dispose()) };
+}
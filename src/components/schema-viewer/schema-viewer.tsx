@@ -45,6 +45,13 @@ import { useStudioStore } from '@/lib/stores/studio';
 import { useActiveConnection } from '@/lib/stores/connection';
 import { Relationship, ColumnInfo } from '@/lib/adapters/types';
 
+// One id per FK constraint; composite keys draw one edge per column pair under it
+const relationshipId = (rel: Relationship) =>
+  `edge-${rel.sourceTable}-${rel.constraintName ?? rel.sourceColumns.join(',')}-${rel.targetTable}`;
+
+const formatKeyColumns = (columns: string[]) =>
+  columns.length > 1 ? `(${columns.join(', ')})` : columns[0];
+
 interface TableNodeData extends Record<string, unknown> {
   label: string;
   columns: ColumnInfo[];
@@ -166,7 +173,9 @@ const TableNodeComponent = memo(function TableNodeComponent({ data }: { data: Ta
                     className="px-3 py-1.5 text-xs flex items-center justify-between gap-2 bg-amber-50 dark:bg-amber-950/30 relative"
                   >
                     <span className="flex items-center gap-1.5 font-medium pl-2">
-                      <span className="text-amber-600 dark:text-amber-400 text-[10px] font-bold">PK</span>
+                      <span className="text-amber-600 dark:text-amber-400 text-[10px] font-bold">
+                        {col.isClusteringKey ? 'CK' : 'PK'}
+                      </span>
                       {col.name}
                     </span>
                     <span className="text-muted-foreground text-[10px]">{col.type}</span>
@@ -440,22 +449,24 @@ function SchemaViewerInner() {
       return;
     }
 
-    const newEdges: Edge[] = relationships.map((rel) => {
-      const edgeId = `edge-${rel.sourceTable}-${rel.sourceColumn}-${rel.targetTable}-${rel.targetColumn}`;
-      const isSelected = selectedEdge === edgeId;
+    const newEdges: Edge[] = relationships.flatMap((rel) => {
+      const relId = relationshipId(rel);
+      const isSelected = selectedEdge === relId;
 
       // Get relationship type label
       const relTypeLabel = rel.type === 'one-to-one' ? '1:1' : rel.type === 'many-to-many' ? 'N:N' : '1:N';
 
-      return {
-        id: edgeId,
+      return rel.sourceColumns.map((sourceColumn, i) => ({
+        id: `${relId}-${i}`,
+        data: { relationshipId: relId },
         source: rel.sourceTable,
         target: rel.targetTable,
-        sourceHandle: `${rel.sourceColumn}-source`, // Connect from FK column
-        targetHandle: `${rel.targetColumn}-target`, // Connect to PK column
+        sourceHandle: `${sourceColumn}-source`, // Connect from FK column
+        targetHandle: `${rel.targetColumns[i]}-target`, // Connect to PK column
         type: 'smoothstep',
         animated: isSelected,
-        label: `${relTypeLabel}`,
+        // Label the constraint once, not every column pair
+        label: i === 0 ? relTypeLabel : undefined,
         labelBgPadding: [6, 3] as [number, number],
         labelBgBorderRadius: 4,
         labelBgStyle: {
@@ -484,14 +495,15 @@ function SchemaViewerInner() {
           stroke: isSelected ? '#6366f1' : '#94a3b8',
           strokeWidth: isSelected ? 3 : 2,
         },
-      };
+      }));
     });
 
     setEdges(newEdges);
   }, [relationships, selectedEdge, setEdges]);
 
   const handleEdgeClick = useCallback((_: React.MouseEvent, edge: Edge) => {
-    setSelectedEdge(prev => prev === edge.id ? null : edge.id);
+    const relId = (edge.data?.relationshipId as string | undefined) ?? edge.id;
+    setSelectedEdge(prev => prev === relId ? null : relId);
   }, []);
 
   const handlePaneClick = useCallback(() => {
@@ -885,7 +897,7 @@ function SchemaViewerInner() {
                   <ScrollArea className="max-h-[200px]">
                     <div className="space-y-1">
                       {relationships.map((rel) => {
-                        const edgeId = `edge-${rel.sourceTable}-${rel.sourceColumn}-${rel.targetTable}-${rel.targetColumn}`;
+                        const edgeId = relationshipId(rel);
                         const relTypeLabel = rel.type === 'one-to-one' ? '1:1' : rel.type === 'many-to-many' ? 'N:N' : '1:N';
                         return (
                           <div
@@ -903,10 +915,10 @@ function SchemaViewerInner() {
                               </span>
                               <div className="flex items-center gap-0.5 flex-wrap">
                                 <span className="font-medium">{rel.sourceTable}</span>
-                                <span className="text-blue-600 dark:text-blue-400">.{rel.sourceColumn}</span>
+                                <span className="text-blue-600 dark:text-blue-400">.{formatKeyColumns(rel.sourceColumns)}</span>
                                 <span className="mx-0.5 text-muted-foreground">→</span>
                                 <span className="font-medium">{rel.targetTable}</span>
-                                <span className="text-amber-600 dark:text-amber-400">.{rel.targetColumn}</span>
+                                <span className="text-amber-600 dark:text-amber-400">.{formatKeyColumns(rel.targetColumns)}</span>
                               </div>
                             </div>
                           </div>
@@ -1,10 +1,17 @@
 'use client';
 
-import { useEffect, useCallback, useState, useRef } from 'react';
-import { Table2, FileText, RefreshCw, Search, ChevronRight, Database, Key, Trash2 } from 'lucide-react';
+import { useEffect, useCallback, useState, useRef, useMemo } from 'react';
+import { Table2, FileText, RefreshCw, Search, ChevronRight, ChevronDown, Database, Key, Trash2, Folder } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import {
   Tooltip,
@@ -22,20 +29,28 @@ import {
 } from '@/components/ui/dialog';
 import { useStudioStore, useFilteredTables } from '@/lib/stores/studio';
 import { useActiveConnection, useReadOnlyMode } from '@/lib/stores/connection';
+import { useCapabilities } from '@/hooks/use-capabilities';
+import { TableInfo } from '@/lib/adapters/types';
 import { cn, formatBytes } from '@/lib/utils';
 
+const ALL_SCHEMAS = '__all__';
+
 export function TableBrowser() {
   const activeConnection = useActiveConnection();
   const readOnlyMode = useReadOnlyMode();
   const filteredTables = useFilteredTables();
   const {
+    tables,
     selectedTable,
     setSelectedTable,
     openTableTab,
     setTables,
     setTableSchema,
+    setTableColumns,
     tableFilter,
     setTableFilter,
+    schemaFilter,
+    setSchemaFilter,
     isLoadingTables,
     setIsLoadingTables,
     setIsLoadingSchema,
@@ -45,6 +60,7 @@ export function TableBrowser() {
   const [flushDialogOpen, setFlushDialogOpen] = useState(false);
   const [isFlushing, setIsFlushing] = useState(false);
   const [localFilter, setLocalFilter] = useState(tableFilter);
+  const [collapsedSchemas, setCollapsedSchemas] = useState<Set<string>>(new Set());
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const handleFilterChange = useCallback((value: string) => {
@@ -60,7 +76,39 @@ export function TableBrowser() {
     setLocalFilter(tableFilter);
   }, [tableFilter]);
 
-  const isRedis = activeConnection?.type === 'redis';
+  const capabilities = useCapabilities();
+  const isKeyValue = capabilities.dataModel === 'key-value';
+
+  const schemas = useMemo(() => {
+    if (!capabilities.supportsSchemas) return [];
+    return Array.from(
+      new Set(tables.map((t) => t.schema).filter((s): s is string => !!s))
+    ).sort();
+  }, [tables, capabilities.supportsSchemas]);
+
+  // Group by schema once there is more than one; a single schema stays a flat list
+  const tableGroups = useMemo(() => {
+    if (schemas.length <= 1) return null;
+    const groups = new Map<string, TableInfo[]>();
+    for (const table of filteredTables) {
+      const schema = table.schema ?? '';
+      if (!groups.has(schema)) groups.set(schema, []);
+      groups.get(schema)!.push(table);
+    }
+    return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [filteredTables, schemas]);
+
+  const toggleSchema = (schema: string) => {
+    setCollapsedSchemas((prev) => {
+      const next = new Set(prev);
+      if (next.has(schema)) {
+        next.delete(schema);
+      } else {
+        next.add(schema);
+      }
+      return next;
+    });
+  };
 
   const fetchTables = useCallback(async () => {
     if (!activeConnection) return;
@@ -100,6 +148,7 @@ export function TableBrowser() {
 
         if (!data.error) {
           setTableSchema(data.schema);
+          setTableColumns(tableName, data.schema);
         }
       } catch {
         // schema load failed silently
@@ -107,7 +156,7 @@ export function TableBrowser() {
         setIsLoadingSchema(false);
       }
     },
-    [activeConnection, setTableSchema, setIsLoadingSchema]
+    [activeConnection, setTableSchema, setTableColumns, setIsLoadingSchema]
   );
 
   useEffect(() => {
@@ -148,6 +197,58 @@ export function TableBrowser() {
     }
   };
 
+  const renderTable = (table: TableInfo, label: string) => (
+    <TooltipProvider key={table.name}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <button
+            onClick={() => handleTableSelect(table.name)}
+            className={cn(
+              'w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-sm transition-colors',
+              selectedTable === table.name
+                ? 'bg-primary text-primary-foreground'
+                : 'hover:bg-muted'
+            )}
+          >
+            {table.type === 'keyspace' ? (
+              <Key className="h-4 w-4 shrink-0" />
+            ) : table.type === 'view' ? (
+              <FileText className="h-4 w-4 shrink-0" />
+            ) : (
+              <Table2 className="h-4 w-4 shrink-0" />
+            )}
+            <span className="truncate flex-1">{label}</span>
+            {selectedTable === table.name && (
+              <ChevronRight className="h-4 w-4 shrink-0" />
+            )}
+          </button>
+        </TooltipTrigger>
+        <TooltipContent side="right" className="max-w-xs">
+          <div className="space-y-1">
+            <p className="font-medium">{table.name}</p>
+            {table.schema && (
+              <p className="text-xs text-muted-foreground">
+                Schema: {table.schema}
+              </p>
+            )}
+            <div className="flex gap-2 text-xs">
+              {table.rowCount !== undefined && (
+                <Badge variant="secondary">
+                  {table.rowCount.toLocaleString()} {isKeyValue ? 'keys' : 'rows'}
+                </Badge>
+              )}
+              {table.sizeBytes !== undefined && table.sizeBytes > 0 && (
+                <Badge variant="secondary">
+                  {formatBytes(table.sizeBytes)}
+                </Badge>
+              )}
+            </div>
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+
   return (
     <div className="flex flex-col h-full overflow-hidden">
       {/* Header */}
@@ -160,7 +261,7 @@ export function TableBrowser() {
             </span>
           </div>
           <div className="flex items-center gap-1">
-            {isRedis && !readOnlyMode && (
+            {capabilities.supportsFlush && !readOnlyMode && (
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger asChild>
@@ -196,7 +297,7 @@ export function TableBrowser() {
                   </Button>
                 </TooltipTrigger>
                 <TooltipContent>
-                  {isRedis ? 'Refresh key patterns' : 'Refresh tables'}
+                  {isKeyValue ? 'Refresh key patterns' : 'Refresh tables'}
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
@@ -207,12 +308,32 @@ export function TableBrowser() {
         <div className="relative">
           <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder={isRedis ? 'Filter key patterns...' : 'Filter tables...'}
+            placeholder={isKeyValue ? 'Filter key patterns...' : 'Filter tables...'}
             value={localFilter}
             onChange={(e) => handleFilterChange(e.target.value)}
             className="pl-8 h-8 text-sm"
           />
         </div>
+
+        {/* Schema filter */}
+        {schemas.length > 1 && (
+          <Select
+            value={schemaFilter ?? ALL_SCHEMAS}
+            onValueChange={(v) => setSchemaFilter(v === ALL_SCHEMAS ? null : v)}
+          >
+            <SelectTrigger className="mt-2 h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_SCHEMAS}>All schemas</SelectItem>
+              {schemas.map((schema) => (
+                <SelectItem key={schema} value={schema}>
+                  {schema}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       {/* Table List */}
@@ -225,63 +346,46 @@ export function TableBrowser() {
             </div>
           ) : filteredTables.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground text-sm">
-              {tableFilter
-                ? (isRedis ? 'No matching key patterns' : 'No matching tables')
-                : (isRedis ? 'No keys found' : 'No tables found')}
+              {tableFilter || schemaFilter
+                ? (isKeyValue ? 'No matching key patterns' : 'No matching tables')
+                : (isKeyValue ? 'No keys found' : 'No tables found')}
             </div>
           ) : (
             <div className="space-y-1">
-              {filteredTables.map((table) => (
-                <TooltipProvider key={table.name}>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <button
-                        onClick={() => handleTableSelect(table.name)}
-                        className={cn(
-                          'w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-sm transition-colors',
-                          selectedTable === table.name
-                            ? 'bg-primary text-primary-foreground'
-                            : 'hover:bg-muted'
-                        )}
-                      >
-                        {table.type === 'keyspace' ? (
-                          <Key className="h-4 w-4 shrink-0" />
-                        ) : table.type === 'view' ? (
-                          <FileText className="h-4 w-4 shrink-0" />
-                        ) : (
-                          <Table2 className="h-4 w-4 shrink-0" />
-                        )}
-                        <span className="truncate flex-1">{table.name}</span>
-                        {selectedTable === table.name && (
-                          <ChevronRight className="h-4 w-4 shrink-0" />
-                        )}
-                      </button>
-                    </TooltipTrigger>
-                    <TooltipContent side="right" className="max-w-xs">
-                      <div className="space-y-1">
-                        <p className="font-medium">{table.name}</p>
-                        {table.schema && (
-                          <p className="text-xs text-muted-foreground">
-                            Schema: {table.schema}
-                          </p>
-                        )}
-                        <div className="flex gap-2 text-xs">
-                          {table.rowCount !== undefined && (
-                            <Badge variant="secondary">
-                              {table.rowCount.toLocaleString()} {isRedis ? 'keys' : 'rows'}
-                            </Badge>
+              {tableGroups
+                ? tableGroups.map(([schema, schemaTables]) => {
+                    const isCollapsed = collapsedSchemas.has(schema);
+                    return (
+                      <div key={schema} className="space-y-1">
+                        <button
+                          onClick={() => toggleSchema(schema)}
+                          className="w-full flex items-center gap-1.5 px-1 py-1 text-xs font-medium text-muted-foreground hover:text-foreground"
+                        >
+                          {isCollapsed ? (
+                            <ChevronRight className="h-3.5 w-3.5 shrink-0" />
+                          ) : (
+                            <ChevronDown className="h-3.5 w-3.5 shrink-0" />
                           )}
-                          {table.sizeBytes !== undefined && table.sizeBytes > 0 && (
-                            <Badge variant="secondary">
-                              {formatBytes(table.sizeBytes)}
-                            </Badge>
-                          )}
-                        </div>
+                          <Folder className="h-3.5 w-3.5 shrink-0" />
+                          <span className="truncate flex-1 text-left">{schema}</span>
+                          <span>{schemaTables.length}</span>
+                        </button>
+                        {!isCollapsed && (
+                          <div className="space-y-1 pl-3">
+                            {schemaTables.map((table) =>
+                              renderTable(
+                                table,
+                                table.name.startsWith(`${schema}.`)
+                                  ? table.name.slice(schema.length + 1)
+                                  : table.name
+                              )
+                            )}
+                          </div>
+                        )}
                       </div>
-                    </TooltipContent>
-                  </Tooltip>
-                </TooltipProvider>
-              ))}
+                    );
+                  })
+                : filteredTables.map((table) => renderTable(table, table.name))}
             </div>
           )}
         </div>
@@ -289,7 +393,7 @@ export function TableBrowser() {
 
       {/* Footer */}
       <div className="p-2 border-t text-xs text-muted-foreground text-center shrink-0">
-        {isRedis
+        {isKeyValue
           ? `${filteredTables.length} key pattern${filteredTables.length !== 1 ? 's' : ''}`
           : `${filteredTables.length} table${filteredTables.length !== 1 ? 's' : ''}`}
       </div>
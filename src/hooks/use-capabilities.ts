@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect } from 'react';
+import { AdapterCapabilities } from '@/lib/adapters/types';
+import { getEngine, isDatabaseType } from '@/lib/engines';
+import { useActiveConnection } from '@/lib/stores/connection';
+import { useStudioStore } from '@/lib/stores/studio';
+
+// Used when there is no active connection at all
+const NO_CAPABILITIES: AdapterCapabilities = {
+  supportsUpdate: false,
+  supportsDelete: false,
+  supportsTransactions: false,
+  dataModel: 'relational',
+  supportsSchemas: false,
+  supportsRelationships: false,
+  supportsERDiagram: false,
+  supportsExplain: false,
+  supportsKeysetPagination: false,
+  supportsQueryCancellation: false,
+  supportsStatementTimeout: false,
+  supportsInlineEdit: false,
+  supportsBulkWrites: false,
+  supportsDDL: false,
+  supportsFlush: false,
+};
+
+/**
+ * Fetch the connection's capabilities from GET /api/settings into the studio store.
+ * Call once the server-side adapter is ready (it 404s before that).
+ */
+export function useLoadCapabilities(connectionId: string | null, enabled: boolean) {
+  const setCapabilities = useStudioStore((s) => s.setCapabilities);
+
+  useEffect(() => {
+    if (!connectionId || !enabled) return;
+
+    let cancelled = false;
+    fetch(`/api/settings?connectionId=${connectionId}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.capabilities) {
+          setCapabilities(connectionId, data.capabilities);
+        }
+      })
+      .catch(() => {
+        // Keep the engine defaults
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [connectionId, enabled, setCapabilities]);
+}
+
+/**
+ * Capabilities of the active connection. Until the server has answered,
+ * the engine's registered defaults are used so tabs don't flicker in and out.
+ */
+export function useCapabilities(): AdapterCapabilities {
+  const activeConnection = useActiveConnection();
+  const loaded = useStudioStore((s) => s.capabilities);
+
+  if (!activeConnection) return NO_CAPABILITIES;
+  if (loaded?.connectionId === activeConnection.id) return loaded.value;
+  return isDatabaseType(activeConnection.type)
+    ? getEngine(activeConnection.type).capabilities
+    : NO_CAPABILITIES;
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useMemo } from 'react';
+import { ColumnInfo, TableInfo } from '@/lib/adapters/types';
+import { DatabaseType, getEngine, isDatabaseType } from '@/lib/engines';
+import { useActiveConnection } from '@/lib/stores/connection';
+import { useStudioStore } from '@/lib/stores/studio';
+
+/**
+ * What the query editor's completion and hover providers know about the
+ * connected database. Providers outlive renders, so the getters read the
+ * studio store when they're called.
+ */
+export interface EditorSchema {
+  type: DatabaseType;
+  tables: () => TableInfo[];
+  // Columns of a table, fetched from GET /api/schema on first use
+  loadColumns: (tableName: string) => Promise<ColumnInfo[]>;
+  commands: string[];
+}
+
+// Column requests in flight, so a burst of completions fetches each table once
+const pendingColumns = new Map<string, Promise<ColumnInfo[]>>();
+
+export function useEditorSchema(): EditorSchema | null {
+  const activeConnection = useActiveConnection();
+
+  return useMemo(() => {
+    if (!activeConnection || !isDatabaseType(activeConnection.type)) return null;
+    const connectionId = activeConnection.id;
+
+    const loadColumns = (tableName: string): Promise<ColumnInfo[]> => {
+      const cached = useStudioStore.getState().tableColumns[tableName];
+      if (cached) return Promise.resolve(cached);
+
+      const key = `${connectionId}:${tableName}`;
+      let pending = pendingColumns.get(key);
+      if (!pending) {
+        pending = fetch(`/api/schema?connectionId=${connectionId}&table=${encodeURIComponent(tableName)}`)
+          .then((res) => res.json())
+          .then((data) => {
+            if (data.error || !Array.isArray(data.schema)) return [];
+            useStudioStore.getState().setTableColumns(tableName, data.schema);
+            return data.schema as ColumnInfo[];
+          })
+          .catch(() => [])
+          .finally(() => pendingColumns.delete(key));
+        pendingColumns.set(key, pending);
+      }
+      return pending;
+    };
+
+    return {
+      type: activeConnection.type,
+      tables: () => useStudioStore.getState().tables,
+      loadColumns,
+      commands: getEngine(activeConnection.type).editorCommands ?? [],
+    };
+  }, [activeConnection]);
+}
@@ -7,20 +7,78 @@ import {
   QueryOptions,
   PaginatedResult,
   QueryResult,
+  ExecuteQueryOptions,
+  StreamQueryOptions,
+  QueryBatch,
+  QueryParam,
+  ExplainOptions,
+  QueryPlan,
+  PlanNode,
   TableStats,
   IndexInfo,
   AdapterCapabilities,
+  FilterValue,
+  FilterExpression,
+  SortKey,
 } from "./types";
+import { compileSqlFilter } from "./filters";
+import { KeysetKey, decodeCursor, keysetKey, keysetOrderBy, keysetPage, keysetSeek } from "./keyset";
+import { locateError } from "./error-position";
+import { planDetail, planNumber } from "./plans";
+import { clickhouseEngine } from "../engines/clickhouse";
+import { replaceParameters } from "../engines/parameters";
+
+// ClickHouse types for editor query parameters
+const CLICKHOUSE_PARAM_TYPES: Record<QueryParam["type"], (value: QueryParam["value"]) => string> = {
+  text: () => "String",
+  number: (value) => (Number.isInteger(value) ? "Int64" : "Float64"),
+  boolean: () => "Bool",
+  date: () => "Date",
+  null: () => "Nullable(String)",
+};
+
+// A node of EXPLAIN PLAN json = 1 output
+type ClickHousePlan = {
+  "Node Type": string;
+  Plans?: ClickHousePlan[];
+  Indexes?: Record<string, unknown>[];
+} & Record<string, unknown>;
+
+/**
+ * Map a node of EXPLAIN PLAN json = 1, indexes = 1 output. ClickHouse plans
+ * carry no costs or row estimates; index analysis shows how many granules a
+ * read skips, and a MergeTree read that skips none scans the whole table.
+ */
+function toPlanNode(plan: ClickHousePlan): PlanNode {
+  const { Plans = [], ...properties } = plan;
+  const indexes = plan.Indexes ?? [];
+  const reads = plan["Node Type"].startsWith("ReadFrom");
+  const initial = planNumber(indexes[0]?.["Initial Granules"]);
+  const selected = planNumber(indexes[indexes.length - 1]?.["Selected Granules"]);
+
+  return {
+    operation: plan["Node Type"],
+    relation: reads && plan.Description ? String(plan.Description) : undefined,
+    detail:
+      initial !== undefined && selected !== undefined
+        ? `Granules: ${selected} of ${initial}`
+        : planDetail(properties, reads ? [] : ["Description"]),
+    fullScan:
+      plan["Node Type"] === "ReadFromMergeTree" &&
+      indexes.length > 0 &&
+      indexes.every((index) => planNumber(index["Selected Granules"]) === planNumber(index["Initial Granules"])),
+    properties,
+    children: Plans.map(toPlanNode),
+  };
+}
 
 export class ClickHouseAdapter extends BaseAdapter {
   private client: ClickHouseClient | null = null;
+  // Abort handle of each running editor query, by query ID
+  private runningQueries = new Map<string, AbortController>();
 
   // ClickHouse is read-optimized; UPDATE/DELETE are expensive async mutations
-  readonly capabilities: AdapterCapabilities = {
-    supportsUpdate: false,
-    supportsDelete: false,
-    supportsTransactions: false,
-  };
+  readonly capabilities: AdapterCapabilities = clickhouseEngine.capabilities;
 
   async connect(): Promise<void> {
     const { url, username, password, database } =
@@ -230,65 +288,231 @@ export class ClickHouseAdapter extends BaseAdapter {
     options: QueryOptions
   ): Promise<PaginatedResult> {
     const client = this.getClient();
-    const { page, pageSize, sortBy, sortOrder, filters } = options;
+    const { page, pageSize, sort = [], filters } = options;
     const offset = (page - 1) * pageSize;
 
     // Validate table name
     this.validateIdentifier(table);
     const quotedTable = this.quoteIdentifier(table);
 
-    // Build WHERE clause
-    let whereClause = "";
-    const filterParams: Record<string, unknown> = {};
-    if (filters && Object.keys(filters).length > 0) {
-      const conditions = Object.entries(filters).map(([key, value], index) => {
-        this.validateIdentifier(key);
-        const paramName = `filter_${index}`;
-        filterParams[paramName] = value;
-        return `\`${key}\` = {${paramName}:String}`;
+    const { where: whereClause, params: filterParams } = this.compileFilter(filters);
+
+    // Unfiltered reads report the row count of active parts
+    const { total, totalIsEstimate } = await this.pageTotal(
+      async () => (filters ? undefined : this.getEstimatedRowCount(table)),
+      async () => {
+        const countResult = await client.query({
+          query: `SELECT count() as total FROM ${quotedTable} ${whereClause}`,
+          query_params: filterParams,
+          format: "JSONEachRow",
+        });
+        const countData = (await countResult.json()) as { total: string | number }[];
+        return Number(countData[0]?.total || 0);
+      },
+    );
+
+    sort.forEach((key) => this.validateIdentifier(key.column));
+    const keyset = await this.getKeysetKey(table, sort);
+
+    if (!keyset) {
+      // Engines without parts (Memory, Log, ...) have no stable row order to seek on
+      const orderClause = this.orderByClause(sort, (name) => `\`${name}\``);
+      const dataResult = await client.query({
+        query: `
+          SELECT * FROM ${quotedTable}
+          ${whereClause}
+          ${orderClause}
+          LIMIT {limit:UInt32} OFFSET {offset:UInt32}
+        `,
+        query_params: { ...filterParams, limit: pageSize, offset },
+        format: "JSONEachRow",
       });
-      whereClause = `WHERE ${conditions.join(" AND ")}`;
+
+      const data = (await dataResult.json()) as Record<string, unknown>[];
+
+      return {
+        data,
+        total,
+        totalIsEstimate,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize),
+      };
     }
 
-    // Get count
-    const countResult = await client.query({
-      query: `SELECT count() as total FROM ${quotedTable} ${whereClause}`,
-      query_params: filterParams,
-      format: "JSONEachRow",
-    });
-    const countData = (await countResult.json()) as { total: string | number }[];
-    const total = Number(countData[0]?.total || 0);
-
-    // Build ORDER BY clause
-    let orderClause = "";
-    if (sortBy) {
-      this.validateIdentifier(sortBy);
-      orderClause = `ORDER BY \`${sortBy}\` ${sortOrder === "desc" ? "DESC" : "ASC"}`;
+    // Keyset paging: seek past the cursor, or use OFFSET when jumping to a page number
+    const { key, types } = keyset;
+    const cursor = options.cursor ? decodeCursor(options.cursor, key) : undefined;
+    const quoteColumn = (name: string) => `\`${name}\``;
+    const keysetParams: Record<string, unknown> = {};
+
+    let seekClause = whereClause;
+    if (cursor) {
+      const seek = keysetSeek(cursor, key, quoteColumn, (value, column) => {
+        const name = `keyset_${Object.keys(keysetParams).length}`;
+        keysetParams[name] = value;
+        return `{${name}:${types.get(column)}}`;
+      });
+      seekClause = whereClause ? `${whereClause} AND ${seek}` : `WHERE ${seek}`;
     }
+    const keyColumns = key.columns
+      .map((col, i) => `${quoteColumn(col.name)} AS \`__keyset_${i}\``)
+      .join(", ");
 
-    // Get data with pagination
     const dataResult = await client.query({
       query: `
-        SELECT * FROM ${quotedTable}
-        ${whereClause}
-        ${orderClause}
-        LIMIT {limit:UInt32} OFFSET {offset:UInt32}
+        SELECT *, ${keyColumns} FROM ${quotedTable}
+        ${seekClause}
+        ${keysetOrderBy(key, quoteColumn, cursor?.direction === "prev")}
+        LIMIT {limit:UInt32}${cursor ? "" : " OFFSET {offset:UInt32}"}
       `,
-      query_params: { ...filterParams, limit: pageSize, offset },
+      query_params: { ...filterParams, ...keysetParams, limit: pageSize + 1, offset },
       format: "JSONEachRow",
     });
 
-    const data = (await dataResult.json()) as Record<string, unknown>[];
+    const rows = (await dataResult.json()) as Record<string, unknown>[];
+    const result = keysetPage(rows, pageSize, key, cursor, page, (row) =>
+      key.columns.map((_, i) => row[`__keyset_${i}`] as FilterValue),
+    );
+    for (const row of result.rows) {
+      key.columns.forEach((_, i) => delete row[`__keyset_${i}`]);
+    }
 
     return {
-      data,
+      data: result.rows,
       total,
+      totalIsEstimate,
       page,
       pageSize,
       totalPages: Math.ceil(total / pageSize),
+      cursors: result.cursors,
     };
   }
 
+  async countRows(
+    table: string,
+    filters: FilterExpression | undefined,
+    timeoutMs: number,
+  ): Promise<number> {
+    const client = this.getClient();
+    const quotedTable = this.quoteIdentifier(table);
+    const { where, params } = this.compileFilter(filters);
+
+    const result = await client.query({
+      query: `SELECT count() as total FROM ${quotedTable} ${where}`,
+      query_params: params,
+      format: "JSONEachRow",
+      clickhouse_settings: { max_execution_time: Math.ceil(timeoutMs / 1000) },
+    });
+    const rows = (await result.json()) as { total: string | number }[];
+    return Number(rows[0]?.total || 0);
+  }
+
+  /**
+   * Build a WHERE clause; query parameters are typed from the filter value.
+   */
+  private compileFilter(
+    filters: FilterExpression | undefined,
+  ): { where: string; params: Record<string, unknown> } {
+    const filter = compileSqlFilter(filters, {
+      column: (name) => {
+        this.validateIdentifier(name);
+        return `\`${name}\``;
+      },
+      placeholder: (index, value) => {
+        const type =
+          typeof value === "number"
+            ? Number.isInteger(value) ? "Int64" : "Float64"
+            : typeof value === "boolean"
+            ? "Bool"
+            : value === null
+            ? "Nullable(String)"
+            : "String";
+        return `{filter_${index}:${type}}`;
+      },
+      asText: (column) => `toString(${column})`,
+      ilike: (column, pattern) => `${column} ILIKE ${pattern}`,
+      regex: (column, pattern) => `match(${column}, ${pattern})`,
+    });
+
+    const params: Record<string, unknown> = {};
+    filter.params.forEach((value, index) => {
+      params[`filter_${index}`] = value;
+    });
+    return { where: filter.where, params };
+  }
+
+  /**
+   * Rows in the table's active parts. Undefined for engines without parts
+   * (views, Memory, Log, ...), which are counted exactly.
+   */
+  private async getEstimatedRowCount(table: string): Promise<number | undefined> {
+    const client = this.getClient();
+    const result = await client.query({
+      query: `
+        SELECT count() as parts, sum(rows) as total
+        FROM system.parts
+        WHERE active AND database = currentDatabase() AND table = {table:String}
+      `,
+      query_params: { table },
+      format: "JSONEachRow",
+    });
+    const rows = (await result.json()) as { parts: string | number; total: string | number }[];
+    return Number(rows[0]?.parts) > 0 ? Number(rows[0].total) : undefined;
+  }
+
+  /**
+   * Seek key for keyset paging on MergeTree tables. ClickHouse primary keys
+   * aren't unique, so the part name and row offset within the part break ties.
+   * Also returns each key column's type for typed query parameters.
+   *
+   * The tie-breakers only hold between merges: a background merge replaces
+   * parts and renumbers their offsets, so a cursor taken before one can skip
+   * or repeat rows that share the sort and primary key values. Rows with
+   * distinct key values page correctly either way.
+   */
+  private async getKeysetKey(
+    table: string,
+    sort: SortKey[],
+  ): Promise<{ key: KeysetKey; types: Map<string, string> } | undefined> {
+    const client = this.getClient();
+
+    const result = await client.query({
+      query: `
+        SELECT c.name, c.type, c.is_in_primary_key, t.engine
+        FROM system.columns c
+        JOIN system.tables t ON t.database = c.database AND t.name = c.table
+        WHERE c.database = currentDatabase() AND c.table = {table:String}
+        ORDER BY c.position
+      `,
+      query_params: { table },
+      format: "JSONEachRow",
+    });
+    const rows = (await result.json()) as {
+      name: string;
+      type: string;
+      is_in_primary_key: number;
+      engine: string;
+    }[];
+
+    if (!rows[0]?.engine.endsWith("MergeTree")) return undefined;
+
+    // Query parameters can't be LowCardinality; the wrapped type compares the same
+    const types = new Map(
+      rows.map((row) => [row.name, row.type.replace(/^LowCardinality\((.*)\)$/, "$1")]),
+    );
+    types.set("_part", "String");
+    types.set("_part_offset", "UInt64");
+
+    const uniqueKey = [
+      ...rows.filter((row) => row.is_in_primary_key === 1).map((row) => row.name),
+      "_part",
+      "_part_offset",
+    ];
+    const key = keysetKey(uniqueKey, sort, (column) => types.get(column)?.startsWith("Nullable") ?? false);
+    return key && { key, types };
+  }
+
   async insertRow(
     table: string,
     data: Record<string, unknown>
@@ -317,15 +541,15 @@ export class ClickHouseAdapter extends BaseAdapter {
     );
   }
 
-  async executeQuery(query: string): Promise<QueryResult> {
-    const client = this.getClient();
+  async executeQuery(query: string, options: ExecuteQueryOptions = {}): Promise<QueryResult> {
+    const { queryId } = options;
     const startTime = Date.now();
 
+    const abort = new AbortController();
+    if (queryId) this.runningQueries.set(queryId, abort);
+
     try {
-      const result = await client.query({
-        query,
-        format: "JSONEachRow",
-      });
+      const result = await this.getClient().query(this.editorQueryParams(query, options, abort));
 
       const rows = (await result.json()) as Record<string, unknown>[];
       const executionTimeMs = Date.now() - startTime;
@@ -342,11 +566,122 @@ export class ClickHouseAdapter extends BaseAdapter {
         columns: [],
         rowCount: 0,
         executionTimeMs: Date.now() - startTime,
-        error: error instanceof Error ? error.message : "Query execution failed",
+        error: abort.signal.aborted
+          ? "Query cancelled"
+          : error instanceof Error ? error.message : "Query execution failed",
+        errorPosition: locateError(error, query),
       };
+    } finally {
+      if (queryId) this.runningQueries.delete(queryId);
+    }
+  }
+
+  async *streamQuery(query: string, options: StreamQueryOptions): AsyncGenerator<QueryBatch> {
+    const { queryId, batchSize } = options;
+
+    const abort = new AbortController();
+    if (queryId) this.runningQueries.set(queryId, abort);
+
+    let finished = false;
+    try {
+      const result = await this.getClient().query(this.editorQueryParams(query, options, abort));
+
+      // JSONEachRow chunks arrive as the server produces them; regroup into batches
+      let rows: Record<string, unknown>[] = [];
+      let yielded = false;
+      for await (const chunk of result.stream()) {
+        for (const row of chunk) {
+          rows.push(row.json<Record<string, unknown>>());
+          if (rows.length >= batchSize) {
+            yield { columns: Object.keys(rows[0]), rows };
+            rows = [];
+            yielded = true;
+          }
+        }
+      }
+      if (rows.length > 0 || !yielded) {
+        yield { columns: rows.length > 0 ? Object.keys(rows[0]) : [], rows };
+      }
+      finished = true;
+    } catch (error) {
+      throw abort.signal.aborted ? new Error("Query cancelled") : error;
+    } finally {
+      if (queryId) this.runningQueries.delete(queryId);
+      // Closed early: drop the HTTP response instead of reading the rest of it
+      if (!finished) abort.abort();
     }
   }
 
+  private editorQueryParams(query: string, options: ExecuteQueryOptions, abort: AbortController) {
+    // Placeholders become ClickHouse's own {name:Type} parameters
+    const params = options.params ?? {};
+    const queryParams: Record<string, unknown> = {};
+    const bound = replaceParameters(query, "sql", (name) => {
+      const param = params[name];
+      if (!param) throw new Error(`No value given for parameter "${name}"`);
+      queryParams[name] = param.value;
+      return `{${name}:${CLICKHOUSE_PARAM_TYPES[param.type](param.value)}}`;
+    }, "clickhouse");
+
+    return {
+      query: bound.query,
+      query_params: bound.names.length > 0 ? queryParams : undefined,
+      format: "JSONEachRow" as const,
+      query_id: options.queryId,
+      abort_signal: abort.signal,
+      clickhouse_settings:
+        options.timeoutMs !== undefined
+          ? { max_execution_time: Math.ceil(options.timeoutMs / 1000) }
+          : undefined,
+    };
+  }
+
+  /**
+   * The logical plan (EXPLAIN PLAN) as the tree, with the processor pipeline
+   * (EXPLAIN PIPELINE) alongside. ClickHouse has no ANALYZE; plans are
+   * never measured.
+   */
+  async explainQuery(query: string, options: ExplainOptions = {}): Promise<QueryPlan> {
+    const explain = async (prefix: string) => {
+      const abort = new AbortController();
+      if (options.queryId) this.runningQueries.set(options.queryId, abort);
+      try {
+        const result = await this.getClient().query({
+          ...this.editorQueryParams(prefix + query, options, abort),
+          format: "TabSeparatedRaw" as const,
+        });
+        return (await result.text()).trim();
+      } finally {
+        if (options.queryId) this.runningQueries.delete(options.queryId);
+      }
+    };
+
+    const plan = JSON.parse(await explain("EXPLAIN PLAN json = 1, indexes = 1 ")) as { Plan: ClickHousePlan }[];
+    const pipeline = await explain("EXPLAIN PIPELINE ");
+
+    return {
+      root: toPlanNode(plan[0].Plan),
+      analyzed: false,
+      outputs: [
+        { label: "Plan", text: JSON.stringify(plan, null, 2) },
+        { label: "Pipeline", text: pipeline },
+      ],
+    };
+  }
+
+  async cancelQuery(queryId: string): Promise<boolean> {
+    const abort = this.runningQueries.get(queryId);
+    if (!abort) return false;
+
+    // Aborting only closes the HTTP request; the server keeps going until it's killed
+    abort.abort();
+    await this.getClient().command({
+      query: "KILL QUERY WHERE query_id = {queryId:String} ASYNC",
+      query_params: { queryId },
+    });
+    return true;
+  }
+
   async getTableStats(table: string): Promise<TableStats> {
     const client = this.getClient();
     this.validateIdentifier(table);
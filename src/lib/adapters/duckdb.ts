@@ -0,0 +1,717 @@
+import fs from "fs";
+import path from "path";
+import {
+  DuckDBInstance,
+  DuckDBConnection,
+  DuckDBValue,
+  dateValue,
+} from "@duckdb/node-api";
+import {
+  BaseAdapter,
+  TableInfo,
+  ColumnInfo,
+  Relationship,
+  QueryOptions,
+  PaginatedResult,
+  QueryResult,
+  ExecuteQueryOptions,
+  ExplainOptions,
+  QueryPlan,
+  PlanNode,
+  TableStats,
+  IndexInfo,
+  AdapterCapabilities,
+  QueryParam,
+} from "./types";
+import { compileSqlFilter } from "./filters";
+import { locateError } from "./error-position";
+import { bindSqlParams } from "./params";
+import { planDetail, planNumber } from "./plans";
+import { duckdbEngine } from "../engines/duckdb";
+
+// File extensions exposed as views, mapped to the DuckDB reader for each
+const FILE_READERS: Record<string, (filePath: string) => string> = {
+  ".parquet": (p) => `read_parquet(${p})`,
+  ".csv": (p) => `read_csv_auto(${p})`,
+  ".tsv": (p) => `read_csv_auto(${p}, delim = '\t')`,
+  ".json": (p) => `read_json_auto(${p})`,
+  ".ndjson": (p) => `read_json_auto(${p}, format = 'newline_delimited')`,
+  ".jsonl": (p) => `read_json_auto(${p}, format = 'newline_delimited')`,
+};
+
+// Operator attributes shown on a plan node, in this order
+const PLAN_DETAIL_KEYS = ["Join Type", "Conditions", "Filters", "Groups", "Aggregates"];
+
+// A node of EXPLAIN (FORMAT JSON) output, or of the profile EXPLAIN ANALYZE returns
+interface DuckDBPlan {
+  name?: string;
+  operator_name?: string;
+  // Seconds spent in this operator alone (analyzed plans)
+  operator_timing?: number;
+  operator_cardinality?: number;
+  extra_info?: Record<string, unknown>;
+  children?: DuckDBPlan[];
+}
+
+/**
+ * Map a plan or profile node. DuckDB times each operator on its own; the
+ * children's time is added so totalTimeMs includes them like other engines.
+ */
+function toPlanNode(plan: DuckDBPlan): PlanNode {
+  const { children = [], ...properties } = plan;
+  const extra = plan.extra_info ?? {};
+  const operation = (plan.operator_name ?? plan.name ?? "UNKNOWN").trim();
+  const nodes = children.map(toPlanNode);
+  const selfTime = planNumber(plan.operator_timing);
+
+  return {
+    operation,
+    relation: extra.Table ? String(extra.Table) : undefined,
+    detail: planDetail(extra, PLAN_DETAIL_KEYS),
+    estimatedRows: planNumber(extra["Estimated Cardinality"]),
+    actualRows: planNumber(plan.operator_cardinality),
+    totalTimeMs:
+      selfTime !== undefined
+        ? selfTime * 1000 + nodes.reduce((sum, node) => sum + (node.totalTimeMs ?? 0), 0)
+        : undefined,
+    fullScan: operation === "SEQ_SCAN" || operation === "TABLE_SCAN",
+    properties: { ...properties, ...extra },
+    children: nodes,
+  };
+}
+
+export class DuckDBAdapter extends BaseAdapter {
+  private instance: DuckDBInstance | null = null;
+  private connection: DuckDBConnection | null = null;
+  // View name -> absolute path of the file it reads
+  private fileViews = new Map<string, string>();
+
+  // Views over export files are read-only and DuckDB is built for bulk
+  // analytics, so the studio treats it as append-only like ClickHouse
+  readonly capabilities: AdapterCapabilities = duckdbEngine.capabilities;
+
+  /**
+   * Parse a DuckDB connection string.
+   *
+   * Formats:
+   *  - duckdb:///abs/path/warehouse.duckdb
+   *  - duckdb://:memory:
+   *  - duckdb://:memory:?files=/data/exports  (expose files in a directory as views)
+   *
+   * `?access_mode=read_only` opens the database file read-only.
+   */
+  private parseConnectionString(connectionString: string): {
+    databasePath: string;
+    filesDir?: string;
+    readOnly: boolean;
+  } {
+    let rest = connectionString.trim();
+    if (rest.startsWith("duckdb://")) {
+      rest = rest.slice("duckdb://".length);
+    } else if (rest.startsWith("duckdb:")) {
+      rest = rest.slice("duckdb:".length);
+    }
+
+    const queryIndex = rest.indexOf("?");
+    const params = new URLSearchParams(queryIndex >= 0 ? rest.slice(queryIndex + 1) : "");
+    const databasePath = decodeURIComponent(queryIndex >= 0 ? rest.slice(0, queryIndex) : rest) || ":memory:";
+
+    return {
+      databasePath,
+      filesDir: params.get("files") || undefined,
+      readOnly: (params.get("access_mode") || "").toLowerCase() === "read_only",
+    };
+  }
+
+  private isMemoryDatabase(databasePath: string): boolean {
+    return databasePath === ":memory:";
+  }
+
+  private async openInstance(readOnlyOverride?: boolean): Promise<DuckDBInstance> {
+    const { databasePath, filesDir, readOnly } =
+      this.parseConnectionString(this.connectionString);
+
+    // Refuse to silently create an empty database for a mistyped path
+    if (!this.isMemoryDatabase(databasePath) && !fs.existsSync(databasePath)) {
+      throw new Error(`DuckDB database file not found: ${databasePath}`);
+    }
+    if (filesDir && !fs.statSync(filesDir, { throwIfNoEntry: false })?.isDirectory()) {
+      throw new Error(`Files directory not found: ${filesDir}`);
+    }
+
+    const accessReadOnly = (readOnlyOverride ?? readOnly) && !this.isMemoryDatabase(databasePath);
+    return DuckDBInstance.create(
+      databasePath,
+      accessReadOnly ? { access_mode: "READ_ONLY" } : undefined,
+    );
+  }
+
+  async connect(): Promise<void> {
+    try {
+      this.instance = await this.openInstance();
+      this.connection = await this.instance.connect();
+
+      await this.registerFileViews();
+      this.connected = true;
+    } catch (error) {
+      this.connected = false;
+      this.closeHandles();
+      throw error;
+    }
+  }
+
+  /**
+   * Create a TEMP view for every supported file in the configured directory.
+   * Temp views never touch the .duckdb file, so read-only databases work too.
+   */
+  private async registerFileViews(): Promise<void> {
+    const { filesDir } = this.parseConnectionString(this.connectionString);
+    this.fileViews.clear();
+    if (!filesDir) return;
+
+    const connection = this.getConnection();
+    const entries = fs.readdirSync(filesDir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+      const ext = path.extname(entry.name).toLowerCase();
+      const reader = FILE_READERS[ext];
+      if (!reader) continue;
+
+      const viewName = this.uniqueViewName(path.basename(entry.name, path.extname(entry.name)));
+      const absolutePath = path.resolve(filesDir, entry.name);
+
+      try {
+        await connection.run(
+          `CREATE OR REPLACE TEMP VIEW "${viewName}" AS SELECT * FROM ${reader(this.quoteLiteral(absolutePath))}`,
+        );
+        this.fileViews.set(viewName, absolutePath);
+      } catch (error) {
+        // A single unreadable file should not prevent connecting
+        console.error(`Skipping ${entry.name}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Turn a file name into a valid, unique identifier.
+   * "orders-2024.01" -> "orders_2024_01"
+   */
+  private uniqueViewName(baseName: string): string {
+    let name = baseName.replace(/[^a-zA-Z0-9_]/g, "_");
+    if (!/^[a-zA-Z_]/.test(name)) name = `_${name}`;
+
+    let candidate = name;
+    let suffix = 2;
+    while (this.fileViews.has(candidate)) {
+      candidate = `${name}_${suffix++}`;
+    }
+    return candidate;
+  }
+
+  private closeHandles(): void {
+    this.connection?.closeSync();
+    this.instance?.closeSync();
+    this.connection = null;
+    this.instance = null;
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.instance) {
+      this.closeHandles();
+      this.fileViews.clear();
+      this.connected = false;
+    }
+  }
+
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    let testInstance: DuckDBInstance | null = null;
+    try {
+      const { filesDir } = this.parseConnectionString(this.connectionString);
+      testInstance = await this.openInstance(true);
+      const testConnection = await testInstance.connect();
+
+      const reader = await testConnection.runAndReadAll("SELECT version() as version");
+      const version = String(reader.getRowObjectsJson()[0]?.version ?? "unknown");
+
+      testConnection.closeSync();
+      testInstance.closeSync();
+
+      return {
+        success: true,
+        message: filesDir
+          ? `Connected to DuckDB ${version} (files from ${filesDir})`
+          : `Connected to DuckDB ${version}`,
+      };
+    } catch (error) {
+      testInstance?.closeSync();
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "Connection failed",
+      };
+    }
+  }
+
+  /**
+   * Lightweight health check using existing connection (no new connections).
+   */
+  async ping(): Promise<boolean> {
+    if (!this.connection) return false;
+    try {
+      await this.connection.run("SELECT 1");
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private getConnection(): DuckDBConnection {
+    if (!this.connection) {
+      throw new Error("Database not connected. Call connect() first.");
+    }
+    return this.connection;
+  }
+
+  private validateIdentifier(name: string): void {
+    // Allow alphanumeric, underscore, and dot (for schema.table format)
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)?$/.test(name)) {
+      throw new Error(`Invalid identifier: ${name}`);
+    }
+  }
+
+  private quoteIdentifier(name: string): string {
+    this.validateIdentifier(name);
+    return name
+      .split(".")
+      .map((part) => `"${part}"`)
+      .join(".");
+  }
+
+  private quoteLiteral(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+
+  /**
+   * Run a query and return JSON-safe row objects
+   * (BIGINT/HUGEINT/DECIMAL come back as strings, dates as ISO strings).
+   */
+  private async queryRows<T = Record<string, unknown>>(
+    sql: string,
+    values?: DuckDBValue[],
+  ): Promise<T[]> {
+    const reader = await this.getConnection().runAndReadAll(sql, values);
+    return reader.getRowObjectsJson() as T[];
+  }
+
+  /**
+   * Convert JS values into DuckDB bind values.
+   * Objects and arrays are bound as JSON text.
+   */
+  private toBindValue(value: unknown): DuckDBValue {
+    if (value === undefined || value === null) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === "object") return JSON.stringify(value);
+    return value as DuckDBValue;
+  }
+
+  /**
+   * Convert an editor query parameter into a DuckDB bind value.
+   * Dates are bound as DATE so they compare against DATE columns.
+   */
+  private toParamValue(param: QueryParam): DuckDBValue {
+    if (param.type !== "date") return param.value;
+    const [year, month, day] = param.value.split("-").map(Number);
+    return dateValue({ year, month, day });
+  }
+
+  /**
+   * Parse the value list out of an ENUM type.
+   * "ENUM('a', 'it''s')" -> ["a", "it's"]
+   */
+  private parseEnumValues(dataType: string): string[] | undefined {
+    const match = dataType.match(/^ENUM\((.*)\)$/i);
+    if (!match) return undefined;
+
+    const values: string[] = [];
+    const valueRegex = /'((?:[^']|'')*)'/g;
+    let valueMatch: RegExpExecArray | null;
+    while ((valueMatch = valueRegex.exec(match[1])) !== null) {
+      values.push(valueMatch[1].replace(/''/g, "'"));
+    }
+    return values;
+  }
+
+  async getTables(): Promise<TableInfo[]> {
+    const tables = await this.queryRows<{
+      name: string;
+      schema: string;
+      row_count: string | number;
+    }>(`
+      SELECT table_name as name, schema_name as schema, estimated_size as row_count
+      FROM duckdb_tables()
+      WHERE database_name = current_database() AND NOT internal
+    `);
+
+    const views = await this.queryRows<{ name: string; schema: string }>(`
+      SELECT view_name as name, schema_name as schema
+      FROM duckdb_views()
+      WHERE database_name IN (current_database(), 'temp') AND NOT internal
+    `);
+
+    const result: TableInfo[] = [
+      ...tables.map((row) => ({
+        name: row.name,
+        schema: row.schema,
+        type: "table" as const,
+        rowCount: Number(row.row_count) || 0,
+        sizeBytes: 0, // DuckDB does not report per-table storage size
+      })),
+      ...views.map((row) => {
+        const filePath = this.fileViews.get(row.name);
+        return {
+          name: row.name,
+          schema: row.schema,
+          type: "view" as const,
+          sizeBytes: filePath ? fs.statSync(filePath, { throwIfNoEntry: false })?.size ?? 0 : 0,
+        };
+      }),
+    ];
+
+    return result.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getTableSchema(tableName: string): Promise<ColumnInfo[]> {
+    this.validateIdentifier(tableName);
+    const name = tableName.split(".").pop()!;
+
+    const columns = await this.queryRows<{
+      name: string;
+      type: string;
+      nullable: boolean;
+      default_value: string | null;
+    }>(
+      `
+      SELECT column_name as name, data_type as type, is_nullable as nullable, column_default as default_value
+      FROM duckdb_columns()
+      WHERE table_name = ? AND database_name IN (current_database(), 'temp')
+      ORDER BY column_index
+    `,
+      [name],
+    );
+
+    const primaryKeyConstraints = await this.queryRows<{ constraint_column_names: string[] }>(
+      `
+      SELECT constraint_column_names
+      FROM duckdb_constraints()
+      WHERE table_name = ? AND constraint_type = 'PRIMARY KEY'
+    `,
+      [name],
+    );
+
+    const primaryKeys = new Set(
+      primaryKeyConstraints.flatMap((constraint) => constraint.constraint_column_names),
+    );
+    const foreignKeys = this.foreignKeyRefs(await this.getForeignKeys(name));
+
+    return columns.map((col) => ({
+      name: col.name,
+      type: col.type,
+      nullable: col.nullable,
+      isPrimaryKey: primaryKeys.has(col.name),
+      isForeignKey: foreignKeys.has(col.name),
+      defaultValue: col.default_value ?? undefined,
+      foreignKeyRef: foreignKeys.get(col.name),
+      enumValues: this.parseEnumValues(col.type),
+    }));
+  }
+
+  async getRelationships(): Promise<Relationship[]> {
+    return this.getForeignKeys();
+  }
+
+  /**
+   * Foreign keys of one table, or of every table in the current database.
+   * duckdb_constraints() lists each constraint's columns as ordered arrays.
+   */
+  private async getForeignKeys(table?: string): Promise<Relationship[]> {
+    const constraints = await this.queryRows<{
+      constraint_name: string;
+      table_name: string;
+      constraint_column_names: string[];
+      referenced_table: string;
+      referenced_column_names: string[];
+    }>(
+      `
+      SELECT constraint_name, table_name, constraint_column_names, referenced_table, referenced_column_names
+      FROM duckdb_constraints()
+      WHERE constraint_type = 'FOREIGN KEY' AND database_name = current_database()
+      ${table ? "AND table_name = ?" : ""}
+    `,
+      table ? [table] : [],
+    );
+
+    return this.groupForeignKeys(
+      constraints.flatMap((constraint) =>
+        constraint.constraint_column_names.map((col, i) => ({
+          constraintName: constraint.constraint_name,
+          sourceTable: constraint.table_name,
+          sourceColumn: col,
+          targetTable: constraint.referenced_table,
+          targetColumn: constraint.referenced_column_names[i],
+        })),
+      ),
+    );
+  }
+
+  async getRows(
+    table: string,
+    options: QueryOptions
+  ): Promise<PaginatedResult> {
+    const { page, pageSize, sort, filters } = options;
+    const offset = (page - 1) * pageSize;
+
+    const quotedTable = this.quoteIdentifier(table);
+
+    // Build WHERE clause
+    const filter = compileSqlFilter(filters, {
+      column: (name) => {
+        this.validateIdentifier(name);
+        return `"${name}"`;
+      },
+      placeholder: () => "?",
+      // DuckDB has no implicit casts to VARCHAR
+      asText: (column) => `CAST(${column} AS VARCHAR)`,
+      ilike: (column, pattern) => `${column} ILIKE ${pattern} ESCAPE '\\'`,
+      regex: (column, pattern) => `regexp_matches(${column}, ${pattern})`,
+      likeEscape: " ESCAPE '\\'",
+    });
+    const whereClause = filter.where;
+    const params: DuckDBValue[] = filter.params.map((value) => this.toBindValue(value));
+
+    // Get count
+    const countRows = await this.queryRows<{ total: string | number }>(
+      `SELECT count(*) as total FROM ${quotedTable} ${whereClause}`,
+      params,
+    );
+    const total = Number(countRows[0]?.total || 0);
+
+    // Build ORDER BY clause
+    const orderClause = this.orderByClause(sort, (name) => {
+      this.validateIdentifier(name);
+      return `"${name}"`;
+    });
+
+    // Get data with pagination
+    const data = await this.queryRows(
+      `
+        SELECT * FROM ${quotedTable}
+        ${whereClause}
+        ${orderClause}
+        LIMIT ? OFFSET ?
+      `,
+      [...params, pageSize, offset],
+    );
+
+    return {
+      data,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    };
+  }
+
+  async insertRow(
+    table: string,
+    data: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    const quotedTable = this.quoteIdentifier(table);
+    if (this.fileViews.has(table)) {
+      throw new Error(`${table} is a read-only view over ${path.basename(this.fileViews.get(table)!)}`);
+    }
+
+    const columns = Object.keys(data);
+    columns.forEach((col) => this.validateIdentifier(col));
+
+    const rows = await this.queryRows(
+      `
+        INSERT INTO ${quotedTable} (${columns.map((c) => `"${c}"`).join(", ")})
+        VALUES (${columns.map(() => "?").join(", ")})
+        RETURNING *
+      `,
+      columns.map((col) => this.toBindValue(data[col])),
+    );
+
+    return rows[0] ?? data;
+  }
+
+  async updateRow(): Promise<Record<string, unknown>> {
+    throw new Error(
+      "DuckDB tables are append-only in DB Studio. Use an UPDATE statement in the query editor instead."
+    );
+  }
+
+  async deleteRow(): Promise<boolean> {
+    throw new Error(
+      "DuckDB tables are append-only in DB Studio. Use a DELETE statement in the query editor instead."
+    );
+  }
+
+  async executeQuery(query: string, options: ExecuteQueryOptions = {}): Promise<QueryResult> {
+    const startTime = Date.now();
+
+    try {
+      const bound = bindSqlParams(query, "numbered", options.params, "duckdb");
+      const reader = bound.values.length
+        ? await this.getConnection().runAndReadAll(bound.query, bound.values.map((param) => this.toParamValue(param)))
+        : await this.getConnection().runAndReadAll(query);
+      const rows = reader.getRowObjectsJson() as Record<string, unknown>[];
+      const executionTimeMs = Date.now() - startTime;
+
+      return {
+        rows,
+        columns: reader.columnNames(),
+        rowCount: rows.length,
+        executionTimeMs,
+      };
+    } catch (error) {
+      return {
+        rows: [],
+        columns: [],
+        rowCount: 0,
+        executionTimeMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : "Query execution failed",
+        errorPosition: locateError(error, query),
+      };
+    }
+  }
+
+  async explainQuery(query: string, options: ExplainOptions = {}): Promise<QueryPlan> {
+    // The editor shares one connection, so an analyzed write can't be rolled back on its own
+    if (options.analyze && duckdbEngine.isWriteQuery(query)) {
+      throw new Error("DuckDB can only analyze read queries");
+    }
+
+    const bound = bindSqlParams(query, "numbered", options.params, "duckdb");
+    const reader = await this.getConnection().runAndReadAll(
+      `EXPLAIN (${options.analyze ? "ANALYZE, " : ""}FORMAT JSON) ${bound.query}`,
+      bound.values.map((param) => this.toParamValue(param)),
+    );
+    const [row] = reader.getRowObjectsJson() as { explain_value: string }[];
+    const output = JSON.parse(row.explain_value);
+
+    if (!options.analyze) {
+      return {
+        root: toPlanNode((output as DuckDBPlan[])[0]),
+        analyzed: false,
+        outputs: [{ label: "JSON", text: JSON.stringify(output, null, 2) }],
+      };
+    }
+
+    // The profile's root is the query; its only child the EXPLAIN_ANALYZE operator
+    const profile = output as DuckDBPlan & { latency?: number };
+    let root = profile.children?.[0] ?? profile;
+    if (root.operator_name === "EXPLAIN_ANALYZE" && root.children?.[0]) root = root.children[0];
+
+    return {
+      root: toPlanNode(root),
+      analyzed: true,
+      executionTimeMs: profile.latency !== undefined ? profile.latency * 1000 : undefined,
+      outputs: [{ label: "Profile", text: JSON.stringify(output, null, 2) }],
+    };
+  }
+
+  async getTableStats(table: string): Promise<TableStats> {
+    this.validateIdentifier(table);
+    const name = table.split(".").pop()!;
+
+    const filePath = this.fileViews.get(name);
+    if (filePath) {
+      const stat = fs.statSync(filePath, { throwIfNoEntry: false });
+      let rowCount = 0;
+      // Parquet footers carry row counts, so this does not scan the file
+      if (filePath.toLowerCase().endsWith(".parquet")) {
+        const rows = await this.queryRows<{ total: string | number }>(
+          `SELECT count(*) as total FROM ${this.quoteIdentifier(name)}`,
+        );
+        rowCount = Number(rows[0]?.total || 0);
+      }
+      return {
+        rowCount,
+        sizeBytes: stat?.size ?? 0,
+        indexCount: 0,
+        lastModified: stat?.mtime,
+      };
+    }
+
+    const [tableRows, indexRows] = await Promise.all([
+      this.queryRows<{ row_count: string | number }>(
+        `SELECT estimated_size as row_count FROM duckdb_tables() WHERE table_name = ? AND database_name = current_database()`,
+        [name],
+      ),
+      this.queryRows<{ index_count: string | number }>(
+        `SELECT count(*) as index_count FROM duckdb_indexes() WHERE table_name = ? AND database_name = current_database()`,
+        [name],
+      ),
+    ]);
+
+    return {
+      rowCount: Number(tableRows[0]?.row_count || 0),
+      sizeBytes: 0,
+      indexCount: Number(indexRows[0]?.index_count || 0),
+    };
+  }
+
+  async getIndexInfo(table: string): Promise<IndexInfo[]> {
+    this.validateIdentifier(table);
+    const name = table.split(".").pop()!;
+
+    const rows = await this.queryRows<{
+      name: string;
+      is_unique: boolean;
+      is_primary: boolean;
+      expressions: string;
+    }>(
+      `
+      SELECT index_name as name, is_unique, is_primary, expressions
+      FROM duckdb_indexes()
+      WHERE table_name = ? AND database_name = current_database()
+    `,
+      [name],
+    );
+
+    return rows.map((row) => ({
+      name: row.name,
+      // expressions is rendered as "[col_a, col_b]"
+      columns: row.expressions
+        .replace(/^\[|\]$/g, "")
+        .split(",")
+        .map((expr) => expr.trim())
+        .filter(Boolean),
+      isUnique: row.is_unique,
+      isPrimary: row.is_primary,
+      type: "art", // DuckDB indexes are Adaptive Radix Trees
+    }));
+  }
+
+  async getDatabaseStats(): Promise<{
+    totalSize: number;
+    tableCount: number;
+    version: string;
+  }> {
+    const [sizeRows, tables, versionRows] = await Promise.all([
+      this.queryRows<{ block_size: string | number; used_blocks: string | number }>(
+        `SELECT block_size, used_blocks FROM pragma_database_size() WHERE database_name = current_database()`,
+      ),
+      this.getTables(),
+      this.queryRows<{ version: string }>("SELECT version() as version"),
+    ]);
+
+    const sizeRow = sizeRows[0];
+    return {
+      totalSize: Number(sizeRow?.block_size || 0) * Number(sizeRow?.used_blocks || 0),
+      tableCount: tables.length,
+      version: `DuckDB ${versionRows[0]?.version || "unknown"}`,
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { ErrorPosition } from "./types";
+
+/**
+ * Find where a query error points, from the driver error or its message.
+ * Positions are relative to the query text that was sent; the editor maps
+ * them back to the buffer.
+ */
+
+// Cassandra: "line 1:7 no viable alternative at input 'FRO'" (0-based column)
+const CQL_LINE_COLUMN = /\bline (\d+):(\d+)\b/;
+// ClickHouse: "Syntax error: failed at position 10 (line 1, col 10)" or just the offset
+const CLICKHOUSE_LINE_COLUMN = /failed at position \d+ \(line (\d+), col (\d+)\)/;
+const CLICKHOUSE_OFFSET = /failed at position (\d+)/;
+// MySQL: "... near 'FRO users' at line 1"; the quoted text is the rest of the query
+const MYSQL_NEAR = /near '([\s\S]*)' at line (\d+)/;
+// DuckDB: "LINE 1: SELECT * FRO users\n                 ^"
+const DUCKDB_CARET = /\n(LINE (\d+): )(.*)\n( *)\^/;
+// SQLite: 'near "FRO": syntax error'
+const SQLITE_NEAR = /near "([^"]+)": syntax error/;
+
+/**
+ * Line and column of a 1-based character offset.
+ */
+export function offsetToPosition(query: string, offset: number): ErrorPosition {
+  const lines = query.slice(0, Math.max(0, offset - 1)).split("\n");
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+function lineStart(query: string, line: number): number {
+  let offset = 0;
+  for (let i = 1; i < line && offset !== -1; i++) {
+    offset = query.indexOf("\n", offset);
+    if (offset !== -1) offset++;
+  }
+  return Math.max(0, offset);
+}
+
+// Position of `text` in the query, searching from the start of `line`
+function findText(query: string, text: string, line = 1): ErrorPosition | undefined {
+  const index = text ? query.indexOf(text, lineStart(query, line)) : -1;
+  return index === -1 ? undefined : offsetToPosition(query, index + 1);
+}
+
+export function locateError(error: unknown, query: string): ErrorPosition | undefined {
+  if (!(error instanceof Error)) return undefined;
+
+  // PostgreSQL reports a 1-based character offset on the error itself
+  const { position } = error as Error & { position?: string };
+  if (position && /^\d+$/.test(position)) {
+    return offsetToPosition(query, Number(position));
+  }
+
+  const message = error.message;
+  let match: RegExpExecArray | null;
+
+  if ((match = CLICKHOUSE_LINE_COLUMN.exec(message))) {
+    return { line: Number(match[1]), column: Number(match[2]) };
+  }
+  if ((match = CLICKHOUSE_OFFSET.exec(message))) {
+    return offsetToPosition(query, Number(match[1]));
+  }
+  if ((match = MYSQL_NEAR.exec(message))) {
+    const line = Number(match[2]);
+    // At the end of the query MySQL reports near ''
+    if (!match[1]) return offsetToPosition(query, query.trimEnd().length + 1);
+    return findText(query, match[1].split("\n")[0], line) ?? { line, column: 1 };
+  }
+  if ((match = DUCKDB_CARET.exec(message))) {
+    const line = Number(match[2]);
+    // Long lines are shown as a window starting with "...", so only the line is known
+    if (match[3].startsWith("...")) return { line, column: 1 };
+    return { line, column: match[4].length - match[1].length + 1 };
+  }
+  if ((match = CQL_LINE_COLUMN.exec(message))) {
+    return { line: Number(match[1]), column: Number(match[2]) + 1 };
+  }
+  if ((match = SQLITE_NEAR.exec(message))) {
+    return findText(query, match[1]);
+  }
+
+  return undefined;
+}
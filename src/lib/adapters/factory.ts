@@ -1,17 +1,23 @@
 import 'server-only';
 
 import { DatabaseAdapter, DatabaseType, SSHTunnelConfig } from './types';
+import { getEngine, isDatabaseType } from '../engines';
 import { PostgresAdapter } from './postgres';
 import { MongoDBAdapter } from './mongodb';
 import { ClickHouseAdapter } from './clickhouse';
 import { RedisAdapter } from './redis';
+import { SQLiteAdapter } from './sqlite';
+import { MySQLAdapter } from './mysql';
+import { DuckDBAdapter } from './duckdb';
+import { ElasticsearchAdapter } from './elasticsearch';
+import { CassandraAdapter } from './cassandra';
 import { SSHTunnel } from './tunnel';
 import { schemaCache } from '../cache';
+import { closeConnectionStreams } from '../query-streams';
 import {
   redirectToTunnel,
   parseHostname,
   parsePort,
-  DB_DEFAULT_PORTS,
 } from '../utils/connection-string';
 
 // Persist caches on globalThis so they survive HMR recompilation in dev mode.
@@ -19,24 +25,34 @@ import {
 const globalForAdapters = globalThis as unknown as {
   __adapterCache?: Map<string, DatabaseAdapter>;
   __tunnelCache?: Map<string, SSHTunnel>;
+  __adapterTypes?: Map<string, DatabaseType>;
 };
 
 const adapterCache = (globalForAdapters.__adapterCache ??= new Map<string, DatabaseAdapter>());
 const tunnelCache = (globalForAdapters.__tunnelCache ??= new Map<string, SSHTunnel>());
+const adapterTypes = (globalForAdapters.__adapterTypes ??= new Map<string, DatabaseType>());
+
+/**
+ * Adapter class for each registered engine. Engine metadata lives in src/lib/engines
+ * (client-safe); this map is the only server-side piece of a new engine.
+ */
+const ADAPTERS: Record<DatabaseType, new (connectionString: string) => DatabaseAdapter> = {
+  postgresql: PostgresAdapter,
+  mongodb: MongoDBAdapter,
+  clickhouse: ClickHouseAdapter,
+  redis: RedisAdapter,
+  sqlite: SQLiteAdapter,
+  mysql: MySQLAdapter,
+  duckdb: DuckDBAdapter,
+  elasticsearch: ElasticsearchAdapter,
+  cassandra: CassandraAdapter,
+};
 
 export function createAdapter(type: DatabaseType, connectionString: string): DatabaseAdapter {
-  switch (type) {
-    case 'postgresql':
-      return new PostgresAdapter(connectionString);
-    case 'mongodb':
-      return new MongoDBAdapter(connectionString);
-    case 'clickhouse':
-      return new ClickHouseAdapter(connectionString);
-    case 'redis':
-      return new RedisAdapter(connectionString);
-    default:
-      throw new Error(`Unsupported database type: ${type}`);
+  if (!isDatabaseType(type)) {
+    throw new Error(`Unsupported database type: ${type}`);
   }
+  return new ADAPTERS[type](connectionString);
 }
 
 /**
@@ -78,7 +94,7 @@ export async function setupTunnel(
   }
 
   const remoteHost = sshConfig.remoteHost || parseHostname(connectionString);
-  const remotePort = sshConfig.remotePort || parsePort(connectionString, DB_DEFAULT_PORTS[type] ?? 5432);
+  const remotePort = sshConfig.remotePort || parsePort(connectionString, getEngine(type).defaultPort ?? 5432);
 
   const tunnel = new SSHTunnel({ ...sshConfig, remoteHost, remotePort });
   const localPort = await tunnel.connect();
@@ -105,6 +121,7 @@ export async function getOrCreateAdapter(
 
   const adapter = createAdapter(type, effectiveConnectionString);
   adapterCache.set(id, adapter);
+  adapterTypes.set(id, type);
   return adapter;
 }
 
@@ -112,11 +129,22 @@ export function getCachedAdapter(id: string): DatabaseAdapter | undefined {
   return adapterCache.get(id);
 }
 
+/**
+ * Engine type of a cached adapter, for per-engine behavior in API routes.
+ */
+export function getCachedAdapterType(id: string): DatabaseType | undefined {
+  return adapterTypes.get(id);
+}
+
 export async function removeAdapter(id: string): Promise<void> {
+  // Parked result cursors hold connections of this adapter
+  await closeConnectionStreams(id);
+
   const adapter = adapterCache.get(id);
   if (adapter) {
     await adapter.disconnect();
     adapterCache.delete(id);
+    adapterTypes.delete(id);
     // Clear cached schema data for this connection
     schemaCache.clearConnection(id);
   }
@@ -130,11 +158,14 @@ export async function removeAdapter(id: string): Promise<void> {
 }
 
 export async function clearAllAdapters(): Promise<void> {
+  await Promise.all(Array.from(adapterCache.keys()).map(closeConnectionStreams));
+
   const disconnectPromises = Array.from(adapterCache.values()).map((adapter) =>
     adapter.disconnect().catch(console.error)
   );
   await Promise.all(disconnectPromises);
   adapterCache.clear();
+  adapterTypes.clear();
 
   const tunnelPromises = Array.from(tunnelCache.values()).map((tunnel) =>
     tunnel.close().catch(console.error)
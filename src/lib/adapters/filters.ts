@@ -0,0 +1,237 @@
+import { FilterCondition, FilterExpression, FilterGroup, FilterValue } from "./types";
+
+/**
+ * Helpers for compiling `QueryOptions.filters` into each engine's query language.
+ * The filter AST itself lives in ./types and is validated by FilterExpressionSchema.
+ */
+
+export function isFilterGroup(filter: FilterExpression): filter is FilterGroup {
+  return "type" in filter;
+}
+
+/**
+ * AND of column = value conditions — e.g. every column of a followed foreign key.
+ * A null value matches NULL.
+ */
+export function equalsAll(values: Record<string, unknown>): FilterGroup {
+  return {
+    type: "and",
+    filters: Object.entries(values).map(([column, value]) => ({
+      column,
+      op: "eq" as const,
+      value: value as FilterValue,
+    })),
+  };
+}
+
+/** Every condition in the expression, depth first. */
+export function filterConditions(filter: FilterExpression | undefined): FilterCondition[] {
+  if (!filter) return [];
+  return isFilterGroup(filter) ? filter.filters.flatMap(filterConditions) : [filter];
+}
+
+/** Escape LIKE wildcards so the value matches literally (backslash escape). */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+/** Convert a SQL LIKE pattern (% and _, backslash escapes) to an anchored RegExp. */
+export function likeToRegExp(pattern: string, caseInsensitive = false): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\" && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    } else if (ch === "%") {
+      source += ".*";
+    } else if (ch === "_") {
+      source += ".";
+    } else {
+      source += ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, caseInsensitive ? "is" : "s");
+}
+
+/** Escape glob metacharacters (Redis MATCH patterns) so the value matches literally. */
+export function escapeGlob(value: string): string {
+  return value.replace(/[\\*?[\]^]/g, (ch) => `\\${ch}`);
+}
+
+/** Convert a SQL LIKE pattern (% and _, backslash escapes) to a glob. */
+export function likeToGlob(pattern: string): string {
+  let glob = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\" && i + 1 < pattern.length) {
+      glob += escapeGlob(pattern[++i]);
+    } else if (ch === "%") {
+      glob += "*";
+    } else if (ch === "_") {
+      glob += "?";
+    } else {
+      glob += escapeGlob(ch);
+    }
+  }
+  return glob;
+}
+
+/**
+ * A glob that every value matching the filter on `column` also matches, from
+ * an eq, like or contains condition (the first one of an AND group). Undefined
+ * when there is none; other conditions still need matchesFilter().
+ */
+export function filterToGlob(filter: FilterExpression, column: string): string | undefined {
+  if (isFilterGroup(filter)) {
+    if (filter.type === "or" && filter.filters.length !== 1) return undefined;
+    for (const child of filter.filters) {
+      const glob = filterToGlob(child, column);
+      if (glob !== undefined) return glob;
+    }
+    return undefined;
+  }
+
+  if (filter.column !== column) return undefined;
+  switch (filter.op) {
+    case "eq":
+      return typeof filter.value === "string" ? escapeGlob(filter.value) : undefined;
+    case "like":
+      return likeToGlob(filter.value);
+    case "contains":
+      return `*${escapeGlob(filter.value)}*`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Evaluate a filter against an in-memory record. Used where the engine has
+ * no server-side predicate language (e.g. Redis key names).
+ */
+export function matchesFilter(record: Record<string, unknown>, filter: FilterExpression): boolean {
+  if (isFilterGroup(filter)) {
+    return filter.type === "and"
+      ? filter.filters.every((child) => matchesFilter(record, child))
+      : filter.filters.some((child) => matchesFilter(record, child));
+  }
+
+  const actual = record[filter.column];
+  const isNull = actual === null || actual === undefined;
+  const compare = (expected: FilterValue) =>
+    typeof actual === "number" && typeof expected === "number"
+      ? actual - expected
+      : String(actual).localeCompare(String(expected));
+
+  switch (filter.op) {
+    case "eq":
+      return filter.value === null ? isNull : !isNull && compare(filter.value) === 0;
+    case "ne":
+      return filter.value === null ? !isNull : isNull || compare(filter.value) !== 0;
+    case "lt":
+      return !isNull && compare(filter.value) < 0;
+    case "lte":
+      return !isNull && compare(filter.value) <= 0;
+    case "gt":
+      return !isNull && compare(filter.value) > 0;
+    case "gte":
+      return !isNull && compare(filter.value) >= 0;
+    case "in":
+      return !isNull && filter.value.some((value) => value !== null && compare(value) === 0);
+    case "nin":
+      return isNull || filter.value.every((value) => value === null || compare(value) !== 0);
+    case "like":
+    case "ilike":
+      return !isNull && likeToRegExp(filter.value, filter.op === "ilike").test(String(actual));
+    case "contains":
+      return !isNull && String(actual).includes(filter.value);
+    case "regex":
+      // A user-supplied pattern run against every record is a ReDoS risk
+      throw new Error("Regular expression filters are not supported here");
+    case "isNull":
+      return isNull;
+    case "isNotNull":
+      return !isNull;
+    case "between":
+      return !isNull && compare(filter.value[0]) >= 0 && compare(filter.value[1]) <= 0;
+  }
+}
+
+export interface SqlFilterDialect {
+  // Validated, quoted column reference
+  column(name: string): string;
+  // Placeholder for the index-th bound value (0-based)
+  placeholder(index: number, value: FilterValue): string;
+  // Column cast for pattern operators on non-text columns
+  asText?(column: string): string;
+  // Defaults to LOWER(column) LIKE LOWER(pattern)
+  ilike?(column: string, pattern: string): string;
+  regex(column: string, pattern: string): string;
+  // Appended to LIKE when backslash isn't the default escape character
+  likeEscape?: string;
+}
+
+/**
+ * Compile a filter into a parameterized WHERE clause. Values are always bound,
+ * never inlined; `params` are in placeholder order.
+ */
+export function compileSqlFilter(
+  filter: FilterExpression | undefined,
+  dialect: SqlFilterDialect,
+): { where: string; params: FilterValue[] } {
+  if (!filter) return { where: "", params: [] };
+
+  const params: FilterValue[] = [];
+  const bind = (value: FilterValue) => {
+    const placeholder = dialect.placeholder(params.length, value);
+    params.push(value);
+    return placeholder;
+  };
+  const asText = (column: string) => (dialect.asText ? dialect.asText(column) : column);
+  const like = (column: string, pattern: string) =>
+    `${asText(column)} LIKE ${bind(pattern)}${dialect.likeEscape ?? ""}`;
+
+  const compile = (expr: FilterExpression): string => {
+    if (isFilterGroup(expr)) {
+      if (expr.filters.length === 0) return expr.type === "and" ? "1 = 1" : "1 = 0";
+      const joined = expr.filters.map(compile).join(expr.type === "and" ? " AND " : " OR ");
+      return `(${joined})`;
+    }
+
+    const column = dialect.column(expr.column);
+    switch (expr.op) {
+      case "eq":
+        return expr.value === null ? `${column} IS NULL` : `${column} = ${bind(expr.value)}`;
+      case "ne":
+        return expr.value === null ? `${column} IS NOT NULL` : `${column} <> ${bind(expr.value)}`;
+      case "lt":
+        return `${column} < ${bind(expr.value)}`;
+      case "lte":
+        return `${column} <= ${bind(expr.value)}`;
+      case "gt":
+        return `${column} > ${bind(expr.value)}`;
+      case "gte":
+        return `${column} >= ${bind(expr.value)}`;
+      case "in":
+      case "nin":
+        return `${column} ${expr.op === "nin" ? "NOT IN" : "IN"} (${expr.value.map(bind).join(", ")})`;
+      case "like":
+        return like(column, expr.value);
+      case "ilike":
+        return dialect.ilike
+          ? dialect.ilike(asText(column), bind(expr.value))
+          : `LOWER(${asText(column)}) LIKE LOWER(${bind(expr.value)})${dialect.likeEscape ?? ""}`;
+      case "contains":
+        return like(column, `%${escapeLike(expr.value)}%`);
+      case "regex":
+        return dialect.regex(asText(column), bind(expr.value));
+      case "isNull":
+        return `${column} IS NULL`;
+      case "isNotNull":
+        return `${column} IS NOT NULL`;
+      case "between":
+        return `${column} BETWEEN ${bind(expr.value[0])} AND ${bind(expr.value[1])}`;
+    }
+  };
+
+  return { where: `WHERE ${compile(filter)}`, params };
+}
@@ -0,0 +1,178 @@
+import { FilterValue, PageCursors, SortKey } from "./types";
+
+/**
+ * Helpers for keyset (cursor) pagination: instead of skipping `OFFSET` rows,
+ * each page seeks past the sort key of the previous page's edge row.
+ * Cursors are opaque to the client — base64url JSON of a KeysetCursor.
+ */
+
+export interface KeysetColumn {
+  name: string;
+  descending: boolean;
+  // NULLs sort last in both directions
+  nullable: boolean;
+}
+
+// The ordering a cursor was taken from: the sort keys followed by columns
+// that make every position unique (normally the primary key)
+export interface KeysetKey {
+  columns: KeysetColumn[];
+}
+
+export interface KeysetCursor {
+  direction: "next" | "prev";
+  // keysetSignature() of the ordering
+  key: string;
+  // Edge row's key values, in column order
+  values: FilterValue[];
+}
+
+/**
+ * Build the seek key for a sort, or undefined when the table has no primary
+ * key to break ties with (those tables fall back to LIMIT/OFFSET).
+ */
+export function keysetKey(
+  primaryKey: string[],
+  sort: SortKey[],
+  isNullable: (column: string) => boolean,
+): KeysetKey | undefined {
+  if (primaryKey.length === 0) return undefined;
+
+  const sorted = new Set(sort.map((key) => key.column));
+  const columns: KeysetColumn[] = [
+    ...sort.map((key) => ({
+      name: key.column,
+      descending: key.order === "desc",
+      nullable: !primaryKey.includes(key.column) && isNullable(key.column),
+    })),
+    ...primaryKey
+      .filter((name) => !sorted.has(name))
+      .map((name) => ({ name, descending: false, nullable: false })),
+  ];
+  return { columns };
+}
+
+function keysetSignature(key: KeysetKey): string {
+  return key.columns.map((col) => `${col.name}:${col.descending ? "desc" : "asc"}`).join(",");
+}
+
+export function encodeCursor(cursor: KeysetCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Decode a cursor and check that it was taken from the same ordering.
+ * Throws for malformed cursors and for cursors left over from another sort.
+ */
+export function decodeCursor(token: string, key: KeysetKey): KeysetCursor {
+  let cursor: KeysetCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid page cursor");
+  }
+
+  if (
+    !cursor ||
+    (cursor.direction !== "next" && cursor.direction !== "prev") ||
+    !Array.isArray(cursor.values) ||
+    cursor.values.length !== key.columns.length ||
+    cursor.key !== keysetSignature(key)
+  ) {
+    throw new Error("Page cursor does not match the current sort order. Reload the first page.");
+  }
+  return cursor;
+}
+
+/**
+ * ORDER BY clause for a key. `reverse` flips every direction, which is how
+ * the page before a cursor is read (the rows are reversed back afterwards).
+ */
+export function keysetOrderBy(
+  key: KeysetKey,
+  column: (name: string) => string,
+  reverse = false,
+): string {
+  const parts = key.columns.map((col) => {
+    const desc = col.descending !== reverse;
+    const nulls = col.nullable ? ` NULLS ${reverse ? "FIRST" : "LAST"}` : "";
+    return `${column(col.name)} ${desc ? "DESC" : "ASC"}${nulls}`;
+  });
+  return `ORDER BY ${parts.join(", ")}`;
+}
+
+/**
+ * Predicate selecting the rows strictly after (next) or before (prev) the
+ * cursor position. Expanded to `a > x OR (a = x AND b > y)` rather than a
+ * row-value comparison, which can't mix directions and which not every
+ * Postgres-wire dialect supports.
+ */
+export function keysetSeek(
+  cursor: KeysetCursor,
+  key: KeysetKey,
+  column: (name: string) => string,
+  bind: (value: FilterValue, column: string) => string,
+): string {
+  const forward = cursor.direction === "next";
+
+  const equal = (col: KeysetColumn, value: FilterValue) =>
+    value === null ? `${column(col.name)} IS NULL` : `${column(col.name)} = ${bind(value, col.name)}`;
+
+  // Rows strictly past `value` in this column, or undefined when there are none.
+  // NULLs form a block after every non-NULL value.
+  const past = (col: KeysetColumn, value: FilterValue) => {
+    if (value === null) {
+      return forward ? undefined : `${column(col.name)} IS NOT NULL`;
+    }
+    const op = forward !== col.descending ? ">" : "<";
+    const compare = `${column(col.name)} ${op} ${bind(value, col.name)}`;
+    return forward && col.nullable ? `(${compare} OR ${column(col.name)} IS NULL)` : compare;
+  };
+
+  const terms: string[] = [];
+  key.columns.forEach((col, i) => {
+    const after = past(col, cursor.values[i]);
+    if (!after) return;
+    const prefix = key.columns.slice(0, i).map((prev, j) => equal(prev, cursor.values[j]));
+    terms.push(`(${[...prefix, after].join(" AND ")})`);
+  });
+
+  return terms.length > 0 ? `(${terms.join(" OR ")})` : "1 = 0";
+}
+
+/**
+ * Trim a page that was fetched with one extra row (LIMIT pageSize + 1) and
+ * work out the cursors either side of it. Rows read backwards (a prev cursor)
+ * are put back into display order.
+ */
+export function keysetPage<T>(
+  rows: T[],
+  pageSize: number,
+  key: KeysetKey,
+  cursor: KeysetCursor | undefined,
+  page: number,
+  valuesOf: (row: T) => FilterValue[],
+): { rows: T[]; cursors: PageCursors } {
+  const hasMore = rows.length > pageSize;
+  const pageRows = rows.slice(0, pageSize);
+  const backward = cursor?.direction === "prev";
+  if (backward) pageRows.reverse();
+
+  const at = (direction: KeysetCursor["direction"], row: T | undefined) =>
+    row === undefined
+      ? null
+      : encodeCursor({ direction, key: keysetSignature(key), values: valuesOf(row) });
+
+  const first = pageRows[0];
+  const last = pageRows[pageRows.length - 1];
+  const hasNext = backward ? true : hasMore;
+  const hasPrev = backward ? hasMore : cursor !== undefined || page > 1;
+
+  return {
+    rows: pageRows,
+    cursors: {
+      next: hasNext ? at("next", last) : null,
+      prev: hasPrev ? at("prev", first) : null,
+    },
+  };
+}
@@ -0,0 +1,462 @@
+import { BSON, ObjectId } from "mongodb";
+import { findParameters, placeholderName, ParameterSlot } from "../engines/parameters";
+import { paramValue } from "./params";
+import { QueryParams } from "./types";
+
+/**
+ * Parser for the mongosh expressions the query editor runs, e.g.
+ *
+ *   db.getCollection("order-items").find({ placed: { $gte: ISODate("2024-01-01") } }).sort({ placed: -1 }).limit(10)
+ *
+ * Arguments are JavaScript literals: unquoted keys, single quotes, trailing
+ * commas, comments, regex literals and the shell's type helpers (ObjectId,
+ * ISODate, NumberLong, ...). Those and canonical Extended JSON wrappers such
+ * as `{ "$oid": "..." }` become their BSON types. Nothing is evaluated.
+ */
+
+export interface ShellCall {
+  method: string;
+  args: unknown[];
+}
+
+export interface ShellQuery {
+  collectionName: string;
+  operation: string;
+  args: unknown[];
+  // Cursor methods chained after the operation, in order: .sort({ a: 1 }).limit(5)
+  modifiers: ShellCall[];
+}
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+// Dotted collection names may have dashes too: db.order-items.find()
+const COLLECTION_SEGMENT = /[\w$-]+/y;
+const NUMBER = /Infinity|NaN|0[xX][\da-fA-F]+|0[oO][0-7]+|0[bB][01]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const REGEX_FLAGS = /[A-Za-z]*/y;
+const TOKEN = /[\w$]+|\S/y;
+const HEX = /^[\da-fA-F]+$/;
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f", v: "\v", "0": "\0" };
+
+// Canonical Extended JSON type wrappers, e.g. { "$numberLong": "42" }
+const EJSON_KEYS = new Set([
+  "$oid",
+  "$date",
+  "$numberInt",
+  "$numberLong",
+  "$numberDouble",
+  "$numberDecimal",
+  "$binary",
+  "$uuid",
+  "$regularExpression",
+  "$timestamp",
+  "$minKey",
+  "$maxKey",
+  "$symbol",
+  "$code",
+  "$scope",
+  "$dbPointer",
+]);
+
+function toDate(args: unknown[]): Date {
+  const date = args.length > 1
+    ? new Date(...(args.map(Number) as [number, number]))
+    : args.length === 1 ? new Date(args[0] as string | number | Date) : new Date();
+  if (Number.isNaN(date.getTime())) throw new Error("invalid date");
+  return date;
+}
+
+function toLong(value: unknown = 0): BSON.Long {
+  return typeof value === "number" ? BSON.Long.fromNumber(value) : BSON.Long.fromString(String(value));
+}
+
+// The shell's type helpers, callable with or without `new`
+const CONSTRUCTORS: Record<string, (args: unknown[]) => unknown> = {
+  ObjectId: ([id]) => (id === undefined ? new ObjectId() : new ObjectId(id as string)),
+  ISODate: toDate,
+  Date: toDate,
+  NumberInt: ([value = 0]) => new BSON.Int32(Number(value)),
+  Int32: ([value = 0]) => new BSON.Int32(Number(value)),
+  NumberLong: ([value]) => toLong(value),
+  Long: ([value]) => toLong(value),
+  NumberDecimal: ([value = 0]) => BSON.Decimal128.fromString(String(value)),
+  Decimal128: ([value = 0]) => BSON.Decimal128.fromString(String(value)),
+  Double: ([value = 0]) => new BSON.Double(Number(value)),
+  UUID: ([hex]) => (hex === undefined ? new BSON.UUID() : new BSON.UUID(String(hex))),
+  BinData: ([subtype, base64]) => BSON.Binary.createFromBase64(String(base64), Number(subtype)),
+  HexData: ([subtype, hex]) => BSON.Binary.createFromHexString(String(hex), Number(subtype)),
+  Timestamp: ([t = 0, i = 0]) =>
+    typeof t === "object" ? new BSON.Timestamp(t as { t: number; i: number }) : new BSON.Timestamp({ t: Number(t), i: Number(i) }),
+  RegExp: ([pattern, flags]) => new BSON.BSONRegExp(String(pattern), flags === undefined ? undefined : String(flags)),
+  MinKey: () => new BSON.MinKey(),
+  MaxKey: () => new BSON.MaxKey(),
+  Code: ([code, scope]) => new BSON.Code(String(code), scope as BSON.Document | undefined),
+  DBRef: ([collection, id, db]) => new BSON.DBRef(String(collection), id as ObjectId, db as string | undefined),
+};
+
+function isExtendedJson(doc: Record<string, unknown>): boolean {
+  const keys = Object.keys(doc);
+  return keys.length > 0 && keys.every((key) => EJSON_KEYS.has(key));
+}
+
+class ShellParser {
+  private pos = 0;
+  // Unquoted placeholders by start offset, e.g. `:since` in { placed: { $gte: :since } }
+  private slots: Map<number, ParameterSlot>;
+
+  constructor(
+    private text: string,
+    private params: QueryParams = {}
+  ) {
+    this.slots = new Map(
+      findParameters(text, "javascript")
+        .filter((slot) => !slot.quoted)
+        .map((slot) => [slot.start, slot])
+    );
+  }
+
+  parseQuery(): ShellQuery {
+    const { collectionName, operation } = this.parseTarget();
+    const args = this.parseArguments();
+
+    const modifiers: ShellCall[] = [];
+    while (this.eat(".")) {
+      const method = this.identifier("a method name");
+      modifiers.push({ method, args: this.parseArguments() });
+    }
+
+    this.eat(";");
+    this.skip();
+    if (this.pos < this.text.length) {
+      throw this.error(`Unexpected ${this.describe()}`);
+    }
+    return { collectionName, operation, args, modifiers };
+  }
+
+  // db.users.find, db["order-items"].find, db.getCollection("order-items").find
+  private parseTarget(): { collectionName: string; operation: string } {
+    const start = this.pos;
+    if (this.identifier("db") !== "db") {
+      throw this.error("Queries start with db, e.g. db.users.find({})", start);
+    }
+
+    if (this.eat("[")) {
+      const collectionName = this.parseName();
+      this.expect("]");
+      this.expect(".");
+      return { collectionName, operation: this.identifier("a method name") };
+    }
+
+    this.expect(".");
+    const segments = [this.segment()];
+    if (segments[0] === "getCollection" && this.peek("(")) {
+      this.expect("(");
+      const collectionName = this.parseName();
+      this.expect(")");
+      this.expect(".");
+      return { collectionName, operation: this.identifier("a method name") };
+    }
+
+    // Dotted names (db.system.profile.find()) run up to the segment that is called
+    for (;;) {
+      this.expect(".");
+      const start = this.pos;
+      const segment = this.segment();
+      if (this.peek("(")) {
+        if (!/^[A-Za-z_$][\w$]*$/.test(segment)) {
+          throw this.error(`"${segment}" is not a method name`, start);
+        }
+        return { collectionName: segments.join("."), operation: segment };
+      }
+      segments.push(segment);
+    }
+  }
+
+  private parseName(): string {
+    this.skip();
+    const start = this.pos;
+    const name = this.parseValue();
+    if (typeof name !== "string" || !name) {
+      throw this.error("Expected a collection name", start);
+    }
+    return name;
+  }
+
+  private parseArguments(): unknown[] {
+    this.expect("(");
+    return this.parseList(")");
+  }
+
+  // Comma-separated values up to `close`, allowing a trailing comma
+  private parseList(close: string, plain = false): unknown[] {
+    const values: unknown[] = [];
+    while (!this.eat(close)) {
+      values.push(this.parseValue(plain));
+      if (!this.eat(",")) {
+        this.expect(close);
+        break;
+      }
+    }
+    return values;
+  }
+
+  // `plain` keeps objects as they are, for the inside of Extended JSON wrappers
+  private parseValue(plain = false): unknown {
+    this.skip();
+    const start = this.pos;
+
+    const slot = this.slots.get(start);
+    if (slot) {
+      this.pos = slot.end;
+      return paramValue(slot.name, this.params);
+    }
+
+    const char = this.text[start];
+    if (char === "{") return this.parseObject(plain);
+    if (char === "[") {
+      this.pos++;
+      return this.parseList("]", plain);
+    }
+    if (char === '"' || char === "'" || char === "`") {
+      const value = this.parseString();
+      const name = placeholderName(value);
+      return name ? paramValue(name, this.params) : value;
+    }
+    if (char === "/") return this.parseRegex();
+
+    const sign = char === "-" || char === "+" ? char : "";
+    this.pos += sign.length;
+    const number = this.match(NUMBER);
+    if (number) return sign === "-" ? -Number(number) : Number(number);
+    if (sign) throw this.error(`Expected a number after "${sign}"`);
+
+    const word = this.match(IDENTIFIER);
+    switch (word) {
+      case "true":
+        return true;
+      case "false":
+        return false;
+      case "null":
+        return null;
+      case "undefined":
+        return undefined;
+      case "new":
+        return this.parseConstructor(this.identifier("a type name"), start);
+      case undefined:
+        throw this.error(`Unexpected ${this.describe()}`);
+      default:
+        return this.parseConstructor(word, start);
+    }
+  }
+
+  private parseConstructor(name: string, start: number): unknown {
+    if (!Object.hasOwn(CONSTRUCTORS, name)) {
+      throw this.error(`Unknown value "${name}"`, start);
+    }
+    const args = this.parseArguments();
+    try {
+      return CONSTRUCTORS[name](args);
+    } catch (error) {
+      throw this.error(`${name}(): ${error instanceof Error ? error.message : String(error)}`, start);
+    }
+  }
+
+  private parseObject(plain: boolean): unknown {
+    const start = this.pos;
+    this.expect("{");
+
+    const doc: Record<string, unknown> = {};
+    while (!this.eat("}")) {
+      const key = this.parseKey();
+      this.expect(":");
+      const value = this.parseValue(plain || EJSON_KEYS.has(key));
+      // defineProperty so a "__proto__" key stays a key
+      Object.defineProperty(doc, key, { value, enumerable: true, writable: true, configurable: true });
+      if (!this.eat(",")) {
+        this.expect("}");
+        break;
+      }
+    }
+
+    if (plain || !isExtendedJson(doc)) return doc;
+    try {
+      return BSON.EJSON.deserialize(doc, { relaxed: false });
+    } catch (error) {
+      throw this.error(`Invalid Extended JSON: ${error instanceof Error ? error.message : String(error)}`, start);
+    }
+  }
+
+  private parseKey(): string {
+    this.skip();
+    const char = this.text[this.pos];
+    if (char === '"' || char === "'") return this.parseString();
+    const key = this.match(IDENTIFIER) ?? this.match(NUMBER);
+    if (key === undefined) {
+      throw this.error(`Expected a property name but found ${this.describe()}`);
+    }
+    return key;
+  }
+
+  private parseString(): string {
+    const start = this.pos;
+    const quote = this.text[this.pos++];
+    let value = "";
+
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos++];
+      if (char === quote) return value;
+
+      if (char === "\\") {
+        const next = this.text[this.pos++];
+        if (next === undefined) break;
+        if (next === "x" || next === "u") {
+          value += this.parseCodePoint(next);
+        } else if (next === "\r" || next === "\n") {
+          // Line continuation
+          if (next === "\r" && this.text[this.pos] === "\n") this.pos++;
+        } else {
+          value += ESCAPES[next] ?? next;
+        }
+      } else if (quote === "`" && char === "$" && this.text[this.pos] === "{") {
+        throw this.error("Template substitutions are not supported", this.pos - 1);
+      } else if (quote !== "`" && char === "\n") {
+        break;
+      } else {
+        value += char;
+      }
+    }
+
+    throw this.error("Unterminated string", start);
+  }
+
+  // \xHH, \uHHHH and \u{H...}, after the x or u
+  private parseCodePoint(kind: string): string {
+    const start = this.pos - 2;
+    let hex: string;
+    if (kind === "u" && this.text[this.pos] === "{") {
+      const close = this.text.indexOf("}", this.pos);
+      hex = close === -1 ? "" : this.text.slice(this.pos + 1, close);
+      this.pos = close + 1;
+    } else {
+      hex = this.text.slice(this.pos, this.pos + (kind === "x" ? 2 : 4));
+      this.pos += hex.length;
+    }
+
+    const codePoint = HEX.test(hex) ? parseInt(hex, 16) : NaN;
+    if (!(codePoint <= 0x10ffff) || (kind === "x" && hex.length !== 2) || (kind === "u" && !hex)) {
+      throw this.error("Invalid escape sequence", start);
+    }
+    return String.fromCodePoint(codePoint);
+  }
+
+  // Regex literals keep their source for the server; JavaScript-only flags (g, y) are refused
+  private parseRegex(): BSON.BSONRegExp {
+    const start = this.pos++;
+    let pattern = "";
+    let inClass = false;
+
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos++];
+      if (char === "\n") break;
+      if (char === "\\") {
+        pattern += char + (this.text[this.pos++] ?? "");
+        continue;
+      }
+      if (char === "[") {
+        inClass = true;
+      } else if (char === "]") {
+        inClass = false;
+      } else if (char === "/" && !inClass) {
+        const flags = this.match(REGEX_FLAGS) ?? "";
+        try {
+          return new BSON.BSONRegExp(pattern, flags);
+        } catch (error) {
+          throw this.error(error instanceof Error ? error.message : String(error), start);
+        }
+      }
+      pattern += char;
+    }
+
+    throw this.error("Unterminated regular expression", start);
+  }
+
+  private segment(): string {
+    this.skip();
+    const segment = this.match(COLLECTION_SEGMENT);
+    if (!segment) {
+      throw this.error(`Expected a collection name but found ${this.describe()}`);
+    }
+    return segment;
+  }
+
+  private identifier(what: string): string {
+    this.skip();
+    const word = this.match(IDENTIFIER);
+    if (!word) {
+      throw this.error(`Expected ${what} but found ${this.describe()}`);
+    }
+    return word;
+  }
+
+  // Whitespace and comments
+  private skip() {
+    while (this.pos < this.text.length) {
+      if (/\s/.test(this.text[this.pos])) {
+        this.pos++;
+      } else if (this.text.startsWith("//", this.pos)) {
+        const newline = this.text.indexOf("\n", this.pos);
+        this.pos = newline === -1 ? this.text.length : newline + 1;
+      } else if (this.text.startsWith("/*", this.pos)) {
+        const close = this.text.indexOf("*/", this.pos + 2);
+        if (close === -1) throw this.error("Unterminated comment");
+        this.pos = close + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private peek(token: string): boolean {
+    this.skip();
+    return this.text.startsWith(token, this.pos);
+  }
+
+  private eat(token: string): boolean {
+    if (!this.peek(token)) return false;
+    this.pos += token.length;
+    return true;
+  }
+
+  private expect(token: string) {
+    if (!this.eat(token)) {
+      throw this.error(`Expected "${token}" but found ${this.describe()}`);
+    }
+  }
+
+  private match(pattern: RegExp): string | undefined {
+    pattern.lastIndex = this.pos;
+    const match = pattern.exec(this.text);
+    if (!match) return undefined;
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private describe(): string {
+    TOKEN.lastIndex = this.pos;
+    const token = TOKEN.exec(this.text);
+    return token ? `"${token[0]}"` : "the end of the query";
+  }
+
+  // Carries a 1-based `position` like PostgreSQL errors, so locateError() can point at it
+  private error(message: string, offset = this.pos): Error {
+    return Object.assign(new Error(message), { position: String(offset + 1) });
+  }
+}
+
+/**
+ * Parse a mongosh query such as `db.users.find({ age: { $gt: 30 } }).limit(5)`.
+ * Placeholders resolve to their values from `params`. Throws on syntax
+ * errors, with the offset of the problem as `position`.
+ */
+export function parseShellQuery(query: string, params?: QueryParams): ShellQuery {
+  return new ShellParser(query, params).parseQuery();
+}
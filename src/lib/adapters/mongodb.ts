@@ -1,4 +1,23 @@
-import { MongoClient, Db, ObjectId, Document } from 'mongodb';
+import {
+  MongoClient,
+  Db,
+  ObjectId,
+  Document,
+  BSON,
+  Collection,
+  FindCursor,
+  AggregationCursor,
+  AggregateOptions,
+  FindOptions,
+  AnyBulkWriteOperation,
+  BulkWriteOptions,
+  CreateIndexesOptions,
+  DeleteOptions,
+  FindOneAndUpdateOptions,
+  IndexSpecification,
+  InsertOneOptions,
+  UpdateOptions,
+} from 'mongodb';
 import {
   BaseAdapter,
   TableInfo,
@@ -7,9 +26,102 @@ import {
   QueryOptions,
   PaginatedResult,
   QueryResult,
+  ExecuteQueryOptions,
+  StreamQueryOptions,
+  QueryBatch,
   TableStats,
   IndexInfo,
+  FilterExpression,
+  FilterValue,
+  QueryParams,
+  ExplainOptions,
+  QueryPlan,
+  PlanNode,
 } from './types';
+import { escapeLike, isFilterGroup, likeToRegExp } from './filters';
+import { decodeCursor, keysetKey, keysetPage } from './keyset';
+import { parseShellQuery, ShellCall, ShellQuery } from './mongo-shell';
+import { planDetail, planNumber } from './plans';
+
+// Operations whose results come from a cursor
+const CURSOR_OPERATIONS = ['find', 'aggregate'];
+
+// Cursor methods that may be chained after them, e.g. .sort({ age: -1 }).limit(10).
+// comment() is left out: the editor's comment tags the operation for cancelQuery().
+const CURSOR_MODIFIERS = new Set([
+  'sort',
+  'limit',
+  'skip',
+  'project',
+  'hint',
+  'collation',
+  'min',
+  'max',
+  'maxTimeMS',
+  'batchSize',
+  'allowDiskUse',
+  'returnKey',
+  'showRecordId',
+]);
+
+// Shell cursor methods that change nothing here
+const SHELL_NO_OPS = new Set(['pretty', 'toArray']);
+
+// The argument at `index` as a document (or pipeline). Writes never default a
+// missing filter or update to {}, so deleteMany() can't empty a collection.
+function documentArg(args: unknown[], index: number, operation: string): Document {
+  const value = args[index];
+  if (!value || typeof value !== 'object') {
+    throw new Error(`${operation}() needs a document as argument ${index + 1}`);
+  }
+  return value as Document;
+}
+
+function arrayArg(args: unknown[], index: number, operation: string): Document[] {
+  if (!Array.isArray(args[index])) {
+    throw new Error(`${operation}() needs an array as argument ${index + 1}`);
+  }
+  return args[index] as Document[];
+}
+
+// Keys under which explain output nests a stage's input stages
+const CHILD_STAGE_KEYS = ['inputStage', 'inputStages', 'innerStage', 'outerStage', 'thenStage', 'elseStage'];
+
+/**
+ * Map a stage of a winning plan (or, when analyzed, of executionStages).
+ */
+function toPlanNode(stage: Document, collectionName: string): PlanNode {
+  const properties = Object.fromEntries(
+    Object.entries(stage).filter(([key]) => !CHILD_STAGE_KEYS.includes(key))
+  );
+  const children = CHILD_STAGE_KEYS.flatMap((key) => (stage[key] === undefined ? [] : [stage[key]].flat()));
+
+  return {
+    operation: String(stage.stage ?? 'UNKNOWN'),
+    relation: stage.indexName ? String(stage.indexName) : stage.stage === 'COLLSCAN' ? collectionName : undefined,
+    detail: planDetail(properties, ['filter', 'indexBounds', 'direction']),
+    actualRows: planNumber(stage.nReturned),
+    totalTimeMs: planNumber(stage.executionTimeMillisEstimate),
+    fullScan: stage.stage === 'COLLSCAN',
+    properties,
+    children: children.map((child: Document) => toPlanNode(child, collectionName)),
+  };
+}
+
+/**
+ * Root stage of a find explain, or of the $cursor stage of an aggregation.
+ * SBE plans (MongoDB 7+) nest the classic tree under `queryPlan`.
+ */
+function explainRoot(explain: Document, collectionName: string, analyzed: boolean): PlanNode {
+  const winning = explain.queryPlanner?.winningPlan;
+  const stage = analyzed && explain.executionStats?.executionStages
+    ? explain.executionStats.executionStages
+    : winning?.queryPlan ?? winning;
+  if (!stage) {
+    return { operation: 'EXPLAIN', properties: explain, children: [] };
+  }
+  return toPlanNode(stage, collectionName);
+}
 
 export class MongoDBAdapter extends BaseAdapter {
   private client: MongoClient | null = null;
@@ -209,37 +321,138 @@ export class MongoDBAdapter extends BaseAdapter {
     return [];
   }
 
+  /**
+   * Compile a filter expression into a query document. Values are never
+   * interpreted as operators, so user input can't inject `$where` and friends.
+   */
+  private buildQuery(filter?: FilterExpression): Document {
+    if (!filter) return {};
+
+    if (isFilterGroup(filter)) {
+      if (filter.filters.length === 0) return {};
+      return { [filter.type === 'and' ? '$and' : '$or']: filter.filters.map((f) => this.buildQuery(f)) };
+    }
+
+    // String _id values are usually ObjectIds in disguise
+    const toValue = (value: FilterValue) =>
+      filter.column === '_id' && typeof value === 'string' && ObjectId.isValid(value) && value.length === 24
+        ? new ObjectId(value)
+        : value;
+
+    const { column } = filter;
+    switch (filter.op) {
+      case 'eq':
+        return { [column]: { $eq: toValue(filter.value) } };
+      case 'ne':
+        return { [column]: { $ne: toValue(filter.value) } };
+      case 'lt':
+      case 'lte':
+      case 'gt':
+      case 'gte':
+        return { [column]: { [`$${filter.op}`]: toValue(filter.value) } };
+      case 'in':
+      case 'nin':
+        return { [column]: { [`$${filter.op}`]: filter.value.map(toValue) } };
+      case 'like':
+      case 'ilike':
+        return { [column]: { $regex: likeToRegExp(filter.value, filter.op === 'ilike') } };
+      case 'contains':
+        return { [column]: { $regex: likeToRegExp(`%${escapeLike(filter.value)}%`) } };
+      case 'regex':
+        return { [column]: { $regex: filter.value } };
+      case 'isNull':
+        return { [column]: { $eq: null } };
+      case 'isNotNull':
+        return { [column]: { $ne: null } };
+      case 'between':
+        return { [column]: { $gte: toValue(filter.value[0]), $lte: toValue(filter.value[1]) } };
+    }
+  }
+
   async getRows(table: string, options: QueryOptions): Promise<PaginatedResult> {
     const db = this.getDb();
     const collection = db.collection(table);
-    const { page, pageSize, sortBy, sortOrder, filters } = options;
+    const { page, pageSize, sort = [], filters } = options;
 
     const skip = (page - 1) * pageSize;
-    const query = filters || {};
+    const query = this.buildQuery(filters);
+
+    // Unfiltered reads of large collections use the metadata count
+    const countRows = () =>
+      this.pageTotal(
+        async () => (Object.keys(query).length === 0 ? collection.estimatedDocumentCount() : undefined),
+        () => collection.countDocuments(query),
+      );
+
+    // Other fields can hold mixed BSON types with no single range order,
+    // so only _id is paged by keyset; everything else uses skip/limit
+    if (sort.some((key) => key.column !== '_id')) {
+      // Key order in the sort document sets priority
+      const sortDoc: Record<string, 1 | -1> = {};
+      for (const key of sort) {
+        sortDoc[key.column] = key.order === 'desc' ? -1 : 1;
+      }
+
+      const [data, { total, totalIsEstimate }] = await Promise.all([
+        collection.find(query).sort(sortDoc).skip(skip).limit(pageSize).toArray(),
+        countRows(),
+      ]);
+
+      return {
+        data: data.map((doc) => this.serializeDocument(doc)),
+        total,
+        totalIsEstimate,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize),
+      };
+    }
 
-    // Build sort object
-    const sort: Record<string, 1 | -1> = {};
-    if (sortBy) {
-      sort[sortBy] = sortOrder === 'desc' ? -1 : 1;
+    // _id range queries; cursor values are canonical EJSON so any _id type round-trips
+    const key = keysetKey(['_id'], sort, () => false)!;
+    const descending = key.columns[0].descending;
+    const cursor = options.cursor ? decodeCursor(options.cursor, key) : undefined;
+    const backward = cursor?.direction === 'prev';
+
+    let seekQuery = query;
+    if (cursor) {
+      const op = (cursor.direction === 'next') !== descending ? '$gt' : '$lt';
+      const id = BSON.EJSON.parse(String(cursor.values[0]), { relaxed: false });
+      seekQuery = { $and: [query, { _id: { [op]: id } }] };
     }
 
-    const [data, total] = await Promise.all([
-      collection.find(query).sort(sort).skip(skip).limit(pageSize).toArray(),
-      collection.countDocuments(query),
+    let find = collection.find(seekQuery).sort({ _id: descending !== backward ? -1 : 1 });
+    if (!cursor) find = find.skip(skip);
+
+    const [docs, { total, totalIsEstimate }] = await Promise.all([
+      find.limit(pageSize + 1).toArray(),
+      countRows(),
+    ]);
+    const result = keysetPage(docs, pageSize, key, cursor, page, (doc) => [
+      BSON.EJSON.stringify(doc._id, { relaxed: false }),
     ]);
 
     // Convert ObjectId to string for JSON serialization
-    const serializedData = data.map((doc) => this.serializeDocument(doc));
-
     return {
-      data: serializedData,
+      data: result.rows.map((doc) => this.serializeDocument(doc)),
       total,
+      totalIsEstimate,
       page,
       pageSize,
       totalPages: Math.ceil(total / pageSize),
+      cursors: result.cursors,
     };
   }
 
+  async countRows(
+    table: string,
+    filters: FilterExpression | undefined,
+    timeoutMs: number,
+  ): Promise<number> {
+    const collection = this.getDb().collection(table);
+    return collection.countDocuments(this.buildQuery(filters), { maxTimeMS: timeoutMs });
+  }
+
   private serializeDocument(doc: Document): Record<string, unknown> {
     const result: Record<string, unknown> = {};
 
@@ -324,20 +537,14 @@ export class MongoDBAdapter extends BaseAdapter {
     return result.deletedCount > 0;
   }
 
-  async executeQuery(query: string): Promise<QueryResult> {
+  async executeQuery(query: string, options: ExecuteQueryOptions = {}): Promise<QueryResult> {
     const db = this.getDb();
     const startTime = Date.now();
 
-    try {
-      // Parse the query - expected format: db.collection.method(args)
-      // or just a JSON query for find operations
-      const parsed = this.parseMongoQuery(query);
+    const opOptions = this.editorOperationOptions(options);
 
-      if (!parsed) {
-        throw new Error('Invalid query format. Use: db.collectionName.find({}) or similar');
-      }
-
-      const { collectionName, operation, args } = parsed;
+    try {
+      const { collectionName, operation, args, modifiers } = this.parseMongoQuery(query, options.params);
       const collection = db.collection(collectionName);
 
       let rows: Record<string, unknown>[] = [];
@@ -345,17 +552,15 @@ export class MongoDBAdapter extends BaseAdapter {
 
       switch (operation) {
         case 'find': {
-          const cursor = collection.find(args[0] || {});
-          if (args[1]) {
-            cursor.project(args[1]);
-          }
-          const docs = await cursor.limit(1000).toArray();
+          const cursor = this.openCursor(collection, operation, args, opOptions, modifiers) as FindCursor;
+          // Capped unless the query sets its own limit
+          const docs = await (modifiers.some((m) => m.method === 'limit') ? cursor : cursor.limit(1000)).toArray();
           rows = docs.map((doc) => this.serializeDocument(doc));
           rowCount = rows.length;
           break;
         }
         case 'findOne': {
-          const doc = await collection.findOne(args[0] || {});
+          const doc = await collection.findOne(args[0] || {}, { projection: args[1] as Document, ...opOptions });
           if (doc) {
             rows = [this.serializeDocument(doc)];
             rowCount = 1;
@@ -364,25 +569,126 @@ export class MongoDBAdapter extends BaseAdapter {
         }
         case 'count':
         case 'countDocuments': {
-          const count = await collection.countDocuments(args[0] || {});
+          const count = await collection.countDocuments(args[0] || {}, opOptions);
           rows = [{ count }];
           rowCount = 1;
           break;
         }
         case 'aggregate': {
-          const pipeline = (args[0] as Document[]) || [];
-          const docs = await collection.aggregate(pipeline).toArray();
+          const docs = await this.openCursor(collection, operation, args, opOptions, modifiers)!.toArray();
           rows = docs.map((doc) => this.serializeDocument(doc));
           rowCount = rows.length;
           break;
         }
         case 'distinct': {
           const field = args[0] as string;
-          const values = await collection.distinct(field, (args[1] as Document) || {});
+          const values = await collection.distinct(field, (args[1] as Document) || {}, opOptions);
           rows = values.map((v) => ({ value: v }));
           rowCount = rows.length;
           break;
         }
+        // Writes return one row with the acknowledged counts and new IDs
+        case 'insertOne': {
+          const result = await collection.insertOne(documentArg(args, 0, operation), {
+            ...(args[1] as InsertOneOptions),
+            ...opOptions,
+          });
+          rows = [this.serializeDocument({ acknowledged: result.acknowledged, insertedId: result.insertedId })];
+          rowCount = 1;
+          break;
+        }
+        case 'insertMany': {
+          const result = await collection.insertMany(arrayArg(args, 0, operation), {
+            ...(args[1] as BulkWriteOptions),
+            ...opOptions,
+          });
+          rows = [this.serializeDocument({
+            acknowledged: result.acknowledged,
+            insertedCount: result.insertedCount,
+            insertedIds: Object.values(result.insertedIds),
+          })];
+          rowCount = 1;
+          break;
+        }
+        case 'updateOne':
+        case 'updateMany':
+        case 'replaceOne': {
+          const filter = documentArg(args, 0, operation);
+          const update = documentArg(args, 1, operation);
+          const writeOptions = { ...(args[2] as UpdateOptions), ...opOptions };
+          const result = operation === 'replaceOne'
+            ? await collection.replaceOne(filter, update, writeOptions)
+            : await collection[operation](filter, update, writeOptions);
+          rows = [this.serializeDocument({
+            acknowledged: result.acknowledged,
+            matchedCount: result.matchedCount,
+            modifiedCount: result.modifiedCount,
+            upsertedCount: result.upsertedCount,
+            upsertedId: result.upsertedId,
+          })];
+          rowCount = 1;
+          break;
+        }
+        case 'deleteOne':
+        case 'deleteMany': {
+          const result = await collection[operation](documentArg(args, 0, operation), {
+            ...(args[1] as DeleteOptions),
+            ...opOptions,
+          });
+          rows = [{ acknowledged: result.acknowledged, deletedCount: result.deletedCount }];
+          rowCount = 1;
+          break;
+        }
+        case 'bulkWrite': {
+          const result = await collection.bulkWrite(arrayArg(args, 0, operation) as AnyBulkWriteOperation[], {
+            ...(args[1] as BulkWriteOptions),
+            ...opOptions,
+          });
+          rows = [this.serializeDocument({
+            acknowledged: result.isOk(),
+            insertedCount: result.insertedCount,
+            matchedCount: result.matchedCount,
+            modifiedCount: result.modifiedCount,
+            deletedCount: result.deletedCount,
+            upsertedCount: result.upsertedCount,
+            upsertedIds: Object.values(result.upsertedIds),
+          })];
+          rowCount = 1;
+          break;
+        }
+        case 'findOneAndUpdate': {
+          const { returnNewDocument, ...updateOptions } = (args[2] ?? {}) as FindOneAndUpdateOptions & {
+            returnNewDocument?: boolean;
+          };
+          const doc = await collection.findOneAndUpdate(documentArg(args, 0, operation), documentArg(args, 1, operation), {
+            // mongosh's spelling of returnDocument: 'after'
+            ...(returnNewDocument && { returnDocument: 'after' as const }),
+            ...updateOptions,
+            ...opOptions,
+          });
+          if (doc) {
+            rows = [this.serializeDocument(doc)];
+            rowCount = 1;
+          }
+          break;
+        }
+        case 'createIndex': {
+          const name = await collection.createIndex(documentArg(args, 0, operation) as IndexSpecification, {
+            ...(args[1] as CreateIndexesOptions),
+            ...opOptions,
+          });
+          rows = [{ name }];
+          rowCount = 1;
+          break;
+        }
+        case 'dropIndex': {
+          // By name or, as in mongosh, by key document, which the server also takes
+          const index = typeof args[0] === 'string' ? args[0] : documentArg(args, 0, operation);
+          const result = await collection.dropIndex(index as string, opOptions);
+          rows = [this.serializeDocument(result)];
+          rowCount = 1;
+          break;
+        }
         default:
           throw new Error(`Unsupported operation: ${operation}`);
       }
@@ -407,50 +713,175 @@ export class MongoDBAdapter extends BaseAdapter {
     }
   }
 
-  private parseMongoQuery(query: string): { collectionName: string; operation: string; args: unknown[] } | null {
-    // Match pattern: db.collectionName.operation({...})
-    const match = query.match(/^db\.(\w+)\.(\w+)\(([\s\S]*)\)$/);
-
-    if (!match) {
-      return null;
+  async *streamQuery(query: string, options: StreamQueryOptions): AsyncGenerator<QueryBatch> {
+    const { collectionName, operation, args, modifiers } = this.parseMongoQuery(query, options.params);
+    const collection = this.getDb().collection(collectionName);
+    const cursor = this.openCursor(collection, operation, args, {
+      ...this.editorOperationOptions(options),
+      batchSize: options.batchSize,
+    }, modifiers);
+
+    // Single-result operations have nothing to stream
+    if (!cursor) {
+      const result = await this.executeQuery(query, options);
+      if (result.error) throw new Error(result.error);
+      yield { columns: result.columns, rows: result.rows };
+      return;
     }
 
-    const [, collectionName, operation, argsString] = match;
-
     try {
-      // Parse arguments - they should be valid JSON objects/arrays
-      const args = argsString.trim() ? this.parseArgs(argsString) : [];
-      return { collectionName, operation, args };
-    } catch {
-      return null;
+      let rows: Record<string, unknown>[] = [];
+      let yielded = false;
+      for await (const doc of cursor) {
+        rows.push(this.serializeDocument(doc));
+        if (rows.length >= options.batchSize) {
+          yield { columns: this.documentColumns(rows), rows };
+          rows = [];
+          yielded = true;
+        }
+      }
+      if (rows.length > 0 || !yielded) {
+        yield { columns: this.documentColumns(rows), rows };
+      }
+    } finally {
+      await cursor.close();
     }
   }
 
-  private parseArgs(argsString: string): unknown[] {
-    // Simple parsing - split by commas that aren't inside brackets
-    const args: unknown[] = [];
-    let depth = 0;
-    let current = '';
+  /**
+   * Cursor for operations that return many documents, or undefined for the rest.
+   */
+  private openCursor(
+    collection: Collection,
+    operation: string,
+    args: unknown[],
+    options: AggregateOptions & FindOptions,
+    modifiers: ShellCall[] = [],
+  ): FindCursor | AggregationCursor | undefined {
+    let cursor: FindCursor | AggregationCursor;
+    switch (operation) {
+      case 'find': {
+        cursor = collection.find((args[0] as Document) || {}, options);
+        if (args[1]) {
+          cursor.project(args[1] as Document);
+        }
+        break;
+      }
+      case 'aggregate':
+        cursor = collection.aggregate((args[0] as Document[]) || [], options);
+        break;
+      default:
+        return undefined;
+    }
+
+    for (const { method, args: modifierArgs } of modifiers) {
+      if (SHELL_NO_OPS.has(method)) continue;
+      const name = method === 'projection' ? 'project' : method;
+      const modify = (cursor as unknown as Record<string, unknown>)[name];
+      if (!CURSOR_MODIFIERS.has(name) || typeof modify !== 'function') {
+        throw new Error(`.${method}() can't be chained after ${operation}()`);
+      }
+      cursor = modify.apply(cursor, modifierArgs);
+    }
+    return cursor;
+  }
 
-    for (const char of argsString) {
-      if (char === '{' || char === '[') depth++;
-      if (char === '}' || char === ']') depth--;
+  /**
+   * Explain a find or aggregate. `analyze` runs it with "executionStats"
+   * verbosity; otherwise only the planner is asked ("queryPlanner").
+   */
+  async explainQuery(query: string, options: ExplainOptions = {}): Promise<QueryPlan> {
+    const { collectionName, operation, args, modifiers } = this.parseMongoQuery(query, options.params);
+    const collection = this.getDb().collection(collectionName);
+    const cursor = operation === 'findOne'
+      ? this.openCursor(collection, 'find', args, this.editorOperationOptions(options))?.limit(1)
+      : this.openCursor(collection, operation, args, this.editorOperationOptions(options), modifiers);
+    if (!cursor) {
+      throw new Error('Only find, findOne and aggregate queries can be explained');
+    }
 
-      if (char === ',' && depth === 0) {
-        if (current.trim()) {
-          args.push(JSON.parse(current.trim()));
-        }
-        current = '';
-      } else {
-        current += char;
+    const analyzed = !!options.analyze;
+    // Relaxed EJSON keeps Longs, ObjectIds and dates readable as plain JSON
+    const explain = BSON.EJSON.serialize(
+      await cursor.explain(analyzed ? 'executionStats' : 'queryPlanner'),
+      { relaxed: true }
+    ) as Document;
+    const outputs = [{ label: 'Explain', text: JSON.stringify(explain, null, 2) }];
+
+    // Aggregations that aren't pushed down into the query layer list their stages in order
+    if (Array.isArray(explain.stages)) {
+      let root: PlanNode | undefined;
+      for (const stage of explain.stages as Document[]) {
+        const name = Object.keys(stage).find((key) => key.startsWith('$')) ?? 'stage';
+        root = name === '$cursor'
+          ? explainRoot(stage.$cursor, collectionName, analyzed)
+          : {
+              operation: name,
+              detail: JSON.stringify(stage[name]),
+              actualRows: planNumber(stage.nReturned),
+              totalTimeMs: planNumber(stage.executionTimeMillisEstimate),
+              properties: stage,
+              children: root ? [root] : [],
+            };
       }
+      return {
+        root: root ?? { operation: 'aggregate', properties: {}, children: [] },
+        analyzed,
+        executionTimeMs: analyzed ? root?.totalTimeMs : undefined,
+        outputs,
+      };
     }
 
-    if (current.trim()) {
-      args.push(JSON.parse(current.trim()));
+    return {
+      root: explainRoot(explain, collectionName, analyzed),
+      analyzed,
+      executionTimeMs: planNumber(explain.executionStats?.executionTimeMillis),
+      outputs,
+    };
+  }
+
+  private editorOperationOptions(options: ExecuteQueryOptions) {
+    // The comment tags the operation so cancelQuery() can find it in $currentOp
+    return {
+      comment: options.queryId,
+      maxTimeMS: options.timeoutMs || undefined,
+    };
+  }
+
+  // Union of the documents' keys, in first-seen order
+  private documentColumns(rows: Record<string, unknown>[]): string[] {
+    const columns = new Set<string>();
+    for (const row of rows) {
+      for (const key of Object.keys(row)) columns.add(key);
     }
+    return [...columns];
+  }
+
+  async cancelQuery(queryId: string): Promise<boolean> {
+    if (!this.client) return false;
+    const admin = this.client.db('admin');
 
-    return args;
+    // getMore batches carry the comment of the command that opened the cursor
+    const { inprog } = await admin.command({
+      currentOp: true,
+      $or: [{ 'command.comment': queryId }, { 'cursor.originatingCommand.comment': queryId }],
+    });
+
+    const ops = (inprog as { opid: unknown }[]) ?? [];
+    await Promise.all(ops.map((op) => admin.command({ killOp: 1, op: op.opid })));
+    return ops.length > 0;
+  }
+
+  /**
+   * Parse an editor query (see mongo-shell.ts). Only operations that return a
+   * cursor can have cursor methods chained to them.
+   */
+  private parseMongoQuery(query: string, params?: QueryParams): ShellQuery {
+    const parsed = parseShellQuery(query, params);
+    if (parsed.modifiers.length > 0 && !CURSOR_OPERATIONS.includes(parsed.operation)) {
+      throw new Error(`.${parsed.modifiers[0].method}() can't be chained after ${parsed.operation}()`);
+    }
+    return parsed;
   }
 
   async getTableStats(table: string): Promise<TableStats> {
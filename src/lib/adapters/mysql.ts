@@ -0,0 +1,820 @@
+import mysql, { Pool, PoolConnection, FieldPacket, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import {
+  BaseAdapter,
+  TableInfo,
+  ColumnInfo,
+  Relationship,
+  QueryOptions,
+  PaginatedResult,
+  QueryResult,
+  ExecuteQueryOptions,
+  QuerySession,
+  ExplainOptions,
+  QueryPlan,
+  PlanNode,
+  TableStats,
+  IndexInfo,
+} from "./types";
+import { compileSqlFilter } from "./filters";
+import { parseMySQLConnectionString } from "../utils/connection-string";
+import { locateError } from "./error-position";
+import { bindSqlParams } from "./params";
+import { planNumber } from "./plans";
+
+// Statement timeout applied to every pooled session (milliseconds)
+const STATEMENT_TIMEOUT_MS = 30000;
+
+// One line of EXPLAIN FORMAT=TREE / EXPLAIN ANALYZE output:
+// "-> Table scan on t  (cost=1.25 rows=10) (actual time=0.03..0.04 rows=10 loops=1)"
+const TREE_PLAN_LINE =
+  /^( *)-> (.*?)(?: +\(cost=([\d.e+-]+) rows=([\d.e+-]+)\))?(?: +\(actual time=[\d.e+-]+\.\.([\d.e+-]+) rows=([\d.e+-]+) loops=(\d+)\)| +\(never executed\))?$/;
+
+/**
+ * Parse EXPLAIN FORMAT=TREE output; each level is indented four spaces.
+ * Actual figures are per loop and are multiplied out.
+ */
+function parseTreePlan(text: string): PlanNode {
+  const root: PlanNode = { operation: "Query", properties: {}, children: [] };
+  const stack: { depth: number; node: PlanNode }[] = [{ depth: -1, node: root }];
+
+  for (const line of text.split("\n")) {
+    const match = TREE_PLAN_LINE.exec(line);
+    if (!match) continue;
+    const [, indent, description, cost, rows, time, actualRows, loops] = match;
+
+    // "Index lookup on orders using idx_user (user_id=1)", "Filter: (t.a > 1)", "Nested loop inner join"
+    const access = /^(.+?) on (\S+)(?: (.*))?$/.exec(description);
+    const labelled = /^([^:(]+): (.*)$/.exec(description);
+    const node: PlanNode = {
+      operation: access?.[1] ?? labelled?.[1] ?? description,
+      relation: access?.[2],
+      detail: access ? access[3] : labelled?.[2],
+      cost: planNumber(cost),
+      estimatedRows: planNumber(rows),
+      actualRows: actualRows !== undefined ? Number(actualRows) * Number(loops) : undefined,
+      totalTimeMs: time !== undefined ? Number(time) * Number(loops) : undefined,
+      fullScan: access?.[1] === "Table scan",
+      properties: { description },
+      children: [],
+    };
+
+    const depth = indent.length / 4;
+    while (stack[stack.length - 1].depth >= depth) stack.pop();
+    stack[stack.length - 1].node.children.push(node);
+    stack.push({ depth, node });
+  }
+
+  return root.children.length === 1 ? root.children[0] : root;
+}
+
+export class MySQLAdapter extends BaseAdapter {
+  private pool: Pool | null = null;
+
+  private buildPoolOptions(): mysql.PoolOptions {
+    const { host, port, user, password, database, ssl } =
+      parseMySQLConnectionString(this.connectionString);
+
+    return {
+      host,
+      port,
+      user,
+      password,
+      database,
+      ssl: ssl ? {} : undefined,
+      // Keep DATETIME/TIMESTAMP as strings so edits round-trip unchanged
+      dateStrings: true,
+      // Never lose precision on BIGINT / DECIMAL columns
+      supportBigNumbers: true,
+      bigNumberStrings: true,
+      // Surface TINYINT(1) (MySQL's BOOLEAN) as a real boolean
+      typeCast: (field, next) => {
+        if (field.type === "TINY" && field.length === 1) {
+          const value = field.string();
+          return value === null ? null : value === "1";
+        }
+        return next();
+      },
+    };
+  }
+
+  async connect(): Promise<void> {
+    try {
+      this.pool = mysql.createPool({
+        ...this.buildPoolOptions(),
+        // Production-ready pool settings
+        connectionLimit: 20, // Max connections for high traffic
+        maxIdle: 2, // Keep minimum connections ready
+        idleTimeout: 30000, // Close idle connections after 30s
+        connectTimeout: 10000, // Connection timeout
+        waitForConnections: true,
+        // Keep connections alive
+        enableKeepAlive: true,
+        keepAliveInitialDelay: 10000,
+      });
+
+      // Set statement timeout for all queries
+      this.pool.on("connection", (connection) => {
+        this.setStatementTimeout(connection, STATEMENT_TIMEOUT_MS);
+      });
+
+      // Test the connection
+      const connection = await this.pool.getConnection();
+      connection.release();
+      this.connected = true;
+    } catch (error) {
+      this.connected = false;
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+      this.connected = false;
+    }
+  }
+
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    let connection: mysql.Connection | null = null;
+    try {
+      connection = await mysql.createConnection({
+        ...this.buildPoolOptions(),
+        connectTimeout: 5000,
+      });
+
+      const [rows] = await connection.query<RowDataPacket[]>(
+        "SELECT VERSION() as version",
+      );
+      await connection.end();
+
+      return {
+        success: true,
+        message: `Connected successfully. ${this.formatVersion(rows[0].version)}`,
+      };
+    } catch (error) {
+      connection?.destroy();
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "Connection failed",
+      };
+    }
+  }
+
+  /**
+   * Lightweight health check using existing pool (no new connections).
+   * Use this for reconnect checks instead of testConnection.
+   */
+  async ping(): Promise<boolean> {
+    if (!this.pool) return false;
+    try {
+      const connection = await this.pool.getConnection();
+      await connection.ping();
+      connection.release();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private getPool(): Pool {
+    if (!this.pool) {
+      throw new Error("Database not connected. Call connect() first.");
+    }
+    return this.pool;
+  }
+
+  /**
+   * "10.11.6-MariaDB-1:10.11.6+maria~ubu2204" -> "MariaDB 10.11.6"
+   * "8.0.36" -> "MySQL 8.0.36"
+   */
+  private formatVersion(version: string): string {
+    if (/mariadb/i.test(version)) {
+      return `MariaDB ${version.split("-")[0]}`;
+    }
+    return `MySQL ${version}`;
+  }
+
+  /**
+   * Validate an identifier (table or column name) to prevent SQL injection.
+   * Only allows alphanumeric, underscore, and dot (for database.table format).
+   */
+  private validateIdentifier(name: string): void {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)?$/.test(name)) {
+      throw new Error(`Invalid identifier: ${name}`);
+    }
+  }
+
+  /**
+   * Validate a column name to prevent SQL injection.
+   */
+  private validateColumnName(name: string): void {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid column name: ${name}`);
+    }
+  }
+
+  /**
+   * Quote and validate an identifier for safe use in queries.
+   */
+  private quoteIdentifier(name: string): string {
+    this.validateIdentifier(name);
+    return name
+      .split(".")
+      .map((part) => `\`${part}\``)
+      .join(".");
+  }
+
+  /**
+   * Split "database.table" into its parts. A bare table name resolves
+   * against the connection's current database.
+   */
+  private splitTableName(table: string): [string | null, string] {
+    if (table.includes(".")) {
+      const [schema, name] = table.split(".");
+      return [schema, name];
+    }
+    return [null, table];
+  }
+
+  /**
+   * Parse the value list out of an ENUM/SET column type.
+   * "enum('a','it''s')" -> ["a", "it's"]
+   */
+  private parseEnumValues(columnType: string): string[] | undefined {
+    const match = columnType.match(/^(?:enum|set)\((.*)\)$/i);
+    if (!match) return undefined;
+
+    const values: string[] = [];
+    const valueRegex = /'((?:[^']|'')*)'/g;
+    let valueMatch: RegExpExecArray | null;
+    while ((valueMatch = valueRegex.exec(match[1])) !== null) {
+      values.push(valueMatch[1].replace(/''/g, "'"));
+    }
+    return values;
+  }
+
+  private async getColumnTypes(table: string): Promise<Record<string, string>> {
+    const pool = this.getPool();
+    const [schema, tableName] = this.splitTableName(table);
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT COLUMN_NAME as column_name, DATA_TYPE as data_type
+       FROM information_schema.COLUMNS
+       WHERE TABLE_SCHEMA = COALESCE(?, DATABASE()) AND TABLE_NAME = ?`,
+      [schema, tableName],
+    );
+
+    const colTypes: Record<string, string> = {};
+    for (const row of rows) {
+      colTypes[row.column_name] = row.data_type;
+    }
+    return colTypes;
+  }
+
+  /**
+   * Serialize a value for binding based on its column type.
+   */
+  private serializeValue(dataType: string | undefined, val: unknown): unknown {
+    if (val === null || val === undefined) return val;
+    const dtype = (dataType || "").toLowerCase();
+    // Handle TINYINT(1) booleans sent as "true"/"false" strings
+    if (dtype === "tinyint" && typeof val === "string") {
+      const lower = val.toLowerCase();
+      if (lower === "true") return 1;
+      if (lower === "false") return 0;
+    }
+    // Handle JSON columns
+    if (dtype === "json") {
+      if (typeof val === "object") return JSON.stringify(val);
+      if (typeof val === "string") {
+        try { JSON.parse(val); return val; } catch { /* pass through */ }
+      }
+    }
+    // SET columns accept a comma-separated list
+    if (dtype === "set" && Array.isArray(val)) {
+      return val.join(",");
+    }
+    return val;
+  }
+
+  private async getPrimaryKeyColumns(table: string): Promise<{ name: string; autoIncrement: boolean }[]> {
+    const pool = this.getPool();
+    const [schema, tableName] = this.splitTableName(table);
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT COLUMN_NAME as name, EXTRA as extra
+       FROM information_schema.COLUMNS
+       WHERE TABLE_SCHEMA = COALESCE(?, DATABASE()) AND TABLE_NAME = ? AND COLUMN_KEY = 'PRI'
+       ORDER BY ORDINAL_POSITION`,
+      [schema, tableName],
+    );
+
+    return rows.map((row) => ({
+      name: row.name,
+      autoIncrement: String(row.extra).toLowerCase().includes("auto_increment"),
+    }));
+  }
+
+  private async selectByKey(
+    table: string,
+    key: Record<string, unknown>,
+  ): Promise<Record<string, unknown> | undefined> {
+    const pool = this.getPool();
+    const quotedTable = this.quoteIdentifier(table);
+    const whereClause = Object.keys(key)
+      .map((col) => `\`${col}\` = ?`)
+      .join(" AND ");
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT * FROM ${quotedTable} WHERE ${whereClause} LIMIT 1`,
+      Object.values(key),
+    );
+    return rows[0];
+  }
+
+  async getTables(): Promise<TableInfo[]> {
+    const pool = this.getPool();
+
+    const query = `
+      SELECT
+        TABLE_SCHEMA as \`schema\`,
+        TABLE_NAME as name,
+        TABLE_TYPE as type,
+        COALESCE(DATA_LENGTH, 0) + COALESCE(INDEX_LENGTH, 0) as size_bytes,
+        TABLE_ROWS as row_count
+      FROM information_schema.TABLES
+      WHERE TABLE_SCHEMA = DATABASE()
+      ORDER BY TABLE_NAME
+    `;
+
+    const [rows] = await pool.query<RowDataPacket[]>(query);
+
+    return rows.map((row) => ({
+      name: row.name,
+      schema: row.schema,
+      type: row.type === "VIEW" ? "view" : "table",
+      rowCount: parseInt(row.row_count) || 0,
+      sizeBytes: parseInt(row.size_bytes) || 0,
+    }));
+  }
+
+  async getTableSchema(tableName: string): Promise<ColumnInfo[]> {
+    const pool = this.getPool();
+    const [schema, table] = this.splitTableName(tableName);
+
+    const query = `
+      SELECT
+        c.COLUMN_NAME as name,
+        c.DATA_TYPE as data_type,
+        c.COLUMN_TYPE as column_type,
+        c.IS_NULLABLE = 'YES' as nullable,
+        c.COLUMN_DEFAULT as default_value,
+        c.COLUMN_KEY = 'PRI' as is_primary_key
+      FROM information_schema.COLUMNS c
+      WHERE c.TABLE_SCHEMA = COALESCE(?, DATABASE()) AND c.TABLE_NAME = ?
+      ORDER BY c.ORDINAL_POSITION
+    `;
+
+    const [[rows], foreignKeys] = await Promise.all([
+      pool.query<RowDataPacket[]>(query, [schema, table]),
+      this.getForeignKeys(schema, table),
+    ]);
+    const fkRefs = this.foreignKeyRefs(foreignKeys);
+
+    return rows.map((row) => {
+      const columnType = String(row.column_type);
+      return {
+        name: row.name,
+        type: columnType.toLowerCase() === "tinyint(1)" ? "boolean" : row.data_type,
+        nullable: !!row.nullable,
+        isPrimaryKey: !!row.is_primary_key,
+        isForeignKey: fkRefs.has(row.name),
+        defaultValue: row.default_value ?? undefined,
+        foreignKeyRef: fkRefs.get(row.name),
+        enumValues: this.parseEnumValues(columnType),
+      };
+    });
+  }
+
+  async getRelationships(): Promise<Relationship[]> {
+    return this.getForeignKeys();
+  }
+
+  /**
+   * Foreign keys of one table, or of every table in the current database.
+   * KEY_COLUMN_USAGE pairs each column with its referenced column, in key order.
+   */
+  private async getForeignKeys(schema?: string | null, table?: string): Promise<Relationship[]> {
+    const pool = this.getPool();
+
+    const query = `
+      SELECT
+        CONSTRAINT_NAME as constraint_name,
+        TABLE_NAME as source_table,
+        COLUMN_NAME as source_column,
+        REFERENCED_TABLE_NAME as target_table,
+        REFERENCED_COLUMN_NAME as target_column
+      FROM information_schema.KEY_COLUMN_USAGE
+      WHERE TABLE_SCHEMA = COALESCE(?, DATABASE())
+        AND REFERENCED_TABLE_NAME IS NOT NULL
+        ${table ? "AND TABLE_NAME = ?" : ""}
+      ORDER BY TABLE_NAME, CONSTRAINT_NAME, ORDINAL_POSITION
+    `;
+
+    const params = table ? [schema ?? null, table] : [schema ?? null];
+    const [rows] = await pool.query<RowDataPacket[]>(query, params);
+
+    return this.groupForeignKeys(
+      rows.map((row) => ({
+        constraintName: row.constraint_name,
+        sourceTable: row.source_table,
+        sourceColumn: row.source_column,
+        targetTable: row.target_table,
+        targetColumn: row.target_column,
+      })),
+    );
+  }
+
+  async getRows(
+    table: string,
+    options: QueryOptions,
+  ): Promise<PaginatedResult> {
+    const pool = this.getPool();
+    const { page, pageSize, sort, filters } = options;
+
+    // Validate and quote table name to prevent SQL injection
+    const quotedTable = this.quoteIdentifier(table);
+    const offset = (page - 1) * pageSize;
+
+    // Build WHERE clause from filters with validated column names
+    const { where: whereClause, params } = compileSqlFilter(filters, {
+      column: (name) => {
+        this.validateColumnName(name);
+        return `\`${name}\``;
+      },
+      placeholder: () => "?",
+      regex: (column, pattern) => `${column} REGEXP ${pattern}`,
+    });
+
+    // Build ORDER BY clause with validated column names
+    const orderClause = this.orderByClause(sort, (name) => {
+      this.validateColumnName(name);
+      return `\`${name}\``;
+    });
+
+    // Get total count
+    const [countRows] = await pool.query<RowDataPacket[]>(
+      `SELECT COUNT(*) as total FROM ${quotedTable} ${whereClause}`,
+      params,
+    );
+    const total = parseInt(countRows[0].total);
+
+    // Get paginated data
+    const [dataRows] = await pool.query<RowDataPacket[]>(
+      `
+      SELECT * FROM ${quotedTable}
+      ${whereClause}
+      ${orderClause}
+      LIMIT ? OFFSET ?
+    `,
+      [...params, pageSize, offset],
+    );
+
+    return {
+      data: dataRows,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    };
+  }
+
+  async insertRow(
+    table: string,
+    data: Record<string, unknown>,
+  ): Promise<Record<string, unknown>> {
+    const pool = this.getPool();
+
+    // Validate table and column names to prevent SQL injection
+    const quotedTable = this.quoteIdentifier(table);
+    const columns = Object.keys(data);
+    columns.forEach((col) => this.validateColumnName(col));
+
+    const colTypes = await this.getColumnTypes(table);
+    const values = columns.map((col) => this.serializeValue(colTypes[col], data[col]));
+
+    const query = `
+      INSERT INTO ${quotedTable} (${columns.map((c) => `\`${c}\``).join(", ")})
+      VALUES (${columns.map(() => "?").join(", ")})
+    `;
+
+    const [result] = await pool.query<ResultSetHeader>(query, values);
+
+    // MySQL has no RETURNING — re-read the row by its primary key
+    const pkColumns = await this.getPrimaryKeyColumns(table);
+    if (pkColumns.length === 1 && pkColumns[0].autoIncrement && result.insertId) {
+      const row = await this.selectByKey(table, { [pkColumns[0].name]: result.insertId });
+      if (row) return row;
+    } else if (pkColumns.length > 0 && pkColumns.every((pk) => pk.name in data)) {
+      const key = Object.fromEntries(pkColumns.map((pk) => [pk.name, data[pk.name]]));
+      const row = await this.selectByKey(table, key);
+      if (row) return row;
+    }
+
+    return data;
+  }
+
+  async updateRow(
+    table: string,
+    primaryKey: Record<string, unknown>,
+    data: Record<string, unknown>,
+  ): Promise<Record<string, unknown>> {
+    const pool = this.getPool();
+
+    // Validate table and column names to prevent SQL injection
+    const quotedTable = this.quoteIdentifier(table);
+    const setColumns = Object.keys(data);
+    setColumns.forEach((col) => this.validateColumnName(col));
+    Object.keys(primaryKey).forEach((col) => this.validateColumnName(col));
+
+    const colTypes = await this.getColumnTypes(table);
+
+    const values = [
+      ...setColumns.map((col) => this.serializeValue(colTypes[col], data[col])),
+      ...Object.values(primaryKey),
+    ];
+
+    const setClause = setColumns.map((col) => `\`${col}\` = ?`).join(", ");
+    const whereClause = Object.keys(primaryKey)
+      .map((col) => `\`${col}\` = ?`)
+      .join(" AND ");
+
+    const query = `
+      UPDATE ${quotedTable}
+      SET ${setClause}
+      WHERE ${whereClause}
+    `;
+
+    const [result] = await pool.query<ResultSetHeader>(query, values);
+
+    if (result.affectedRows === 0) {
+      throw new Error(
+        `No rows updated. The row may not exist or primary key values may be incorrect.`,
+      );
+    }
+
+    const updated = await this.selectByKey(table, primaryKey);
+    return updated ?? { ...primaryKey, ...data };
+  }
+
+  async deleteRow(
+    table: string,
+    primaryKey: Record<string, unknown>,
+  ): Promise<boolean> {
+    const pool = this.getPool();
+
+    // Validate table and column names to prevent SQL injection
+    const quotedTable = this.quoteIdentifier(table);
+    Object.keys(primaryKey).forEach((col) => this.validateColumnName(col));
+
+    const whereClause = Object.keys(primaryKey)
+      .map((col) => `\`${col}\` = ?`)
+      .join(" AND ");
+
+    const [result] = await pool.query<ResultSetHeader>(
+      `DELETE FROM ${quotedTable} WHERE ${whereClause}`,
+      Object.values(primaryKey),
+    );
+
+    return result.affectedRows > 0;
+  }
+
+  async executeQuery(query: string, options: ExecuteQueryOptions = {}): Promise<QueryResult> {
+    if (options.timeoutMs === undefined) return this.queryOn(this.getPool(), query, options);
+
+    // The timeout is a session variable, so the run needs a connection of its own
+    const connection = await this.getPool().getConnection();
+    try {
+      return await this.queryWithTimeout(connection, query, options);
+    } finally {
+      connection.release();
+    }
+  }
+
+  async openSession(): Promise<QuerySession> {
+    const connection = await this.getPool().getConnection();
+    return {
+      executeQuery: (query, options) => this.queryWithTimeout(connection, query, options),
+      close: async () => {
+        // Never hand a connection with an open transaction back to the pool
+        await connection.query("ROLLBACK").catch(() => {});
+        connection.release();
+      },
+    };
+  }
+
+  /**
+   * MySQL uses max_execution_time (ms, SELECT only), MariaDB uses
+   * max_statement_time (seconds). 0 disables either.
+   */
+  private async setStatementTimeout(connection: PoolConnection, timeoutMs: number): Promise<void> {
+    await connection
+      .query(`SET SESSION max_execution_time = ${Math.floor(timeoutMs)}`)
+      .catch(() => connection.query(`SET SESSION max_statement_time = ${timeoutMs / 1000}`))
+      .catch(() => {
+        // Neither variable is supported — run without a server-side timeout
+      });
+  }
+
+  /**
+   * Run on `connection` under the run's statement timeout, then put back the
+   * pool default.
+   */
+  private async queryWithTimeout(
+    connection: PoolConnection,
+    query: string,
+    options: ExecuteQueryOptions = {},
+  ): Promise<QueryResult> {
+    if (options.timeoutMs === undefined) return this.queryOn(connection, query, options);
+
+    await this.setStatementTimeout(connection, options.timeoutMs);
+    try {
+      return await this.queryOn(connection, query, options);
+    } finally {
+      await this.setStatementTimeout(connection, STATEMENT_TIMEOUT_MS);
+    }
+  }
+
+  private async queryOn(
+    runner: Pool | PoolConnection,
+    query: string,
+    options: ExecuteQueryOptions = {},
+  ): Promise<QueryResult> {
+    const startTime = Date.now();
+
+    try {
+      // Parameters go through a server-side prepared statement, not client-side escaping
+      const { query: text, values } = bindSqlParams(query, "positional", options.params, "mysql");
+      const [result, fields] = values.length > 0
+        ? await runner.execute(text, values.map((param) => param.value))
+        : await runner.query(query);
+      const executionTimeMs = Date.now() - startTime;
+
+      // Statements without a result set (INSERT/UPDATE/DDL) return a header
+      if (!Array.isArray(result)) {
+        return {
+          rows: [],
+          columns: [],
+          rowCount: (result as ResultSetHeader).affectedRows,
+          executionTimeMs,
+        };
+      }
+
+      const rows = result as RowDataPacket[];
+      return {
+        rows,
+        columns: (fields as FieldPacket[] | undefined)?.map((f) => f.name) || [],
+        rowCount: rows.length,
+        executionTimeMs,
+      };
+    } catch (error) {
+      return {
+        rows: [],
+        columns: [],
+        rowCount: 0,
+        executionTimeMs: Date.now() - startTime,
+        error:
+          error instanceof Error ? error.message : "Query execution failed",
+        errorPosition: locateError(error, query),
+      };
+    }
+  }
+
+  /**
+   * EXPLAIN FORMAT=TREE, or EXPLAIN ANALYZE when analyzing (MySQL 8.0.18+).
+   * An analyzed statement runs inside a transaction that is rolled back.
+   */
+  async explainQuery(query: string, options: ExplainOptions = {}): Promise<QueryPlan> {
+    const { query: text, values } = bindSqlParams(query, "positional", options.params, "mysql");
+    const sql = `${options.analyze ? "EXPLAIN ANALYZE" : "EXPLAIN FORMAT=TREE"} ${text}`;
+    const connection = await this.getPool().getConnection();
+
+    try {
+      if (options.analyze) await connection.query("START TRANSACTION");
+      const [rows] = values.length > 0
+        ? await connection.execute<RowDataPacket[]>(sql, values.map((param) => param.value))
+        : await connection.query<RowDataPacket[]>(sql);
+      const output = String(Object.values(rows[0] ?? {})[0] ?? "");
+
+      return {
+        root: parseTreePlan(output),
+        analyzed: !!options.analyze,
+        outputs: [{ label: "Tree", text: output }],
+      };
+    } finally {
+      if (options.analyze) await connection.query("ROLLBACK").catch(() => {});
+      connection.release();
+    }
+  }
+
+  async getTableStats(table: string): Promise<TableStats> {
+    const pool = this.getPool();
+    const [schema, tableName] = this.splitTableName(table);
+
+    try {
+      const query = `
+        SELECT
+          t.TABLE_ROWS as row_count,
+          COALESCE(t.DATA_LENGTH, 0) + COALESCE(t.INDEX_LENGTH, 0) as size_bytes,
+          COALESCE(t.UPDATE_TIME, t.CREATE_TIME) as last_modified,
+          (SELECT COUNT(DISTINCT s.INDEX_NAME)
+           FROM information_schema.STATISTICS s
+           WHERE s.TABLE_SCHEMA = t.TABLE_SCHEMA AND s.TABLE_NAME = t.TABLE_NAME) as index_count
+        FROM information_schema.TABLES t
+        WHERE t.TABLE_SCHEMA = COALESCE(?, DATABASE()) AND t.TABLE_NAME = ?
+      `;
+
+      const [rows] = await pool.query<RowDataPacket[]>(query, [schema, tableName]);
+      const row = rows[0];
+
+      return {
+        rowCount: parseInt(row?.row_count) || 0,
+        sizeBytes: parseInt(row?.size_bytes) || 0,
+        indexCount: parseInt(row?.index_count) || 0,
+        lastModified: row?.last_modified ? new Date(row.last_modified) : undefined,
+      };
+    } catch (error) {
+      console.error("Error getting table stats:", error);
+      return {
+        rowCount: 0,
+        sizeBytes: 0,
+        indexCount: 0,
+      };
+    }
+  }
+
+  async getIndexInfo(table: string): Promise<IndexInfo[]> {
+    const pool = this.getPool();
+    const [schema, tableName] = this.splitTableName(table);
+
+    const query = `
+      SELECT
+        INDEX_NAME as name,
+        COLUMN_NAME as column_name,
+        NON_UNIQUE = 0 as is_unique,
+        INDEX_TYPE as type
+      FROM information_schema.STATISTICS
+      WHERE TABLE_SCHEMA = COALESCE(?, DATABASE()) AND TABLE_NAME = ?
+      ORDER BY INDEX_NAME, SEQ_IN_INDEX
+    `;
+
+    const [rows] = await pool.query<RowDataPacket[]>(query, [schema, tableName]);
+
+    // Group columns by index name
+    const indexMap = new Map<string, IndexInfo>();
+    for (const row of rows) {
+      if (!indexMap.has(row.name)) {
+        indexMap.set(row.name, {
+          name: row.name,
+          columns: [],
+          isUnique: !!row.is_unique,
+          isPrimary: row.name === "PRIMARY",
+          type: String(row.type).toLowerCase(),
+        });
+      }
+      // Functional index parts have no column name
+      indexMap.get(row.name)!.columns.push(row.column_name ?? "<expression>");
+    }
+
+    return Array.from(indexMap.values());
+  }
+
+  async getDatabaseStats(): Promise<{
+    totalSize: number;
+    tableCount: number;
+    version: string;
+  }> {
+    const pool = this.getPool();
+
+    const statsQuery = `
+      SELECT
+        SUM(COALESCE(DATA_LENGTH, 0) + COALESCE(INDEX_LENGTH, 0)) as size,
+        COUNT(*) as count
+      FROM information_schema.TABLES
+      WHERE TABLE_SCHEMA = DATABASE()
+    `;
+    const versionQuery = `SELECT VERSION() as version`;
+
+    const [[statsRows], [versionRows]] = await Promise.all([
+      pool.query<RowDataPacket[]>(statsQuery),
+      pool.query<RowDataPacket[]>(versionQuery),
+    ]);
+
+    return {
+      totalSize: parseInt(statsRows[0].size) || 0,
+      tableCount: parseInt(statsRows[0].count) || 0,
+      version: this.formatVersion(versionRows[0].version),
+    };
+  }
+}
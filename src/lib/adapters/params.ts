@@ -0,0 +1,87 @@
+import type { EditorLanguage } from "../engines/engine";
+import type { ScriptDialect } from "../engines/statements";
+import { placeholderName, replaceParameters } from "../engines/parameters";
+import { QueryParam, QueryParams } from "./types";
+
+/**
+ * Binding of editor query parameters. Placeholders are rewritten to the
+ * driver's own markers and the values sent alongside the query, so a value
+ * is never part of the query text.
+ */
+
+function lookup(params: QueryParams, name: string): QueryParam {
+  const param = params[name];
+  if (!param) throw new Error(`No value given for parameter "${name}"`);
+  return param;
+}
+
+/**
+ * Rewrite a SQL query's placeholders to driver markers and return the values
+ * in marker order: `$1, $2, ...` with one number per name ("numbered"), or a
+ * `?` per occurrence ("positional"). Strings are skipped by `dialect`'s
+ * quoting rules. Queries without placeholders come back unchanged with no values.
+ */
+export function bindSqlParams(
+  query: string,
+  style: "numbered" | "positional",
+  params: QueryParams = {},
+  dialect?: ScriptDialect,
+): { query: string; values: QueryParam[] } {
+  const numbers = new Map<string, number>();
+  const bound = replaceParameters(query, "sql", (name) => {
+    if (style === "positional") return "?";
+    if (!numbers.has(name)) numbers.set(name, numbers.size + 1);
+    return `$${numbers.get(name)}`;
+  }, dialect);
+
+  const names = style === "positional" ? bound.names : [...numbers.keys()];
+  return { query: bound.query, values: names.map((name) => lookup(params, name)) };
+}
+
+/**
+ * A parameter's value for a document driver. Dates become Date objects.
+ */
+export function paramValue(name: string, params: QueryParams = {}): unknown {
+  const param = lookup(params, name);
+  return param.type === "date" ? new Date(param.value) : param.value;
+}
+
+/**
+ * Replace every string in parsed query arguments that is exactly a
+ * placeholder with the parameter's value (see paramValue()).
+ */
+export function substituteParams(value: unknown, params: QueryParams = {}): unknown {
+  if (typeof value === "string") {
+    const name = placeholderName(value);
+    return name ? paramValue(name, params) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substituteParams(item, params));
+  }
+  if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteParams(item, params)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Bind the placeholders of one command argument (e.g. `user:{{id}}`) to their
+ * values as text, NULL as an empty string. The value stays inside the
+ * argument it was typed in, so it can't add arguments to the command.
+ */
+export function bindArgument(arg: string, params: QueryParams = {}): string {
+  return replaceParameters(arg, "plaintext", (name) => {
+    const { value } = lookup(params, name);
+    return value === null ? "" : String(value);
+  }).query;
+}
+
+/**
+ * Turn unquoted placeholders into string literals so a document or command
+ * parser accepts them; substituteParams() then swaps in the values.
+ */
+export function quotePlaceholders(query: string, language: EditorLanguage): string {
+  return replaceParameters(query, language, (name) => JSON.stringify(`{{${name}}}`)).query;
+}
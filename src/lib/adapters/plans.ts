@@ -0,0 +1,35 @@
+/**
+ * Helpers for mapping engine plan output onto PlanNode (see types.ts).
+ */
+
+/**
+ * A plan attribute as a number. Engines report some figures as strings
+ * ("Estimated Cardinality": "2000").
+ */
+export function planNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * The given attributes of a plan node as one line, e.g.
+ * "Index Cond: (id = 1) · Filter: (active)". Undefined when none are set.
+ */
+export function planDetail(properties: Record<string, unknown>, keys: string[]): string | undefined {
+  const parts = keys
+    .filter((key) => properties[key] !== undefined && properties[key] !== "")
+    .map((key) => {
+      const value = properties[key];
+      const text = Array.isArray(value)
+        ? value.join(", ")
+        : typeof value === "object"
+          ? JSON.stringify(value)
+          : String(value);
+      return `${key}: ${text}`;
+    });
+  return parts.length > 0 ? parts.join(" · ") : undefined;
+}
@@ -1,4 +1,5 @@
-import { Pool, PoolClient } from "pg";
+import { Pool, PoolClient, QueryResult as PgQueryResult } from "pg";
+import Cursor from "pg-cursor";
 import {
   BaseAdapter,
   TableInfo,
@@ -7,12 +8,146 @@ import {
   QueryOptions,
   PaginatedResult,
   QueryResult,
+  AdapterCapabilities,
+  ExecuteQueryOptions,
+  StreamQueryOptions,
+  QueryBatch,
+  QuerySession,
+  ExplainOptions,
+  QueryPlan,
+  PlanNode,
   TableStats,
   IndexInfo,
+  FilterExpression,
+  SortKey,
 } from "./types";
+import { SqlFilterDialect, compileSqlFilter } from "./filters";
+import { KeysetKey, decodeCursor, keysetKey, keysetOrderBy, keysetPage, keysetSeek } from "./keyset";
+import { locateError } from "./error-position";
+import { bindSqlParams } from "./params";
+import { planDetail, planNumber } from "./plans";
+import { postgresqlEngine } from "../engines/postgresql";
+
+/**
+ * Postgres-wire databases that need their own catalog/stat queries.
+ * They all speak the protocol, but vanilla catalog functions like
+ * pg_total_relation_size or pg_database_size are missing or meaningless on them.
+ */
+type PostgresDialect = "postgresql" | "cockroachdb" | "yugabytedb" | "redshift";
+
+const DIALECT_LABELS: Record<PostgresDialect, string> = {
+  postgresql: "PostgreSQL",
+  cockroachdb: "CockroachDB",
+  yugabytedb: "YugabyteDB",
+  redshift: "Amazon Redshift",
+};
+
+// Internal schemas hidden from the table list, per dialect
+const SYSTEM_SCHEMAS: Record<PostgresDialect, string[]> = {
+  postgresql: ["pg_catalog", "information_schema"],
+  yugabytedb: ["pg_catalog", "information_schema"],
+  cockroachdb: ["pg_catalog", "information_schema", "crdb_internal", "pg_extension"],
+  redshift: ["pg_catalog", "information_schema", "pg_internal", "pg_automv", "catalog_history"],
+};
+
+// Schema assumed for table names that aren't schema-qualified
+const DEFAULT_SCHEMA = "public";
+
+// Statement timeout for every pooled connection (ms)
+const STATEMENT_TIMEOUT_MS = 30000;
+
+// Conditions shown on a plan node, in this order
+const PLAN_DETAIL_KEYS = [
+  "Index Name",
+  "Index Cond",
+  "Hash Cond",
+  "Merge Cond",
+  "Join Filter",
+  "Recheck Cond",
+  "Filter",
+  "Sort Key",
+  "Group Key",
+];
+
+// A node of EXPLAIN (FORMAT JSON) output
+type PgPlan = { "Node Type": string; Plans?: PgPlan[] } & Record<string, unknown>;
+
+/**
+ * Map a node of EXPLAIN (FORMAT JSON) output. Actual figures are per loop;
+ * they're multiplied out so they add up across the tree.
+ */
+function toPlanNode(plan: PgPlan): PlanNode {
+  const { Plans = [], ...properties } = plan;
+  const loops = planNumber(plan["Actual Loops"]) ?? 1;
+  const actualRows = planNumber(plan["Actual Rows"]);
+  const actualTime = planNumber(plan["Actual Total Time"]);
+  const relation = plan["Relation Name"]
+    ? [plan.Schema, plan["Relation Name"]].filter(Boolean).join(".")
+    : (plan["CTE Name"] ?? plan["Function Name"]);
+
+  return {
+    operation: plan["Join Type"] && plan["Join Type"] !== "Inner"
+      ? `${plan["Node Type"]} (${plan["Join Type"]})`
+      : plan["Node Type"],
+    relation: relation ? String(relation) : undefined,
+    detail: planDetail(properties, PLAN_DETAIL_KEYS),
+    cost: planNumber(plan["Total Cost"]),
+    estimatedRows: planNumber(plan["Plan Rows"]),
+    actualRows: actualRows !== undefined ? actualRows * loops : undefined,
+    totalTimeMs: actualTime !== undefined ? actualTime * loops : undefined,
+    fullScan: plan["Node Type"] === "Seq Scan",
+    properties,
+    children: Plans.map(toPlanNode),
+  };
+}
+
+/**
+ * Read the next batch from a cursor along with its result metadata (fields, command row count).
+ */
+function readCursor(
+  cursor: Cursor,
+  maxRows: number,
+): Promise<{ rows: Record<string, unknown>[]; result: PgQueryResult }> {
+  return new Promise((resolve, reject) => {
+    cursor.read(maxRows, (err, rows, result) => (err ? reject(err) : resolve({ rows, result })));
+  });
+}
+
+/**
+ * Detect the dialect from the `SELECT version()` string:
+ *  - CockroachDB CCL v23.2.1 (x86_64-pc-linux-gnu, ...)
+ *  - PostgreSQL 11.2-YB-2.20.1.0-b0 on x86_64-pc-linux-gnu, ...
+ *  - PostgreSQL 8.0.2 on i686-pc-linux-gnu, ..., Redshift 1.0.67699
+ */
+function detectDialect(version: string): PostgresDialect {
+  if (/CockroachDB/i.test(version)) return "cockroachdb";
+  if (/-YB-|YugabyteDB/i.test(version)) return "yugabytedb";
+  if (/Redshift/i.test(version)) return "redshift";
+  return "postgresql";
+}
+
+/**
+ * Prefix the raw version string with the detected flavor unless it already names it.
+ */
+function formatVersion(dialect: PostgresDialect, version: string): string {
+  const label = DIALECT_LABELS[dialect];
+  return version.startsWith(label) ? version : `${label} (${version})`;
+}
 
 export class PostgresAdapter extends BaseAdapter {
   private pool: Pool | null = null;
+  private dialect: PostgresDialect = "postgresql";
+  private serverVersion = "";
+  // Backend PID of each running editor query, by query ID
+  private runningQueries = new Map<string, number>();
+
+  // Only PostgreSQL and YugabyteDB have EXPLAIN (FORMAT JSON); the dialect is known once connected
+  get capabilities(): AdapterCapabilities {
+    return {
+      ...postgresqlEngine.capabilities,
+      supportsExplain: this.dialect === "postgresql" || this.dialect === "yugabytedb",
+    };
+  }
 
   async connect(): Promise<void> {
     try {
@@ -30,12 +165,18 @@ export class PostgresAdapter extends BaseAdapter {
 
       // Set statement timeout for all queries (30 seconds max)
       this.pool.on("connect", (client) => {
-        client.query("SET statement_timeout = '30000'");
+        client.query(`SET statement_timeout = ${STATEMENT_TIMEOUT_MS}`);
       });
 
-      // Test the connection
+      // Test the connection and detect which Postgres-wire dialect we're talking to
       const client = await this.pool.connect();
-      client.release();
+      try {
+        const result = await client.query("SELECT version()");
+        this.serverVersion = result.rows[0].version;
+        this.dialect = detectDialect(this.serverVersion);
+      } finally {
+        client.release();
+      }
       this.connected = true;
     } catch (error) {
       this.connected = false;
@@ -65,9 +206,10 @@ export class PostgresAdapter extends BaseAdapter {
       client.release();
       await testPool.end();
 
+      const version: string = result.rows[0].version;
       return {
         success: true,
-        message: `Connected successfully. ${result.rows[0].version}`,
+        message: `Connected successfully. ${formatVersion(detectDialect(version), version)}`,
       };
     } catch (error) {
       return {
@@ -130,6 +272,120 @@ export class PostgresAdapter extends BaseAdapter {
       .join(".");
   }
 
+  /**
+   * How filters compile for this engine: `$n` placeholders, ILIKE and `~` regexes.
+   */
+  private filterDialect(): SqlFilterDialect {
+    return {
+      column: (name) => {
+        this.validateColumnName(name);
+        return `"${name}"`;
+      },
+      placeholder: (index) => `$${index + 1}`,
+      asText: (column) => `${column}::text`,
+      ilike: (column, pattern) => `${column} ILIKE ${pattern}`,
+      regex: (column, pattern) => `${column} ~ ${pattern}`,
+    };
+  }
+
+  /**
+   * Split a "schema.table" name. Tables are listed schema-qualified so that
+   * same-named tables in different schemas stay distinct; bare names resolve
+   * to the default schema.
+   */
+  private splitTableName(tableName: string): { schema: string; table: string } {
+    const dot = tableName.indexOf(".");
+    return dot === -1
+      ? { schema: DEFAULT_SCHEMA, table: tableName }
+      : { schema: tableName.slice(0, dot), table: tableName.slice(dot + 1) };
+  }
+
+  /**
+   * SQL list of the dialect's internal schemas, for `NOT IN (...)` filters.
+   * Values are constants, so inlining them is safe.
+   */
+  private systemSchemaList(): string {
+    return SYSTEM_SCHEMAS[this.dialect].map((s) => `'${s}'`).join(", ");
+  }
+
+  /**
+   * Estimated row counts and on-disk sizes keyed by "schema.table".
+   * Each dialect exposes these through different catalogs; failures are
+   * swallowed so missing stats never hide tables from the list.
+   */
+  private async getRelationStats(
+    schema?: string,
+    table?: string,
+  ): Promise<Map<string, { rowCount: number; sizeBytes: number }>> {
+    const pool = this.getPool();
+    const stats = new Map<string, { rowCount: number; sizeBytes: number }>();
+    const params = schema && table ? [schema, table] : [];
+
+    const merge = (rows: { schema: string; name: string; row_count?: string; size_bytes?: string }[]) => {
+      for (const row of rows) {
+        const key = `${row.schema}.${row.name}`;
+        const current = stats.get(key) ?? { rowCount: 0, sizeBytes: 0 };
+        if (row.row_count != null) current.rowCount = Math.max(parseInt(row.row_count) || 0, 0);
+        if (row.size_bytes != null) current.sizeBytes = parseInt(row.size_bytes) || 0;
+        stats.set(key, current);
+      }
+    };
+
+    try {
+      if (this.dialect === "cockroachdb") {
+        // reltuples is always 0 on CockroachDB — use the optimizer's table statistics
+        const rowResult = await pool.query(
+          `SELECT t.schema_name as schema, t.name, s.estimated_row_count as row_count
+           FROM crdb_internal.tables t
+           JOIN crdb_internal.table_row_statistics s ON s.table_id = t.table_id
+           WHERE t.database_name = current_database() AND t.state = 'PUBLIC'
+           ${params.length ? "AND t.schema_name = $1 AND t.name = $2" : ""}`,
+          params,
+        );
+        merge(rowResult.rows);
+
+        // Sizes come from range metadata (v23.1+); older clusters just report 0
+        try {
+          const sizeResult = await pool.query(
+            `SELECT schema_name as schema, table_name as name, SUM(range_size_mb) * 1024 * 1024 as size_bytes
+             FROM [SHOW RANGES WITH TABLES, DETAILS]
+             ${params.length ? "WHERE schema_name = $1 AND table_name = $2" : ""}
+             GROUP BY schema_name, table_name`,
+            params,
+          );
+          merge(sizeResult.rows);
+        } catch {
+          // SHOW RANGES ... WITH DETAILS not supported
+        }
+      } else if (this.dialect === "redshift") {
+        // svv_table_info reports size in 1 MB blocks and only lists non-empty tables
+        const result = await pool.query(
+          `SELECT "schema" as schema, "table" as name, tbl_rows as row_count, size * 1024 * 1024 as size_bytes
+           FROM svv_table_info
+           ${params.length ? `WHERE "schema" = $1 AND "table" = $2` : ""}`,
+          params,
+        );
+        merge(result.rows);
+      } else {
+        // YugabyteDB stores data in DocDB, so pg_total_relation_size doesn't reflect it
+        const sizeExpr = this.dialect === "yugabytedb" ? "NULL" : "pg_total_relation_size(c.oid)";
+        const result = await pool.query(
+          `SELECT n.nspname as schema, c.relname as name, c.reltuples::bigint as row_count, ${sizeExpr} as size_bytes
+           FROM pg_class c
+           JOIN pg_namespace n ON c.relnamespace = n.oid
+           WHERE c.relkind IN ('r', 'p', 'm')
+           ${params.length ? "AND n.nspname = $1 AND c.relname = $2" : ""}`,
+          params,
+        );
+        merge(result.rows);
+      }
+    } catch (error) {
+      console.error(`Error getting ${DIALECT_LABELS[this.dialect]} table stats:`, error);
+    }
+
+    return stats;
+  }
+
   async getTables(): Promise<TableInfo[]> {
     const pool = this.getPool();
 
@@ -137,33 +393,35 @@ export class PostgresAdapter extends BaseAdapter {
       SELECT
         t.table_schema as schema,
         t.table_name as name,
-        t.table_type as type,
-        pg_total_relation_size(quote_ident(t.table_schema) || '.' || quote_ident(t.table_name)) as size_bytes,
-        (SELECT reltuples::bigint FROM pg_class WHERE oid = (quote_ident(t.table_schema) || '.' || quote_ident(t.table_name))::regclass) as row_count
+        t.table_type as type
       FROM information_schema.tables t
-      WHERE t.table_schema NOT IN ('pg_catalog', 'information_schema')
+      WHERE t.table_schema NOT IN (${this.systemSchemaList()})
       ORDER BY t.table_schema, t.table_name
     `;
 
-    const result = await pool.query(query);
+    const [result, stats] = await Promise.all([
+      pool.query(query),
+      this.getRelationStats(),
+    ]);
 
-    return result.rows.map((row) => ({
-      name: row.name,
-      schema: row.schema,
-      type: row.type === "VIEW" ? "view" : "table",
-      rowCount: parseInt(row.row_count) || 0,
-      sizeBytes: parseInt(row.size_bytes) || 0,
-    }));
+    return result.rows.map((row) => {
+      const tableStats = stats.get(`${row.schema}.${row.name}`);
+      return {
+        name: `${row.schema}.${row.name}`,
+        schema: row.schema,
+        type: row.type === "VIEW" ? "view" : "table",
+        rowCount: tableStats?.rowCount ?? 0,
+        sizeBytes: tableStats?.sizeBytes ?? 0,
+      };
+    });
   }
 
   async getTableSchema(tableName: string): Promise<ColumnInfo[]> {
     const pool = this.getPool();
 
-    // Parse schema.table format
-    const [schema, table] = tableName.includes(".")
-      ? tableName.split(".")
-      : ["public", tableName];
+    const { schema, table } = this.splitTableName(tableName);
 
+    // Constraint names are only unique per schema, so every join matches on both
     const query = `
       SELECT
         c.column_name as name,
@@ -171,40 +429,27 @@ export class PostgresAdapter extends BaseAdapter {
         c.udt_name as udt_name,
         c.is_nullable = 'YES' as nullable,
         c.column_default as default_value,
-        COALESCE(pk.is_primary, false) as is_primary_key,
-        COALESCE(fk.is_foreign, false) as is_foreign_key,
-        fk.foreign_table,
-        fk.foreign_column
+        COALESCE(pk.is_primary, false) as is_primary_key
       FROM information_schema.columns c
       LEFT JOIN (
         SELECT kcu.column_name, true as is_primary
         FROM information_schema.table_constraints tc
         JOIN information_schema.key_column_usage kcu
           ON tc.constraint_name = kcu.constraint_name
+          AND tc.constraint_schema = kcu.constraint_schema
         WHERE tc.constraint_type = 'PRIMARY KEY'
           AND tc.table_schema = $1
           AND tc.table_name = $2
       ) pk ON c.column_name = pk.column_name
-      LEFT JOIN (
-        SELECT
-          kcu.column_name,
-          true as is_foreign,
-          ccu.table_name as foreign_table,
-          ccu.column_name as foreign_column
-        FROM information_schema.table_constraints tc
-        JOIN information_schema.key_column_usage kcu
-          ON tc.constraint_name = kcu.constraint_name
-        JOIN information_schema.constraint_column_usage ccu
-          ON tc.constraint_name = ccu.constraint_name
-        WHERE tc.constraint_type = 'FOREIGN KEY'
-          AND tc.table_schema = $1
-          AND tc.table_name = $2
-      ) fk ON c.column_name = fk.column_name
       WHERE c.table_schema = $1 AND c.table_name = $2
       ORDER BY c.ordinal_position
     `;
 
-    const result = await pool.query(query, [schema, table]);
+    const [result, foreignKeys] = await Promise.all([
+      pool.query(query, [schema, table]),
+      this.getForeignKeys(schema, table),
+    ]);
+    const fkRefs = this.foreignKeyRefs(foreignKeys);
 
     // Fetch enum values for USER-DEFINED columns (PostgreSQL enums)
     const udtNames = result.rows
@@ -212,7 +457,8 @@ export class PostgresAdapter extends BaseAdapter {
       .map((row) => row.udt_name as string);
 
     const enumMap: Record<string, string[]> = {};
-    if (udtNames.length > 0) {
+    // Redshift has no enum types (or pg_enum)
+    if (udtNames.length > 0 && this.dialect !== "redshift") {
       const uniqueUdts = [...new Set(udtNames)];
       const enumQuery = `
         SELECT t.typname, e.enumlabel
@@ -233,45 +479,66 @@ export class PostgresAdapter extends BaseAdapter {
       type: row.type === 'USER-DEFINED' ? row.udt_name : row.type,
       nullable: row.nullable,
       isPrimaryKey: row.is_primary_key,
-      isForeignKey: row.is_foreign_key,
+      isForeignKey: fkRefs.has(row.name),
       defaultValue: row.default_value || undefined,
-      foreignKeyRef: row.foreign_table
-        ? {
-            table: row.foreign_table,
-            column: row.foreign_column,
-          }
-        : undefined,
+      foreignKeyRef: fkRefs.get(row.name),
       enumValues: enumMap[row.udt_name] || undefined,
     }));
   }
 
   async getRelationships(): Promise<Relationship[]> {
+    return this.getForeignKeys();
+  }
+
+  /**
+   * Foreign keys of one table, or of every user table. Referencing and
+   * referenced columns are paired through position_in_unique_constraint so
+   * composite keys keep their column order.
+   */
+  private async getForeignKeys(schema?: string, table?: string): Promise<Relationship[]> {
     const pool = this.getPool();
+    const params = schema && table ? [schema, table] : [];
 
+    // FK names are only unique per table; the referenced PK/UNIQUE names are unique per schema
     const query = `
       SELECT
+        tc.constraint_name,
+        tc.table_schema as source_schema,
         tc.table_name as source_table,
         kcu.column_name as source_column,
-        ccu.table_name as target_table,
-        ccu.column_name as target_column
+        rkcu.table_schema as target_schema,
+        rkcu.table_name as target_table,
+        rkcu.column_name as target_column
       FROM information_schema.table_constraints tc
       JOIN information_schema.key_column_usage kcu
         ON tc.constraint_name = kcu.constraint_name
-      JOIN information_schema.constraint_column_usage ccu
-        ON tc.constraint_name = ccu.constraint_name
+        AND tc.constraint_schema = kcu.constraint_schema
+        AND tc.table_name = kcu.table_name
+      JOIN information_schema.referential_constraints rc
+        ON tc.constraint_name = rc.constraint_name
+        AND tc.constraint_schema = rc.constraint_schema
+      JOIN information_schema.key_column_usage rkcu
+        ON rc.unique_constraint_name = rkcu.constraint_name
+        AND rc.unique_constraint_schema = rkcu.constraint_schema
+        AND kcu.position_in_unique_constraint = rkcu.ordinal_position
       WHERE tc.constraint_type = 'FOREIGN KEY'
-        AND tc.table_schema NOT IN ('pg_catalog', 'information_schema')
+        ${params.length
+          ? "AND tc.table_schema = $1 AND tc.table_name = $2"
+          : `AND tc.table_schema NOT IN (${this.systemSchemaList()})`}
+      ORDER BY tc.table_schema, tc.table_name, tc.constraint_name, kcu.ordinal_position
     `;
 
-    const result = await pool.query(query);
+    const result = await pool.query(query, params);
 
-    return result.rows.map((row) => ({
-      sourceTable: row.source_table,
-      sourceColumn: row.source_column,
-      targetTable: row.target_table,
-      targetColumn: row.target_column,
-      type: "one-to-many" as const, // Default assumption
-    }));
+    return this.groupForeignKeys(
+      result.rows.map((row) => ({
+        constraintName: row.constraint_name,
+        sourceTable: `${row.source_schema}.${row.source_table}`,
+        sourceColumn: row.source_column,
+        targetTable: `${row.target_schema}.${row.target_table}`,
+        targetColumn: row.target_column,
+      })),
+    );
   }
 
   async getRows(
@@ -279,56 +546,160 @@ export class PostgresAdapter extends BaseAdapter {
     options: QueryOptions,
   ): Promise<PaginatedResult> {
     const pool = this.getPool();
-    const { page, pageSize, sortBy, sortOrder, filters } = options;
+    const { page, pageSize, sort = [], filters } = options;
 
     // Validate and quote table name to prevent SQL injection
     const quotedTable = this.quoteIdentifier(table);
     const offset = (page - 1) * pageSize;
-    const params: unknown[] = [];
-    let paramIndex = 1;
+    const quoteColumn = (name: string) => {
+      this.validateColumnName(name);
+      return `"${name}"`;
+    };
 
     // Build WHERE clause from filters with validated column names
-    let whereClause = "";
-    if (filters && Object.keys(filters).length > 0) {
-      const conditions = Object.entries(filters).map(([key, value]) => {
-        this.validateColumnName(key);
-        params.push(value);
-        return `"${key}" = $${paramIndex++}`;
-      });
-      whereClause = `WHERE ${conditions.join(" AND ")}`;
-    }
+    const { where: whereClause, params } = compileSqlFilter(filters, this.filterDialect());
+
+    // Unfiltered reads of large tables report the catalog estimate
+    const { total, totalIsEstimate } = await this.pageTotal(
+      async () => {
+        if (filters) return undefined;
+        const { schema, table: tbl } = this.splitTableName(table);
+        const stats = await this.getRelationStats(schema, tbl);
+        return stats.get(`${schema}.${tbl}`)?.rowCount;
+      },
+      async () => {
+        const countQuery = `SELECT COUNT(*) as total FROM ${quotedTable} ${whereClause}`;
+        const countResult = await pool.query(countQuery, params);
+        return parseInt(countResult.rows[0].total);
+      },
+    );
+
+    sort.forEach((key) => this.validateColumnName(key.column));
+    const key = await this.getKeysetKey(table, sort);
+
+    if (!key) {
+      // No primary key to seek on — fall back to LIMIT/OFFSET
+      const orderClause = this.orderByClause(sort, quoteColumn);
+      const dataQuery = `
+        SELECT * FROM ${quotedTable}
+        ${whereClause}
+        ${orderClause}
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `;
+      const dataResult = await pool.query(dataQuery, [...params, pageSize, offset]);
 
-    // Build ORDER BY clause with validated column name
-    let orderClause = "";
-    if (sortBy) {
-      this.validateColumnName(sortBy);
-      orderClause = `ORDER BY "${sortBy}" ${sortOrder === "desc" ? "DESC" : "ASC"}`;
+      return {
+        data: dataResult.rows,
+        total,
+        totalIsEstimate,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize),
+      };
     }
 
-    // Get total count
-    const countQuery = `SELECT COUNT(*) as total FROM ${quotedTable} ${whereClause}`;
-    const countResult = await pool.query(countQuery, params);
-    const total = parseInt(countResult.rows[0].total);
+    // Keyset paging: seek past the cursor, or use OFFSET when jumping to a page number.
+    // Key values are read back as text so timestamps keep their full precision.
+    const cursor = options.cursor ? decodeCursor(options.cursor, key) : undefined;
+    const dataParams: unknown[] = [...params];
+    const bind = (value: unknown) => {
+      dataParams.push(value);
+      return `$${dataParams.length}`;
+    };
+
+    let seekClause = whereClause;
+    if (cursor) {
+      const seek = keysetSeek(cursor, key, quoteColumn, bind);
+      seekClause = whereClause ? `${whereClause} AND ${seek}` : `WHERE ${seek}`;
+    }
+    const keyColumns = key.columns
+      .map((col, i) => `${quoteColumn(col.name)}::text AS "__keyset_${i}"`)
+      .join(", ");
 
-    // Get paginated data
-    params.push(pageSize, offset);
     const dataQuery = `
-      SELECT * FROM ${quotedTable}
-      ${whereClause}
-      ${orderClause}
-      LIMIT $${paramIndex++} OFFSET $${paramIndex}
+      SELECT *, ${keyColumns} FROM ${quotedTable}
+      ${seekClause}
+      ${keysetOrderBy(key, quoteColumn, cursor?.direction === "prev")}
+      LIMIT ${bind(pageSize + 1)}${cursor ? "" : ` OFFSET ${bind(offset)}`}
     `;
-    const dataResult = await pool.query(dataQuery, params);
+    const dataResult = await pool.query(dataQuery, dataParams);
+
+    const result = keysetPage(dataResult.rows, pageSize, key, cursor, page, (row) =>
+      key.columns.map((_, i) => row[`__keyset_${i}`]),
+    );
+    for (const row of result.rows) {
+      key.columns.forEach((_, i) => delete row[`__keyset_${i}`]);
+    }
 
     return {
-      data: dataResult.rows,
+      data: result.rows,
       total,
+      totalIsEstimate,
       page,
       pageSize,
       totalPages: Math.ceil(total / pageSize),
+      cursors: result.cursors,
     };
   }
 
+  async countRows(
+    table: string,
+    filters: FilterExpression | undefined,
+    timeoutMs: number,
+  ): Promise<number> {
+    const pool = this.getPool();
+    const quotedTable = this.quoteIdentifier(table);
+    const { where, params } = compileSqlFilter(filters, this.filterDialect());
+
+    // Raise this connection's statement timeout for the count, then restore the pool default
+    const client = await pool.connect();
+    try {
+      await client.query(`SET statement_timeout = ${Math.floor(timeoutMs)}`);
+      const result = await client.query(`SELECT COUNT(*) as total FROM ${quotedTable} ${where}`, params);
+      return parseInt(result.rows[0].total);
+    } finally {
+      await client.query(`SET statement_timeout = ${STATEMENT_TIMEOUT_MS}`).catch(() => {});
+      client.release();
+    }
+  }
+
+  /**
+   * Seek key for keyset paging: the sort columns followed by the primary key.
+   * Undefined for tables (and views) without a primary key.
+   */
+  private async getKeysetKey(
+    tableName: string,
+    sort: SortKey[],
+  ): Promise<KeysetKey | undefined> {
+    const pool = this.getPool();
+    const { schema, table } = this.splitTableName(tableName);
+
+    const result = await pool.query(
+      `
+      SELECT c.column_name, c.is_nullable = 'YES' as nullable, kcu.ordinal_position as key_position
+      FROM information_schema.columns c
+      LEFT JOIN information_schema.table_constraints tc
+        ON tc.table_schema = c.table_schema
+        AND tc.table_name = c.table_name
+        AND tc.constraint_type = 'PRIMARY KEY'
+      LEFT JOIN information_schema.key_column_usage kcu
+        ON kcu.constraint_name = tc.constraint_name
+        AND kcu.constraint_schema = tc.constraint_schema
+        AND kcu.column_name = c.column_name
+      WHERE c.table_schema = $1 AND c.table_name = $2
+    `,
+      [schema, table],
+    );
+
+    const primaryKey = result.rows
+      .filter((row) => row.key_position !== null)
+      .sort((a, b) => a.key_position - b.key_position)
+      .map((row) => row.column_name as string);
+    const nullable = new Map(result.rows.map((row) => [row.column_name as string, row.nullable as boolean]));
+
+    return keysetKey(primaryKey, sort, (column) => nullable.get(column) ?? true);
+  }
+
   async insertRow(
     table: string,
     data: Record<string, unknown>,
@@ -341,9 +712,7 @@ export class PostgresAdapter extends BaseAdapter {
     columns.forEach((col) => this.validateColumnName(col));
 
     // Get column types so we can properly serialize JSON/JSONB values
-    const [schema, tbl] = table.includes(".")
-      ? table.split(".")
-      : ["public", table];
+    const { schema, table: tbl } = this.splitTableName(table);
     const colTypeResult = await pool.query(
       `SELECT column_name, data_type FROM information_schema.columns WHERE table_schema = $1 AND table_name = $2`,
       [schema, tbl],
@@ -396,9 +765,7 @@ export class PostgresAdapter extends BaseAdapter {
     Object.keys(primaryKey).forEach((col) => this.validateColumnName(col));
 
     // Get column types so we can properly serialize JSON/JSONB values
-    const [schema, tbl] = table.includes(".")
-      ? table.split(".")
-      : ["public", table];
+    const { schema, table: tbl } = this.splitTableName(table);
     const colTypeResult = await pool.query(
       `SELECT column_name, data_type FROM information_schema.columns WHERE table_schema = $1 AND table_name = $2`,
       [schema, tbl],
@@ -477,12 +844,54 @@ export class PostgresAdapter extends BaseAdapter {
     return (result.rowCount ?? 0) > 0;
   }
 
-  async executeQuery(query: string): Promise<QueryResult> {
-    const pool = this.getPool();
+  async executeQuery(query: string, options: ExecuteQueryOptions = {}): Promise<QueryResult> {
+    // A dedicated client, so the backend running the query is known for cancelQuery()
+    // and the timeout can be changed for this statement only
+    const client = await this.getPool().connect();
+    try {
+      return await this.queryOnClient(client, query, options);
+    } finally {
+      client.release();
+    }
+  }
+
+  async *streamQuery(query: string, options: StreamQueryOptions): AsyncGenerator<QueryBatch> {
+    const client = await this.getPool().connect();
+    try {
+      yield* this.streamOnClient(client, query, options);
+    } finally {
+      client.release();
+    }
+  }
+
+  async openSession(): Promise<QuerySession> {
+    const client = await this.getPool().connect();
+    return {
+      executeQuery: (query, options = {}) => this.queryOnClient(client, query, options),
+      streamQuery: (query, options) => this.streamOnClient(client, query, options),
+      close: async () => {
+        // Never hand a connection with an open transaction back to the pool
+        await client.query("ROLLBACK").catch(() => {});
+        client.release();
+      },
+    };
+  }
+
+  private async queryOnClient(
+    client: PoolClient,
+    query: string,
+    options: ExecuteQueryOptions,
+  ): Promise<QueryResult> {
     const startTime = Date.now();
 
     try {
-      const result = await pool.query(query);
+      await this.prepareQueryClient(client, options);
+
+      // Without values the simple protocol runs, which also allows several statements
+      const { query: text, values } = bindSqlParams(query, "numbered", options.params, "postgresql");
+      const result = values.length > 0
+        ? await client.query(text, values.map((param) => param.value))
+        : await client.query(query);
       const executionTimeMs = Date.now() - startTime;
 
       return {
@@ -499,35 +908,139 @@ export class PostgresAdapter extends BaseAdapter {
         executionTimeMs: Date.now() - startTime,
         error:
           error instanceof Error ? error.message : "Query execution failed",
+        errorPosition: locateError(error, query),
+      };
+    } finally {
+      await this.restoreQueryClient(client, options);
+    }
+  }
+
+  private async *streamOnClient(
+    client: PoolClient,
+    query: string,
+    options: StreamQueryOptions,
+  ): AsyncGenerator<QueryBatch> {
+    let cursor: Cursor | null = null;
+
+    try {
+      await this.prepareQueryClient(client, options);
+
+      // A portal read `batchSize` rows at a time, so only one batch is in memory
+      const { query: text, values } = bindSqlParams(query, "numbered", options.params, "postgresql");
+      cursor = client.query(new Cursor(text, values.map((param) => param.value)));
+      for (let first = true; ; first = false) {
+        const { rows, result } = await readCursor(cursor, options.batchSize);
+        const columns = result.fields?.map((f) => f.name) ?? [];
+        const last = rows.length < options.batchSize;
+
+        if (rows.length > 0 || first) {
+          yield {
+            columns,
+            rows,
+            rowCount: last && columns.length === 0 ? result.rowCount ?? 0 : undefined,
+          };
+        }
+        if (last) break;
+      }
+    } finally {
+      await cursor?.close().catch(() => {});
+      await this.restoreQueryClient(client, options);
+    }
+  }
+
+  async explainQuery(query: string, options: ExplainOptions = {}): Promise<QueryPlan> {
+    if (this.dialect !== "postgresql" && this.dialect !== "yugabytedb") {
+      throw new Error(`Query plans are not available for ${DIALECT_LABELS[this.dialect]}`);
+    }
+
+    const prefix = `EXPLAIN (FORMAT JSON${options.analyze ? ", ANALYZE, BUFFERS" : ""}) `;
+    const { query: text, values } = bindSqlParams(query, "numbered", options.params, "postgresql");
+    const client = await this.getPool().connect();
+
+    try {
+      await this.prepareQueryClient(client, options);
+      // ANALYZE really runs the statement; roll back whatever it changed
+      if (options.analyze) await client.query("BEGIN");
+
+      const result = await client.query(prefix + text, values.map((param) => param.value));
+      const [output] = result.rows[0]["QUERY PLAN"] as ({ Plan: PgPlan } & Record<string, unknown>)[];
+
+      return {
+        root: toPlanNode(output.Plan),
+        analyzed: !!options.analyze,
+        planningTimeMs: planNumber(output["Planning Time"]),
+        executionTimeMs: planNumber(output["Execution Time"]),
+        outputs: [{ label: "JSON", text: JSON.stringify(output, null, 2) }],
       };
+    } catch (error) {
+      // Error positions count from the start of the EXPLAIN statement
+      const position = (error as { position?: string }).position;
+      if (position && Number(position) > prefix.length) {
+        (error as { position?: string }).position = String(Number(position) - prefix.length);
+      }
+      throw error;
+    } finally {
+      if (options.analyze) await client.query("ROLLBACK").catch(() => {});
+      await this.restoreQueryClient(client, options);
+      client.release();
+    }
+  }
+
+  /**
+   * Register the client's backend for cancelQuery() and apply the statement timeout.
+   */
+  private async prepareQueryClient(client: PoolClient, options: ExecuteQueryOptions): Promise<void> {
+    if (options.queryId) {
+      const backend = await client.query("SELECT pg_backend_pid() AS pid");
+      this.runningQueries.set(options.queryId, backend.rows[0].pid);
+    }
+    if (options.timeoutMs !== undefined) {
+      await client.query(`SET statement_timeout = ${Math.floor(options.timeoutMs)}`);
+    }
+  }
+
+  private async restoreQueryClient(client: PoolClient, options: ExecuteQueryOptions): Promise<void> {
+    if (options.queryId) this.runningQueries.delete(options.queryId);
+    if (options.timeoutMs !== undefined) {
+      await client.query(`SET statement_timeout = ${STATEMENT_TIMEOUT_MS}`).catch(() => {});
     }
   }
 
+  async cancelQuery(queryId: string): Promise<boolean> {
+    const pid = this.runningQueries.get(queryId);
+    if (pid === undefined) return false;
+
+    const result = await this.getPool().query("SELECT pg_cancel_backend($1) AS cancelled", [pid]);
+    return result.rows[0]?.cancelled === true;
+  }
+
   async getTableStats(table: string): Promise<TableStats> {
     const pool = this.getPool();
 
-    // Parse schema.table format
-    const [schema, tableName] = table.includes(".")
-      ? table.split(".")
-      : ["public", table];
+    const { schema, table: tableName } = this.splitTableName(table);
 
     try {
-      const query = `
-        SELECT
-          pg_total_relation_size(quote_ident($1) || '.' || quote_ident($2)) as size_bytes,
-          (SELECT reltuples::bigint FROM pg_class c
-           JOIN pg_namespace n ON c.relnamespace = n.oid
-           WHERE c.relname = $2 AND n.nspname = $1) as row_count,
-          (SELECT COUNT(*) FROM pg_indexes WHERE schemaname = $1 AND tablename = $2) as index_count
-      `;
-
-      const result = await pool.query(query, [schema, tableName]);
-      const row = result.rows[0];
+      // Redshift has no indexes (it uses sort/dist keys instead)
+      const indexCountPromise =
+        this.dialect === "redshift"
+          ? Promise.resolve(0)
+          : pool
+              .query(
+                `SELECT COUNT(*) as index_count FROM pg_indexes WHERE schemaname = $1 AND tablename = $2`,
+                [schema, tableName],
+              )
+              .then((result) => parseInt(result.rows[0].index_count) || 0);
+
+      const [stats, indexCount] = await Promise.all([
+        this.getRelationStats(schema, tableName),
+        indexCountPromise,
+      ]);
+      const tableStats = stats.get(`${schema}.${tableName}`);
 
       return {
-        rowCount: parseInt(row.row_count) || 0,
-        sizeBytes: parseInt(row.size_bytes) || 0,
-        indexCount: parseInt(row.index_count) || 0,
+        rowCount: tableStats?.rowCount ?? 0,
+        sizeBytes: tableStats?.sizeBytes ?? 0,
+        indexCount,
       };
     } catch (error) {
       console.error("Error getting table stats:", error);
@@ -542,10 +1055,11 @@ export class PostgresAdapter extends BaseAdapter {
   async getIndexInfo(table: string): Promise<IndexInfo[]> {
     const pool = this.getPool();
 
-    // Parse schema.table format
-    const [schema, tableName] = table.includes(".")
-      ? table.split(".")
-      : ["public", table];
+    if (this.dialect === "redshift") {
+      return [];
+    }
+
+    const { schema, table: tableName } = this.splitTableName(table);
 
     const query = `
       SELECT
@@ -591,24 +1105,39 @@ export class PostgresAdapter extends BaseAdapter {
   }> {
     const pool = this.getPool();
 
-    const sizeQuery = `SELECT pg_database_size(current_database()) as size`;
     const countQuery = `
       SELECT COUNT(*) as count
       FROM information_schema.tables
-      WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
+      WHERE table_schema NOT IN (${this.systemSchemaList()})
     `;
-    const versionQuery = `SELECT version()`;
 
-    const [sizeResult, countResult, versionResult] = await Promise.all([
-      pool.query(sizeQuery),
+    const [countResult, totalSize] = await Promise.all([
       pool.query(countQuery),
-      pool.query(versionQuery),
+      this.getDatabaseSize(),
     ]);
 
     return {
-      totalSize: parseInt(sizeResult.rows[0].size) || 0,
+      totalSize,
       tableCount: parseInt(countResult.rows[0].count) || 0,
-      version: versionResult.rows[0].version,
+      version: formatVersion(this.dialect, this.serverVersion),
     };
   }
+
+  /**
+   * Total database size in bytes. Only vanilla Postgres has pg_database_size
+   * that reflects real storage; other dialects sum their per-table stats.
+   */
+  private async getDatabaseSize(): Promise<number> {
+    if (this.dialect === "postgresql") {
+      const result = await this.getPool().query(
+        `SELECT pg_database_size(current_database()) as size`,
+      );
+      return parseInt(result.rows[0].size) || 0;
+    }
+
+    const stats = await this.getRelationStats();
+    let total = 0;
+    for (const { sizeBytes } of stats.values()) total += sizeBytes;
+    return total;
+  }
 }
@@ -0,0 +1,697 @@
+import Database from "better-sqlite3";
+import {
+  BaseAdapter,
+  TableInfo,
+  ColumnInfo,
+  Relationship,
+  QueryOptions,
+  PaginatedResult,
+  QueryResult,
+  ExecuteQueryOptions,
+  ExplainOptions,
+  QueryPlan,
+  PlanNode,
+  TableStats,
+  IndexInfo,
+} from "./types";
+import { compileSqlFilter } from "./filters";
+import { locateError } from "./error-position";
+import { bindSqlParams } from "./params";
+
+// Synthetic primary key exposed for tables without a declared PRIMARY KEY
+const ROWID_COLUMN = "rowid";
+
+export class SQLiteAdapter extends BaseAdapter {
+  private db: Database.Database | null = null;
+
+  /**
+   * Resolve the database file path from a connection string.
+   * Accepts `sqlite:///abs/path.db`, `sqlite://./relative.db`, `file:path.db`,
+   * `sqlite://:memory:` or a bare filesystem path.
+   */
+  private parseFilePath(connectionString: string): string {
+    let filePath = connectionString.trim();
+
+    if (filePath.startsWith("sqlite://")) {
+      filePath = filePath.slice("sqlite://".length);
+    } else if (filePath.startsWith("sqlite:")) {
+      filePath = filePath.slice("sqlite:".length);
+    } else if (filePath.startsWith("file:")) {
+      filePath = filePath.slice("file:".length);
+    }
+
+    // Drop query parameters (e.g. ?mode=ro) — options are passed explicitly
+    const queryIndex = filePath.indexOf("?");
+    if (queryIndex >= 0) {
+      filePath = filePath.slice(0, queryIndex);
+    }
+
+    filePath = decodeURIComponent(filePath);
+    if (!filePath) {
+      throw new Error("SQLite connection string must include a file path");
+    }
+    return filePath;
+  }
+
+  private isMemoryDatabase(filePath: string): boolean {
+    return filePath === ":memory:";
+  }
+
+  async connect(): Promise<void> {
+    try {
+      const filePath = this.parseFilePath(this.connectionString);
+      this.db = new Database(filePath, {
+        // Never create a new empty file when the path is mistyped
+        fileMustExist: !this.isMemoryDatabase(filePath),
+        timeout: 30000, // Wait up to 30s for locks held by other processes
+      });
+      this.db.pragma("foreign_keys = ON");
+      // SQLite parses `x REGEXP y` but ships no implementation of regexp()
+      this.db.function("regexp", { deterministic: true }, (pattern, value) =>
+        value !== null && new RegExp(String(pattern)).test(String(value)) ? 1 : 0,
+      );
+      this.connected = true;
+    } catch (error) {
+      this.connected = false;
+      this.db = null;
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+      this.connected = false;
+    }
+  }
+
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    let testDb: Database.Database | null = null;
+    try {
+      const filePath = this.parseFilePath(this.connectionString);
+      testDb = new Database(filePath, {
+        readonly: !this.isMemoryDatabase(filePath),
+        fileMustExist: !this.isMemoryDatabase(filePath),
+      });
+
+      const row = testDb.prepare("SELECT sqlite_version() as version").get() as {
+        version: string;
+      };
+      // Touch the schema so corrupt or non-SQLite files fail here, not later
+      testDb.prepare("SELECT COUNT(*) FROM sqlite_master").get();
+      testDb.close();
+
+      return {
+        success: true,
+        message: `Connected successfully. SQLite ${row.version}`,
+      };
+    } catch (error) {
+      testDb?.close();
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "Connection failed",
+      };
+    }
+  }
+
+  /**
+   * Lightweight health check using the open handle (no new connections).
+   */
+  async ping(): Promise<boolean> {
+    if (!this.db || !this.db.open) return false;
+    try {
+      this.db.prepare("SELECT 1").get();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private getDb(): Database.Database {
+    if (!this.db) {
+      throw new Error("Database not connected. Call connect() first.");
+    }
+    return this.db;
+  }
+
+  /**
+   * Validate an identifier (table or column name) to prevent SQL injection.
+   * Only allows alphanumeric, underscore, and dot (for schema.table format).
+   */
+  private validateIdentifier(name: string): void {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)?$/.test(name)) {
+      throw new Error(`Invalid identifier: ${name}`);
+    }
+  }
+
+  /**
+   * Validate a column name to prevent SQL injection.
+   */
+  private validateColumnName(name: string): void {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid column name: ${name}`);
+    }
+  }
+
+  /**
+   * Quote and validate an identifier for safe use in queries.
+   */
+  private quoteIdentifier(name: string): string {
+    this.validateIdentifier(name);
+    return name
+      .split(".")
+      .map((part) => `"${part}"`)
+      .join(".");
+  }
+
+  /**
+   * A table uses the rowid fallback when it declares no PRIMARY KEY and
+   * is an ordinary rowid table (views and WITHOUT ROWID tables do not).
+   */
+  private usesRowidFallback(table: string): boolean {
+    const db = this.getDb();
+    const quotedTable = this.quoteIdentifier(table);
+
+    const columns = db.pragma(`table_info(${quotedTable})`) as { pk: number }[];
+    if (columns.some((col) => col.pk > 0)) return false;
+
+    const master = db
+      .prepare("SELECT type, sql FROM sqlite_master WHERE name = ?")
+      .get(table.split(".").pop()) as { type: string; sql: string | null } | undefined;
+    if (!master || master.type !== "table") return false;
+
+    return !/WITHOUT\s+ROWID/i.test(master.sql || "");
+  }
+
+  /**
+   * Convert JS values into something better-sqlite3 can bind.
+   * Booleans become 0/1 and objects are stored as JSON text.
+   */
+  private toBindValue(value: unknown): unknown {
+    if (value === undefined) return null;
+    if (typeof value === "boolean") return value ? 1 : 0;
+    if (value instanceof Date) return value.toISOString();
+    if (value !== null && typeof value === "object" && !Buffer.isBuffer(value)) {
+      return JSON.stringify(value);
+    }
+    return value;
+  }
+
+  async getTables(): Promise<TableInfo[]> {
+    const db = this.getDb();
+
+    const rows = db
+      .prepare(
+        `
+        SELECT name, type
+        FROM sqlite_master
+        WHERE type IN ('table', 'view')
+          AND name NOT LIKE 'sqlite_%'
+        ORDER BY name
+      `,
+      )
+      .all() as { name: string; type: string }[];
+
+    const sizes = this.getObjectSizes();
+    // better-sqlite3 blocks the event loop, so no COUNT(*) per table here;
+    // getTableStats() counts a single table exactly
+    const estimates = this.getRowEstimates();
+
+    return rows.map((row) => ({
+      name: row.name,
+      type: row.type === "view" ? ("view" as const) : ("table" as const),
+      rowCount: estimates.get(row.name),
+      sizeBytes: sizes.get(row.name) || 0,
+    }));
+  }
+
+  /**
+   * Approximate row count per table from sqlite_stat1, which ANALYZE fills.
+   * Each stat starts with the rows in the index (or table); tables that
+   * haven't been analyzed have no estimate.
+   */
+  private getRowEstimates(): Map<string, number> {
+    const db = this.getDb();
+    const estimates = new Map<string, number>();
+    try {
+      const rows = db
+        .prepare("SELECT tbl, MAX(CAST(stat AS INTEGER)) as count FROM sqlite_stat1 GROUP BY tbl")
+        .all() as { tbl: string; count: number }[];
+      for (const row of rows) {
+        estimates.set(row.tbl, row.count);
+      }
+    } catch {
+      // sqlite_stat1 only exists once ANALYZE has run
+    }
+    return estimates;
+  }
+
+  /**
+   * Per-object on-disk size from the dbstat virtual table.
+   * dbstat is an optional compile-time extension, so fall back to no sizes.
+   */
+  private getObjectSizes(): Map<string, number> {
+    const db = this.getDb();
+    const sizes = new Map<string, number>();
+    try {
+      const rows = db
+        .prepare("SELECT name, SUM(pgsize) as size FROM dbstat GROUP BY name")
+        .all() as { name: string; size: number }[];
+      for (const row of rows) {
+        sizes.set(row.name, row.size);
+      }
+    } catch {
+      // dbstat not available
+    }
+    return sizes;
+  }
+
+  async getTableSchema(tableName: string): Promise<ColumnInfo[]> {
+    const db = this.getDb();
+    const quotedTable = this.quoteIdentifier(tableName);
+
+    const columns = db.pragma(`table_info(${quotedTable})`) as {
+      cid: number;
+      name: string;
+      type: string;
+      notnull: number;
+      dflt_value: string | null;
+      pk: number;
+    }[];
+
+    const fkRefs = this.foreignKeyRefs(this.getForeignKeys(tableName));
+
+    const result: ColumnInfo[] = columns.map((col) => {
+      const fkRef = fkRefs.get(col.name);
+      return {
+        name: col.name,
+        type: col.type || "ANY",
+        // PRIMARY KEY columns other than INTEGER PRIMARY KEY may still hold NULLs,
+        // but the grid treats key columns as required
+        nullable: col.notnull === 0 && col.pk === 0,
+        isPrimaryKey: col.pk > 0,
+        isForeignKey: !!fkRef,
+        defaultValue: col.dflt_value ?? undefined,
+        foreignKeyRef: fkRef,
+      };
+    });
+
+    if (this.usesRowidFallback(tableName)) {
+      result.unshift({
+        name: ROWID_COLUMN,
+        type: "INTEGER",
+        nullable: false,
+        isPrimaryKey: true,
+        isForeignKey: false,
+      });
+    }
+
+    return result;
+  }
+
+  private getPrimaryKeyColumns(table: string): string[] {
+    const db = this.getDb();
+    try {
+      const columns = db.pragma(`table_info(${this.quoteIdentifier(table)})`) as {
+        name: string;
+        pk: number;
+      }[];
+      const keyColumns = columns
+        .filter((col) => col.pk > 0)
+        .sort((a, b) => a.pk - b.pk)
+        .map((col) => col.name);
+      return keyColumns.length > 0 ? keyColumns : [ROWID_COLUMN];
+    } catch {
+      return [ROWID_COLUMN];
+    }
+  }
+
+  /**
+   * Foreign keys declared on a table. PRAGMA foreign_key_list returns one row
+   * per column; `id` identifies the constraint and `seq` orders its columns.
+   */
+  private getForeignKeys(table: string): Relationship[] {
+    const foreignKeys = (
+      this.getDb().pragma(`foreign_key_list(${this.quoteIdentifier(table)})`) as {
+        id: number;
+        seq: number;
+        table: string;
+        from: string;
+        to: string | null;
+      }[]
+    ).sort((a, b) => a.id - b.id || a.seq - b.seq);
+
+    return this.groupForeignKeys(
+      foreignKeys.map((fk) => ({
+        // SQLite keeps constraint names only in the CREATE TABLE text
+        constraintName: `${table}_fk_${fk.id}`,
+        sourceTable: table,
+        sourceColumn: fk.from,
+        targetTable: fk.table,
+        // A NULL "to" column means the parent's primary key
+        targetColumn: fk.to ?? this.getPrimaryKeyColumns(fk.table)[fk.seq] ?? ROWID_COLUMN,
+      })),
+    );
+  }
+
+  async getRelationships(): Promise<Relationship[]> {
+    const db = this.getDb();
+
+    const tables = db
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'",
+      )
+      .all() as { name: string }[];
+
+    const relationships: Relationship[] = [];
+    for (const { name } of tables) {
+      try {
+        relationships.push(...this.getForeignKeys(name));
+      } catch {
+        continue;
+      }
+    }
+
+    return relationships;
+  }
+
+  async getRows(
+    table: string,
+    options: QueryOptions,
+  ): Promise<PaginatedResult> {
+    const db = this.getDb();
+    const { page, pageSize, sort, filters } = options;
+
+    // Validate and quote table name to prevent SQL injection
+    const quotedTable = this.quoteIdentifier(table);
+    const offset = (page - 1) * pageSize;
+
+    // Build WHERE clause from filters with validated column names
+    const filter = compileSqlFilter(filters, {
+      column: (name) => {
+        this.validateColumnName(name);
+        return `"${name}"`;
+      },
+      placeholder: () => "?",
+      regex: (column, pattern) => `${column} REGEXP ${pattern}`,
+      likeEscape: " ESCAPE '\\'",
+    });
+    const whereClause = filter.where;
+    const params = filter.params.map((value) => this.toBindValue(value));
+
+    // Build ORDER BY clause with validated column names
+    const orderClause = this.orderByClause(sort, (name) => {
+      this.validateColumnName(name);
+      return `"${name}"`;
+    });
+
+    // Expose rowid so rows without a declared primary key can still be edited
+    const selectList = this.usesRowidFallback(table)
+      ? `${ROWID_COLUMN} AS "${ROWID_COLUMN}", *`
+      : "*";
+
+    // Get total count
+    const countRow = db
+      .prepare(`SELECT COUNT(*) as total FROM ${quotedTable} ${whereClause}`)
+      .get(...params) as { total: number };
+    const total = countRow.total;
+
+    // Get paginated data
+    const data = db
+      .prepare(
+        `
+        SELECT ${selectList} FROM ${quotedTable}
+        ${whereClause}
+        ${orderClause}
+        LIMIT ? OFFSET ?
+      `,
+      )
+      .all(...params, pageSize, offset) as Record<string, unknown>[];
+
+    return {
+      data,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    };
+  }
+
+  async insertRow(
+    table: string,
+    data: Record<string, unknown>,
+  ): Promise<Record<string, unknown>> {
+    const db = this.getDb();
+
+    // Validate table and column names to prevent SQL injection
+    const quotedTable = this.quoteIdentifier(table);
+    const columns = Object.keys(data);
+    columns.forEach((col) => this.validateColumnName(col));
+
+    const returning = this.usesRowidFallback(table)
+      ? `RETURNING ${ROWID_COLUMN} AS "${ROWID_COLUMN}", *`
+      : "RETURNING *";
+
+    const query =
+      columns.length > 0
+        ? `INSERT INTO ${quotedTable} (${columns.map((c) => `"${c}"`).join(", ")})
+           VALUES (${columns.map(() => "?").join(", ")})
+           ${returning}`
+        : `INSERT INTO ${quotedTable} DEFAULT VALUES ${returning}`;
+
+    const row = db
+      .prepare(query)
+      .get(...columns.map((col) => this.toBindValue(data[col]))) as Record<string, unknown>;
+    return row;
+  }
+
+  async updateRow(
+    table: string,
+    primaryKey: Record<string, unknown>,
+    data: Record<string, unknown>,
+  ): Promise<Record<string, unknown>> {
+    const db = this.getDb();
+
+    // Validate table and column names to prevent SQL injection
+    const quotedTable = this.quoteIdentifier(table);
+    const setColumns = Object.keys(data);
+    setColumns.forEach((col) => this.validateColumnName(col));
+    Object.keys(primaryKey).forEach((col) => this.validateColumnName(col));
+
+    const setClause = setColumns.map((col) => `"${col}" = ?`).join(", ");
+    const whereClause = Object.keys(primaryKey)
+      .map((col) => `"${col}" = ?`)
+      .join(" AND ");
+
+    const returning = this.usesRowidFallback(table)
+      ? `RETURNING ${ROWID_COLUMN} AS "${ROWID_COLUMN}", *`
+      : "RETURNING *";
+
+    const query = `
+      UPDATE ${quotedTable}
+      SET ${setClause}
+      WHERE ${whereClause}
+      ${returning}
+    `;
+
+    const values = [
+      ...setColumns.map((col) => this.toBindValue(data[col])),
+      ...Object.values(primaryKey).map((val) => this.toBindValue(val)),
+    ];
+    const row = db.prepare(query).get(...values) as Record<string, unknown> | undefined;
+
+    if (!row) {
+      throw new Error(
+        `No rows updated. The row may not exist or primary key values may be incorrect.`,
+      );
+    }
+
+    return row;
+  }
+
+  async deleteRow(
+    table: string,
+    primaryKey: Record<string, unknown>,
+  ): Promise<boolean> {
+    const db = this.getDb();
+
+    // Validate table and column names to prevent SQL injection
+    const quotedTable = this.quoteIdentifier(table);
+    Object.keys(primaryKey).forEach((col) => this.validateColumnName(col));
+
+    const whereClause = Object.keys(primaryKey)
+      .map((col) => `"${col}" = ?`)
+      .join(" AND ");
+
+    const result = db
+      .prepare(`DELETE FROM ${quotedTable} WHERE ${whereClause}`)
+      .run(...Object.values(primaryKey).map((val) => this.toBindValue(val)));
+
+    return result.changes > 0;
+  }
+
+  async executeQuery(query: string, options: ExecuteQueryOptions = {}): Promise<QueryResult> {
+    const db = this.getDb();
+    const startTime = Date.now();
+
+    try {
+      const bound = bindSqlParams(query, "positional", options.params, "sqlite");
+      const statement = db.prepare(bound.query);
+      // SQLite has no boolean type
+      const values = bound.values.map((param) => (param.type === "boolean" ? Number(param.value) : param.value));
+
+      // Statements that return data (SELECT, PRAGMA, ... RETURNING)
+      if (statement.reader) {
+        const rows = statement.all(...values) as Record<string, unknown>[];
+        return {
+          rows,
+          columns: statement.columns().map((col) => col.name),
+          rowCount: rows.length,
+          executionTimeMs: Date.now() - startTime,
+        };
+      }
+
+      const result = statement.run(...values);
+      return {
+        rows: [],
+        columns: [],
+        rowCount: result.changes,
+        executionTimeMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      return {
+        rows: [],
+        columns: [],
+        rowCount: 0,
+        executionTimeMs: Date.now() - startTime,
+        error:
+          error instanceof Error ? error.message : "Query execution failed",
+        errorPosition: locateError(error, query),
+      };
+    }
+  }
+
+  /**
+   * EXPLAIN QUERY PLAN as a tree. SQLite only reports the plan's shape, e.g.
+   * "SCAN users" or "SEARCH orders USING INDEX idx_user (user_id=?)"; there's
+   * no ANALYZE, so plans are never measured.
+   */
+  async explainQuery(query: string, options: ExplainOptions = {}): Promise<QueryPlan> {
+    const bound = bindSqlParams(query, "positional", options.params, "sqlite");
+    const values = bound.values.map((param) => (param.type === "boolean" ? Number(param.value) : param.value));
+    const rows = this.getDb()
+      .prepare(`EXPLAIN QUERY PLAN ${bound.query}`)
+      .all(...values) as { id: number; parent: number; detail: string }[];
+
+    const root: PlanNode = { operation: "QUERY PLAN", properties: {}, children: [] };
+    const nodes = new Map<number, PlanNode>([[0, root]]);
+    const depths = new Map<number, number>([[0, 0]]);
+    const lines: string[] = [];
+    for (const row of rows) {
+      const depth = (depths.get(row.parent) ?? 0) + 1;
+      depths.set(row.id, depth);
+      lines.push(`${"  ".repeat(depth - 1)}${row.detail}`);
+
+      // Older versions say "SCAN TABLE users"
+      const access = /^(SCAN|SEARCH) (?:TABLE )?(\S+)\s*(.*)$/.exec(row.detail);
+      const node: PlanNode = access
+        ? {
+            operation: access[1],
+            relation: access[2],
+            detail: access[3] || undefined,
+            fullScan: access[1] === "SCAN" && !/\bINDEX\b/.test(access[3]),
+            properties: { ...row },
+            children: [],
+          }
+        : { operation: row.detail, properties: { ...row }, children: [] };
+      nodes.set(row.id, node);
+      (nodes.get(row.parent) ?? root).children.push(node);
+    }
+
+    return {
+      root,
+      analyzed: false,
+      outputs: [{ label: "Plan", text: lines.join("\n") }],
+    };
+  }
+
+  async getTableStats(table: string): Promise<TableStats> {
+    const db = this.getDb();
+
+    try {
+      const quotedTable = this.quoteIdentifier(table);
+      const countRow = db
+        .prepare(`SELECT COUNT(*) as count FROM ${quotedTable}`)
+        .get() as { count: number };
+      const indexes = db.pragma(`index_list(${quotedTable})`) as unknown[];
+
+      return {
+        rowCount: countRow.count,
+        sizeBytes: this.getObjectSizes().get(table) || 0,
+        indexCount: indexes.length,
+      };
+    } catch (error) {
+      console.error("Error getting table stats:", error);
+      return {
+        rowCount: 0,
+        sizeBytes: 0,
+        indexCount: 0,
+      };
+    }
+  }
+
+  async getIndexInfo(table: string): Promise<IndexInfo[]> {
+    const db = this.getDb();
+    const quotedTable = this.quoteIdentifier(table);
+
+    const indexes = db.pragma(`index_list(${quotedTable})`) as {
+      name: string;
+      unique: number;
+      origin: string; // 'c' = CREATE INDEX, 'u' = UNIQUE constraint, 'pk' = PRIMARY KEY
+      partial: number;
+    }[];
+
+    return indexes.map((index) => {
+      const columns = db.pragma(`index_info("${index.name.replace(/"/g, '""')}")`) as {
+        seqno: number;
+        name: string | null;
+      }[];
+
+      return {
+        name: index.name,
+        columns: columns
+          .sort((a, b) => a.seqno - b.seqno)
+          .map((col) => col.name ?? "<expression>"),
+        isUnique: index.unique === 1,
+        isPrimary: index.origin === "pk",
+        type: index.partial === 1 ? "btree (partial)" : "btree",
+      };
+    });
+  }
+
+  async getDatabaseStats(): Promise<{
+    totalSize: number;
+    tableCount: number;
+    version: string;
+  }> {
+    const db = this.getDb();
+
+    const pageCount = db.pragma("page_count", { simple: true }) as number;
+    const pageSize = db.pragma("page_size", { simple: true }) as number;
+    const countRow = db
+      .prepare(
+        "SELECT COUNT(*) as count FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'",
+      )
+      .get() as { count: number };
+    const versionRow = db.prepare("SELECT sqlite_version() as version").get() as {
+      version: string;
+    };
+
+    return {
+      totalSize: pageCount * pageSize,
+      tableCount: countRow.count,
+      version: `SQLite ${versionRow.version}`,
+    };
+  }
+}
@@ -1,11 +1,39 @@
 // Database Adapter Types - Unified interface for all database types
 
-export type DatabaseType = 'postgresql' | 'mongodb' | 'clickhouse' | 'redis';
+// The set of database types is derived from the engine registry (src/lib/engines)
+import type { DatabaseType, ScriptStatement } from '../engines';
+export type { DatabaseType };
 
+export type DataModel = 'relational' | 'document' | 'key-value' | 'wide-column' | 'search';
+
+// What an engine supports. Served by GET /api/settings and used by the UI
+// to decide which tabs, toolbar buttons and dialogs to show.
 export interface AdapterCapabilities {
   supportsUpdate: boolean;
   supportsDelete: boolean;
   supportsTransactions: boolean;
+  // Shape of a record — drives wording ("keys" vs "rows") and cell rendering
+  dataModel: DataModel;
+  // Tables are grouped in schemas / namespaces / keyspaces
+  supportsSchemas: boolean;
+  // Foreign keys are introspected and can be followed from the data grid
+  supportsRelationships: boolean;
+  // Schema tab (ER diagram)
+  supportsERDiagram: boolean;
+  supportsExplain: boolean;
+  // Cursor-based paging instead of LIMIT/OFFSET
+  supportsKeysetPagination: boolean;
+  // Running editor queries can be cancelled
+  supportsQueryCancellation: boolean;
+  // Editor runs honour the connection's statement timeout
+  supportsStatementTimeout: boolean;
+  // Cell and row edit dialogs in the data grid
+  supportsInlineEdit: boolean;
+  // Multi-row selection and bulk delete
+  supportsBulkWrites: boolean;
+  supportsDDL: boolean;
+  // Flush DB / Flush All actions
+  supportsFlush: boolean;
 }
 
 export interface SSHTunnelConfig {
@@ -28,6 +56,8 @@ export interface ConnectionConfig {
   name: string;
   id: string;
   sshTunnel?: SSHTunnelConfig;
+  // Statement timeout for query editor runs (ms, 0 = none); server default when unset
+  statementTimeoutMs?: number;
 }
 
 export interface TableInfo {
@@ -45,30 +75,91 @@ export interface ColumnInfo {
   isPrimaryKey: boolean;
   isForeignKey: boolean;
   defaultValue?: string;
-  foreignKeyRef?: {
-    table: string;
-    column: string;
-  };
+  foreignKeyRef?: ForeignKeyRef;
   // For PostgreSQL enum columns — the allowed values
   enumValues?: string[];
   // For MongoDB - indicates if field is commonly present
   frequency?: number;
+  // For Cassandra - the column's role in the primary key
+  isPartitionKey?: boolean;
+  isClusteringKey?: boolean;
+  clusteringOrder?: 'asc' | 'desc';
+}
+
+export interface ForeignKeyRef {
+  table: string;
+  // The referenced column paired with this column
+  column: string;
+  constraintName?: string;
+  // Every column of the (possibly composite) key, in key order
+  columns: string[];
+  foreignColumns: string[];
 }
 
 export interface Relationship {
   sourceTable: string;
+  // First column of the key — see sourceColumns/targetColumns for composite keys
   sourceColumn: string;
   targetTable: string;
   targetColumn: string;
+  // Ordered key columns; sourceColumns[i] references targetColumns[i]
+  sourceColumns: string[];
+  targetColumns: string[];
+  constraintName?: string;
   type: 'one-to-one' | 'one-to-many' | 'many-to-many';
 }
 
+// One column of a foreign key constraint, as read from a catalog
+export interface ForeignKeyColumn {
+  constraintName?: string;
+  sourceTable: string;
+  sourceColumn: string;
+  targetTable: string;
+  targetColumn: string;
+}
+
+export type FilterValue = string | number | boolean | null;
+
+export type FilterCondition =
+  | { column: string; op: 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte'; value: FilterValue }
+  | { column: string; op: 'in' | 'nin'; value: FilterValue[] }
+  // like/ilike take SQL wildcards (% and _); contains is a plain substring
+  | { column: string; op: 'like' | 'ilike' | 'contains' | 'regex'; value: string }
+  | { column: string; op: 'isNull' | 'isNotNull' }
+  | { column: string; op: 'between'; value: [FilterValue, FilterValue] };
+
+export type FilterOperator = FilterCondition['op'];
+
+export interface FilterGroup {
+  type: 'and' | 'or';
+  filters: FilterExpression[];
+}
+
+// Row filter: a single condition or a nested and/or group of them
+export type FilterExpression = FilterCondition | FilterGroup;
+
+export interface SortKey {
+  column: string;
+  order: 'asc' | 'desc';
+}
+
 export interface QueryOptions {
   page: number;
   pageSize: number;
-  sortBy?: string;
-  sortOrder?: 'asc' | 'desc';
-  filters?: Record<string, unknown>;
+  // In priority order: later keys break ties in earlier ones
+  sort?: SortKey[];
+  filters?: FilterExpression;
+  // For Cassandra - permit reads that aren't restricted to a partition
+  allowFullScan?: boolean;
+  // Keyset paging: a cursor from a previous page's `cursors`. When set, rows
+  // are read from the cursor position and `page` is only echoed back.
+  cursor?: string;
+}
+
+// Where the neighbouring pages start; null when there is no such page
+export interface PageCursors {
+  next: string | null;
+  prev: string | null;
 }
 
 export interface PaginatedResult<T = Record<string, unknown>> {
@@ -77,6 +168,19 @@ export interface PaginatedResult<T = Record<string, unknown>> {
   page: number;
   pageSize: number;
   totalPages: number;
+  // `total` is the engine's estimate; DatabaseAdapter.countRows gives the exact figure
+  totalIsEstimate?: boolean;
+  // Set when the adapter refused an unrestricted scan (see QueryOptions.allowFullScan)
+  requiresFullScan?: boolean;
+  // Present when the page was read by keyset; absent for tables without a
+  // key to seek on and for adapters that page by number
+  cursors?: PageCursors;
+}
+
+// Where in the query text an error points (1-based, like editor positions)
+export interface ErrorPosition {
+  line: number;
+  column: number;
 }
 
 export interface QueryResult {
@@ -85,6 +189,121 @@ export interface QueryResult {
   rowCount: number;
   executionTimeMs: number;
   error?: string;
+  // Set when the database reported where in the query the error is
+  errorPosition?: ErrorPosition;
+}
+
+// A typed value for a `:name` / `{{name}}` placeholder in an editor query
+export type QueryParam =
+  | { type: 'text'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'boolean'; value: boolean }
+  // YYYY-MM-DD
+  | { type: 'date'; value: string }
+  | { type: 'null'; value: null };
+
+export type QueryParams = Record<string, QueryParam>;
+
+export interface ExecuteQueryOptions {
+  // Caller-chosen ID that cancelQuery() refers to while the query runs
+  queryId?: string;
+  // Server-side statement timeout; 0 disables it
+  timeoutMs?: number;
+  // Values for the query's placeholders, bound by the driver — never spliced into the text
+  params?: QueryParams;
+}
+
+export interface StreamQueryOptions extends ExecuteQueryOptions {
+  // Rows per batch read from the database
+  batchSize: number;
+}
+
+// One batch of a streamed query result
+export interface QueryBatch {
+  // Columns of these rows; documents in a collection may not all share them
+  columns: string[];
+  rows: Record<string, unknown>[];
+  // Affected-row count of a statement that returns no rows (e.g. UPDATE)
+  rowCount?: number;
+}
+
+/**
+ * A connection held for the statements of one script, so session state
+ * (SET, BEGIN/COMMIT, temporary tables) carries from one to the next.
+ */
+export interface QuerySession {
+  executeQuery(query: string, options?: ExecuteQueryOptions): Promise<QueryResult>;
+  streamQuery?(query: string, options: StreamQueryOptions): AsyncGenerator<QueryBatch>;
+  // Rolls back a transaction the script left open, then releases the connection
+  close(): Promise<void>;
+}
+
+/**
+ * One NDJSON line of a streamed query response. `start` comes first, then
+ * any number of `rows`, then exactly one of `done` or `error`.
+ */
+export type QueryStreamEvent =
+  | { type: 'start'; queryId: string }
+  | { type: 'rows'; columns: string[]; rows: Record<string, unknown>[] }
+  | { type: 'done'; rowCount: number; executionTimeMs: number; hasMore: boolean }
+  | { type: 'error'; error: string; position?: ErrorPosition };
+
+// Result of one statement of a script
+export interface StatementResult extends QueryResult {
+  // The statement returned more rows than the script's row cap; the rest weren't read
+  truncated?: boolean;
+}
+
+/**
+ * One NDJSON line of a script run: `start` lists the statements, then one
+ * `statement` line per statement that ran, then `done` (or `error` if the
+ * run itself failed). Statements after a failure with stop-on-error, or
+ * after a cancel, have no result.
+ */
+export type ScriptStreamEvent =
+  | { type: 'start'; queryId: string; statements: ScriptStatement[] }
+  | { type: 'statement'; index: number; result: StatementResult }
+  | { type: 'done'; executionTimeMs: number; failed: number; skipped: number }
+  | { type: 'error'; error: string };
+
+export interface ExplainOptions extends ExecuteQueryOptions {
+  // Run the statement and report actual rows and timings
+  analyze?: boolean;
+}
+
+/**
+ * One operator of a query plan. Adapters map their engine's plan output
+ * onto this shape; anything it has no field for stays in `properties`.
+ */
+export interface PlanNode {
+  // e.g. "Seq Scan", "Hash Join", "IXSCAN", "ReadFromMergeTree"
+  operation: string;
+  // Table, collection or index the operator reads
+  relation?: string;
+  // Filter, join condition, index condition, ...
+  detail?: string;
+  // Planner estimate, in the engine's own units
+  cost?: number;
+  estimatedRows?: number;
+  // Measured when the plan was analyzed
+  actualRows?: number;
+  // Time spent in this node including its children (analyzed plans only)
+  totalTimeMs?: number;
+  // Reads the whole table or collection instead of an index range
+  fullScan?: boolean;
+  // Every attribute the engine reported for the node
+  properties: Record<string, unknown>;
+  children: PlanNode[];
+}
+
+export interface QueryPlan {
+  root: PlanNode;
+  // The statement ran; actual rows and timings are filled in
+  analyzed: boolean;
+  planningTimeMs?: number;
+  executionTimeMs?: number;
+  // The engine's own output (JSON plan, ClickHouse pipeline, ...) for the raw view
+  outputs: { label: string; text: string }[];
 }
 
 export interface TableStats {
@@ -125,9 +344,22 @@ export interface DatabaseAdapter {
   insertRow(table: string, data: Record<string, unknown>): Promise<Record<string, unknown>>;
   updateRow(table: string, primaryKey: Record<string, unknown>, data: Record<string, unknown>): Promise<Record<string, unknown>>;
   deleteRow(table: string, primaryKey: Record<string, unknown>): Promise<boolean>;
+  // Exact count, for adapters whose getRows may return an estimated total
+  countRows?(table: string, filters: FilterExpression | undefined, timeoutMs: number): Promise<number>;
 
   // Query execution
-  executeQuery(query: string): Promise<QueryResult>;
+  executeQuery(query: string, options?: ExecuteQueryOptions): Promise<QueryResult>;
+  // Read a result batch by batch from a server-side cursor. Returning early
+  // (break / iterator.return()) closes the cursor and frees the connection.
+  streamQuery?(query: string, options: StreamQueryOptions): AsyncGenerator<QueryBatch>;
+  // Stop a query started with options.queryId; false when it is no longer running
+  cancelQuery?(queryId: string): Promise<boolean>;
+  // Pin a pooled connection for a script. Adapters without one run each
+  // statement wherever the driver puts it.
+  openSession?(): Promise<QuerySession>;
+  // Plan of a single statement. With `analyze` the statement runs; engines
+  // that can't measure a run ignore it and return an estimated plan.
+  explainQuery?(query: string, options?: ExplainOptions): Promise<QueryPlan>;
 
   // Analytics
   getTableStats(table: string): Promise<TableStats>;
@@ -139,6 +371,9 @@ export interface DatabaseAdapter {
   }>;
 }
 
+// Below this many rows an exact count is cheap enough to run on every page
+const ESTIMATED_TOTAL_MIN_ROWS = 100_000;
+
 // Base adapter class with common functionality
 export abstract class BaseAdapter implements DatabaseAdapter {
   protected connectionString: string;
@@ -157,6 +392,82 @@ export abstract class BaseAdapter implements DatabaseAdapter {
     return this.connected;
   }
 
+  /**
+   * Row total for a page of results: the engine's estimate when the table is
+   * large enough that counting would cost as much as reading the page, else
+   * an exact count. `estimate` resolves to undefined when it doesn't apply
+   * (e.g. filtered reads).
+   */
+  protected async pageTotal(
+    estimate: () => Promise<number | undefined>,
+    exact: () => Promise<number>,
+  ): Promise<{ total: number; totalIsEstimate: boolean }> {
+    const estimated = await estimate();
+    if (estimated !== undefined && estimated >= ESTIMATED_TOTAL_MIN_ROWS) {
+      return { total: estimated, totalIsEstimate: true };
+    }
+    return { total: await exact(), totalIsEstimate: false };
+  }
+
+  /**
+   * ORDER BY clause for a sort list, or "" when unsorted. `column` validates
+   * and quotes each name.
+   */
+  protected orderByClause(sort: SortKey[] | undefined, column: (name: string) => string): string {
+    if (!sort || sort.length === 0) return '';
+    return `ORDER BY ${sort.map((key) => `${column(key.column)} ${key.order === 'desc' ? 'DESC' : 'ASC'}`).join(', ')}`;
+  }
+
+  /**
+   * Fold per-column catalog rows into one relationship per constraint.
+   * Rows must already be in key order; rows without a constraint name are
+   * grouped by source and target table.
+   */
+  protected groupForeignKeys(rows: ForeignKeyColumn[]): Relationship[] {
+    const groups = new Map<string, Relationship>();
+    for (const row of rows) {
+      const key = `${row.sourceTable}\0${row.constraintName ?? row.targetTable}`;
+      const existing = groups.get(key);
+      if (existing) {
+        existing.sourceColumns.push(row.sourceColumn);
+        existing.targetColumns.push(row.targetColumn);
+        continue;
+      }
+      groups.set(key, {
+        sourceTable: row.sourceTable,
+        sourceColumn: row.sourceColumn,
+        targetTable: row.targetTable,
+        targetColumn: row.targetColumn,
+        sourceColumns: [row.sourceColumn],
+        targetColumns: [row.targetColumn],
+        constraintName: row.constraintName,
+        type: 'one-to-many', // Default assumption
+      });
+    }
+    return Array.from(groups.values());
+  }
+
+  /**
+   * Foreign key reference for each local column of the given relationships.
+   * A column in several constraints keeps the first.
+   */
+  protected foreignKeyRefs(relationships: Relationship[]): Map<string, ForeignKeyRef> {
+    const refs = new Map<string, ForeignKeyRef>();
+    for (const rel of relationships) {
+      rel.sourceColumns.forEach((column, i) => {
+        if (refs.has(column)) return;
+        refs.set(column, {
+          table: rel.targetTable,
+          column: rel.targetColumns[i],
+          constraintName: rel.constraintName,
+          columns: rel.sourceColumns,
+          foreignColumns: rel.targetColumns,
+        });
+      });
+    }
+    return refs;
+  }
+
   abstract getTables(): Promise<TableInfo[]>;
   abstract getTableSchema(tableName: string): Promise<ColumnInfo[]>;
   abstract getRelationships(): Promise<Relationship[]>;
@@ -164,7 +475,7 @@ export abstract class BaseAdapter implements DatabaseAdapter {
   abstract insertRow(table: string, data: Record<string, unknown>): Promise<Record<string, unknown>>;
   abstract updateRow(table: string, primaryKey: Record<string, unknown>, data: Record<string, unknown>): Promise<Record<string, unknown>>;
   abstract deleteRow(table: string, primaryKey: Record<string, unknown>): Promise<boolean>;
-  abstract executeQuery(query: string): Promise<QueryResult>;
+  abstract executeQuery(query: string, options?: ExecuteQueryOptions): Promise<QueryResult>;
   abstract getTableStats(table: string): Promise<TableStats>;
   abstract getIndexInfo(table: string): Promise<IndexInfo[]>;
   abstract getDatabaseStats(): Promise<{ totalSize: number; tableCount: number; version: string }>;
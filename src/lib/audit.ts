@@ -10,6 +10,8 @@ export type AuditAction =
   | "connection.delete"
   | "connection.test"
   | "query.execute"
+  | "query.cancel"
+  | "query.explain"
   | "data.read"
   | "data.insert"
   | "data.update"
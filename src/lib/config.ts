@@ -14,6 +14,9 @@ export const config = {
   // Force all connections to be read-only (for shared/demo instances)
   forceReadOnly: process.env.FORCE_READ_ONLY === "true",
 
+  // Statement timeout for editor queries when the connection doesn't set one (ms, 0 = none)
+  statementTimeoutMs: parseInt(process.env.STATEMENT_TIMEOUT_MS || "30000"),
+
   // Rate limiting
   rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || "60000"),
   rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || "100"),
@@ -0,0 +1,100 @@
+// Write-statement classifiers shared by several engines
+
+import { maskLiterals, ScriptDialect } from './statements';
+
+// Statements that only read. Anything else, including DO, CALL, MERGE and
+// SET, counts as a write in read-only mode.
+const SQL_READ_KEYWORDS = [
+  'SELECT',
+  'WITH',
+  'VALUES',
+  'TABLE',
+  'FROM', // DuckDB's FROM-first SELECT
+  'SHOW',
+  'DESCRIBE',
+  'DESC',
+  'EXPLAIN',
+  'SUMMARIZE',
+  'EXISTS',
+  'PRAGMA',
+  'USE',
+  'LIST', // CQL's LIST ROLES / PERMISSIONS
+  'BEGIN',
+  'START TRANSACTION',
+  'COMMIT',
+  'ROLLBACK',
+  'END',
+];
+
+// Query statements whose text can still write: data-modifying CTEs and
+// SELECT ... INTO (a new table, or a file in MySQL)
+const QUERY_KEYWORDS = ['SELECT', 'WITH', 'VALUES', 'TABLE', 'FROM'];
+const EMBEDDED_WRITE = /\b(?:INSERT|UPDATE|DELETE|MERGE|INTO)\b/;
+
+// EXPLAIN and its options, up to the explained statement
+const EXPLAIN_PREFIX = /^EXPLAIN (?:\([^)]*\) ?|(?:ANALYZE|ANALYSE|VERBOSE|COSTS|BUFFERS|QUERY PLAN|PLAN|PIPELINE|FORMAT ?= ?\w+|FORMAT \w+) )*/;
+
+// PRAGMA name = value and PRAGMA name(value) change a setting, except for the
+// introspection pragmas whose argument names a table or index
+const PRAGMA_CALL = /^PRAGMA (?:\w+ ?\. ?)?(\w+) ?\(/;
+const PRAGMA_READS = [
+  'TABLE_INFO',
+  'TABLE_XINFO',
+  'TABLE_LIST',
+  'INDEX_INFO',
+  'INDEX_XINFO',
+  'INDEX_LIST',
+  'FOREIGN_KEY_LIST',
+  'FOREIGN_KEY_CHECK',
+  'INTEGRITY_CHECK',
+  'QUICK_CHECK',
+  'STORAGE_INFO', // DuckDB
+  'SHOW', // DuckDB
+];
+
+function startsWithKeyword(statement: string, keywords: string[]): string | undefined {
+  return keywords.find((keyword) => statement === keyword || statement.startsWith(keyword + ' '));
+}
+
+/**
+ * Mask comments and quoted text with the dialect's lexical rules and
+ * normalize whitespace, so keywords can't hide behind either.
+ */
+export function normalizeSql(query: string, dialect: ScriptDialect): string {
+  return maskLiterals(query, dialect)
+    .replace(/\s+/g, ' ') // Normalize whitespace
+    .trim()
+    .toUpperCase();
+}
+
+function isPragmaWrite(statement: string): boolean {
+  if (statement.includes('=')) return true;
+  const call = PRAGMA_CALL.exec(statement);
+  return !!call && !PRAGMA_READS.includes(call[1]);
+}
+
+function isWriteStatement(statement: string): boolean {
+  if (!statement) return false;
+
+  const keyword = startsWithKeyword(statement, SQL_READ_KEYWORDS);
+  if (!keyword) return true;
+
+  // EXPLAIN ANALYZE runs the statement, so it writes when the statement does
+  if (keyword === 'EXPLAIN') {
+    const prefix = EXPLAIN_PREFIX.exec(statement)![0];
+    return /\bANALY[SZ]E\b/.test(prefix) && isWriteStatement(statement.slice(prefix.length));
+  }
+
+  if (keyword === 'PRAGMA') return isPragmaWrite(statement);
+
+  return QUERY_KEYWORDS.includes(keyword) && EMBEDDED_WRITE.test(statement);
+}
+
+/**
+ * Check if a SQL statement is a write operation: anything that isn't a known
+ * read statement. Comments and quoted text are masked with the dialect's
+ * lexical rules first, so neither can hide a write from the check.
+ */
+export function isSqlWriteQuery(query: string, dialect: ScriptDialect): boolean {
+  return isWriteStatement(normalizeSql(query, dialect));
+}
@@ -0,0 +1,38 @@
+import { defineEngine } from './engine';
+import { isSqlWriteQuery } from './classifiers';
+
+export const duckdbEngine = defineEngine({
+  type: 'duckdb',
+  name: 'DuckDB',
+  label: 'DuckDB',
+  placeholder: 'duckdb:///path/to/warehouse.duckdb?files=/path/to/exports',
+  schemes: ['duckdb'],
+  isWriteQuery: (query) => isSqlWriteQuery(query, 'duckdb'),
+  scriptDialect: 'duckdb',
+  editorLanguage: 'sql',
+  // Rows have no stable identity, so only inserts are supported
+  capabilities: {
+    supportsUpdate: false,
+    supportsDelete: false,
+    supportsTransactions: true,
+    dataModel: 'relational',
+    supportsSchemas: true,
+    supportsRelationships: true,
+    supportsERDiagram: true,
+    supportsExplain: true,
+    supportsKeysetPagination: false,
+    supportsQueryCancellation: false,
+    supportsStatementTimeout: false,
+    supportsInlineEdit: false,
+    supportsBulkWrites: false,
+    supportsDDL: true,
+    supportsFlush: false,
+  },
+  colors: {
+    text: 'text-yellow-500',
+    bg: 'bg-yellow-500/10',
+    border: 'border-yellow-500/30',
+    dot: 'bg-yellow-500',
+    badge: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400',
+  },
+});
@@ -0,0 +1,60 @@
+import type { AdapterCapabilities } from '../adapters/types';
+import type { ScriptDialect } from './statements';
+
+export type EditorLanguage = 'sql' | 'javascript' | 'plaintext';
+
+/**
+ * Tailwind classes for an engine's accent color.
+ * Kept as full literal class names so Tailwind picks them up from source.
+ */
+export interface EngineColors {
+  text: string;
+  bg: string;
+  border: string;
+  dot: string;
+  badge: string;
+}
+
+/**
+ * Everything the app needs to know about a database engine outside its adapter.
+ * Definitions are plain data so they can be imported from client components;
+ * the adapter class itself is registered in factory.ts (server-only).
+ */
+export interface EngineDefinition<T extends string = string> {
+  type: T;
+  // Shown in the connection form's type picker, e.g. "MySQL / MariaDB"
+  name: string;
+  // Short label for badges and saved connections
+  label: string;
+  placeholder: string;
+  // Used to locate the remote port for SSH tunnels; omitted for file-based engines
+  defaultPort?: number;
+  // URL schemes accepted in connection strings, without "://"
+  schemes: string[];
+  // Extra secrets to scrub from error messages. The first capture group is kept
+  // and the rest of the match replaced with "***". Credentials in `scheme://user:pass@`
+  // URLs are scrubbed for every registered scheme automatically.
+  credentialPatterns?: RegExp[];
+  // Server-side read-only mode blocks queries this returns true for
+  isWriteQuery: (query: string) => boolean;
+  // How editor scripts are split into statements; omitted for engines that take one command per run
+  scriptDialect?: ScriptDialect;
+  editorLanguage: EditorLanguage;
+  // Language whose quoting rules placeholders are found under, for engines
+  // where it depends on the query (Elasticsearch Query DSL bodies are JSON)
+  parameterLanguage?: (query: string) => EditorLanguage;
+  // Command or method names offered by editor completion (Redis commands,
+  // MongoDB collection methods); SQL engines complete keywords and schema names
+  editorCommands?: string[];
+  // Defaults reported to the UI; adapters may narrow these at runtime
+  capabilities: AdapterCapabilities;
+  colors: EngineColors;
+}
+
+/**
+ * Identity helper that keeps the engine's `type` as a string literal,
+ * so the DatabaseType union can be derived from the registry.
+ */
+export function defineEngine<T extends string>(definition: EngineDefinition<T>): EngineDefinition<T> {
+  return definition;
+}
@@ -0,0 +1,89 @@
+// Database engine registry — safe to import from both client and server components.
+// To add an engine: create a module next to this one with defineEngine(), list it
+// below, and map its type to the adapter class in adapters/factory.ts.
+
+import { EngineDefinition } from './engine';
+import { ScriptStatement, splitStatements } from './statements';
+import { parameterNames } from './parameters';
+import { postgresqlEngine } from './postgresql';
+import { mysqlEngine } from './mysql';
+import { mongodbEngine } from './mongodb';
+import { clickhouseEngine } from './clickhouse';
+import { redisEngine } from './redis';
+import { elasticsearchEngine } from './elasticsearch';
+import { cassandraEngine } from './cassandra';
+import { sqliteEngine } from './sqlite';
+import { duckdbEngine } from './duckdb';
+
+export type { EngineDefinition, EngineColors, EditorLanguage } from './engine';
+export type { ScriptStatement, ScriptDialect } from './statements';
+export type { ParameterSlot } from './parameters';
+export { findParameters, parameterNames, placeholderName, replaceParameters } from './parameters';
+
+// Display order in the connection form
+export const ENGINES = [
+  postgresqlEngine,
+  mysqlEngine,
+  mongodbEngine,
+  clickhouseEngine,
+  redisEngine,
+  elasticsearchEngine,
+  cassandraEngine,
+  sqliteEngine,
+  duckdbEngine,
+];
+
+export type DatabaseType = (typeof ENGINES)[number]['type'];
+
+const enginesByType = new Map<string, EngineDefinition<DatabaseType>>(
+  ENGINES.map((engine) => [engine.type, engine])
+);
+
+export function isDatabaseType(type: unknown): type is DatabaseType {
+  return typeof type === 'string' && enginesByType.has(type);
+}
+
+export function getEngine(type: DatabaseType): EngineDefinition<DatabaseType> {
+  const engine = enginesByType.get(type);
+  if (!engine) {
+    throw new Error(`Unsupported database type: ${type}`);
+  }
+  return engine;
+}
+
+/**
+ * Statements of an editor buffer, split by the engine's script dialect.
+ * Engines without one take the whole buffer as a single command.
+ */
+export function splitScript(type: DatabaseType, script: string): ScriptStatement[] {
+  const { scriptDialect } = getEngine(type);
+  if (scriptDialect) return splitStatements(script, scriptDialect);
+
+  const text = script.trim();
+  const start = script.indexOf(text);
+  return text ? [{ text, start, end: start + text.length }] : [];
+}
+
+/**
+ * Read-only check for a whole buffer: true if any of its statements writes.
+ */
+export function isWriteScript(type: DatabaseType, script: string): boolean {
+  const engine = getEngine(type);
+  return splitScript(type, script).some((statement) => engine.isWriteQuery(statement.text));
+}
+
+/**
+ * Distinct placeholder names of an editor query, found with the engine's
+ * quoting rules (see EngineDefinition.parameterLanguage).
+ */
+export function queryParameterNames(type: DatabaseType, query: string): string[] {
+  const engine = getEngine(type);
+  return parameterNames(query, engine.parameterLanguage?.(query) ?? engine.editorLanguage, engine.scriptDialect);
+}
+
+/**
+ * Placeholder names of an editor query that have no entry in `values`.
+ */
+export function missingParameters(type: DatabaseType, query: string, values: Record<string, unknown> = {}): string[] {
+  return queryParameterNames(type, query).filter((name) => !Object.hasOwn(values, name));
+}
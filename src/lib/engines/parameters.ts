@@ -0,0 +1,153 @@
+// Query parameters: `:name` and `{{name}}` placeholders in editor queries
+
+import type { EditorLanguage } from './engine';
+import { literalAt, ScriptDialect } from './statements';
+
+export interface ParameterSlot {
+  name: string;
+  // Offsets of the placeholder (including quotes when `quoted`)
+  start: number;
+  end: number;
+  // A string literal that holds nothing but a placeholder, e.g. "{{since}}" in a
+  // MongoDB filter. Only document and command languages have these; in SQL a
+  // placeholder inside a string is just text.
+  quoted: boolean;
+}
+
+const MUSTACHE = /^\{\{\s*([A-Za-z_]\w*)\s*\}\}/;
+const COLON = /^:([A-Za-z_]\w*)/;
+const WHOLE_PLACEHOLDER = /^(?:\{\{\s*([A-Za-z_]\w*)\s*\}\}|:([A-Za-z_]\w*))$/;
+const DOLLAR_TAG = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/;
+
+// Characters after which ":" isn't a placeholder: `a::int` casts, `arr[lo:hi]`,
+// `{"a":true}` and the like
+const NOT_BEFORE_COLON = /[\w:'"`)\]}]/;
+
+/**
+ * The placeholder name if `value` is a placeholder and nothing else.
+ */
+export function placeholderName(value: string): string | undefined {
+  const match = WHOLE_PLACEHOLDER.exec(value);
+  return match ? match[1] ?? match[2] : undefined;
+}
+
+/**
+ * Find the placeholders of a query, skipping strings and comments. SQL with a
+ * `dialect` follows its lexical rules (`#` and `//` comments, backslash
+ * escapes, dollar quotes); SQL without one doubles its quotes, and other
+ * languages use backslash escapes.
+ */
+export function findParameters(query: string, language: EditorLanguage, dialect?: ScriptDialect): ParameterSlot[] {
+  const slots: ParameterSlot[] = [];
+  const comments = language !== 'plaintext';
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    const next = query[i + 1];
+
+    // In SQL a placeholder inside a string or comment is just text
+    const literal = language === 'sql' && dialect ? literalAt(query, i, dialect) : undefined;
+    if (literal) {
+      i = literal.end;
+      continue;
+    }
+
+    if (comments && ((language === 'sql' && char === '-' && next === '-') || (language === 'javascript' && char === '/' && next === '/'))) {
+      const newline = query.indexOf('\n', i);
+      i = newline === -1 ? query.length : newline + 1;
+      continue;
+    }
+    if (comments && char === '/' && next === '*') {
+      const close = query.indexOf('*/', i + 2);
+      i = close === -1 ? query.length : close + 2;
+      continue;
+    }
+
+    if (char === "'" || char === '"' || (char === '`' && language !== 'plaintext')) {
+      const backslashEscapes = language !== 'sql';
+      let j = i + 1;
+      while (j < query.length) {
+        if (backslashEscapes && query[j] === '\\') {
+          j += 2;
+        } else if (query[j] === char) {
+          if (!backslashEscapes && query[j + 1] === char) {
+            j += 2;
+          } else {
+            break;
+          }
+        } else {
+          j++;
+        }
+      }
+      const end = Math.min(j + 1, query.length);
+      const name = language !== 'sql' ? placeholderName(query.slice(i + 1, j)) : undefined;
+      if (name) slots.push({ name, start: i, end, quoted: true });
+      i = end;
+      continue;
+    }
+
+    if (language === 'sql' && !dialect && char === '$' && !/\w/.test(query[i - 1] ?? '')) {
+      const tag = DOLLAR_TAG.exec(query.slice(i, i + 64));
+      if (tag) {
+        const close = query.indexOf(tag[0], i + tag[0].length);
+        i = close === -1 ? query.length : close + tag[0].length;
+        continue;
+      }
+    }
+
+    if (char === '{' && next === '{') {
+      const match = MUSTACHE.exec(query.slice(i));
+      if (match) {
+        slots.push({ name: match[1], start: i, end: i + match[0].length, quoted: false });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if (char === ':' && next !== ':' && !NOT_BEFORE_COLON.test(query[i - 1] ?? '')) {
+      const match = COLON.exec(query.slice(i));
+      if (match) {
+        slots.push({ name: match[1], start: i, end: i + match[0].length, quoted: false });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    i++;
+  }
+
+  return slots;
+}
+
+/**
+ * Distinct placeholder names, in order of first use.
+ */
+export function parameterNames(query: string, language: EditorLanguage, dialect?: ScriptDialect): string[] {
+  return [...new Set(findParameters(query, language, dialect).map((slot) => slot.name))];
+}
+
+/**
+ * Replace each unquoted placeholder with what `marker` returns for it (e.g.
+ * `$1`, `?`, `{name:String}`). `index` counts placeholders from 0 in order of
+ * appearance; `names` lists them in that order, repeats included.
+ */
+export function replaceParameters(
+  query: string,
+  language: EditorLanguage,
+  marker: (name: string, index: number) => string,
+  dialect?: ScriptDialect
+): { query: string; names: string[] } {
+  const names: string[] = [];
+  let result = '';
+  let last = 0;
+
+  for (const slot of findParameters(query, language, dialect)) {
+    if (slot.quoted) continue;
+    result += query.slice(last, slot.start) + marker(slot.name, names.length);
+    names.push(slot.name);
+    last = slot.end;
+  }
+
+  return { query: result + query.slice(last), names };
+}
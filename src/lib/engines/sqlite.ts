@@ -0,0 +1,37 @@
+import { defineEngine } from './engine';
+import { isSqlWriteQuery } from './classifiers';
+
+export const sqliteEngine = defineEngine({
+  type: 'sqlite',
+  name: 'SQLite',
+  label: 'SQLite',
+  placeholder: 'sqlite:///path/to/database.db',
+  schemes: ['sqlite'],
+  isWriteQuery: (query) => isSqlWriteQuery(query, 'sqlite'),
+  scriptDialect: 'sqlite',
+  editorLanguage: 'sql',
+  capabilities: {
+    supportsUpdate: true,
+    supportsDelete: true,
+    supportsTransactions: true,
+    dataModel: 'relational',
+    supportsSchemas: false,
+    supportsRelationships: true,
+    supportsERDiagram: true,
+    supportsExplain: true,
+    supportsKeysetPagination: false,
+    supportsQueryCancellation: false,
+    supportsStatementTimeout: false,
+    supportsInlineEdit: true,
+    supportsBulkWrites: true,
+    supportsDDL: true,
+    supportsFlush: false,
+  },
+  colors: {
+    text: 'text-sky-500',
+    bg: 'bg-sky-500/10',
+    border: 'border-sky-500/30',
+    dot: 'bg-sky-500',
+    badge: 'bg-sky-500/10 text-sky-600 dark:text-sky-400',
+  },
+});
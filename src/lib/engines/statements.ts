@@ -0,0 +1,238 @@
+// Dialect-aware splitting of SQL scripts into statements
+
+export type ScriptDialect = 'postgresql' | 'mysql' | 'clickhouse' | 'sqlite' | 'duckdb' | 'cql';
+
+export interface ScriptStatement {
+  // Statement text without the terminating delimiter
+  text: string;
+  // Offsets of `text` in the script, for mapping results back to the editor
+  start: number;
+  end: number;
+}
+
+interface DialectRules {
+  // $tag$ ... $tag$ string bodies (functions, DO blocks)
+  dollarQuotes: boolean;
+  // Backslash escapes inside every quoted string
+  backslashEscapes: boolean;
+  // E'...' strings with backslash escapes
+  escapeStrings: boolean;
+  hashComments: boolean;
+  slashComments: boolean;
+  nestedBlockComments: boolean;
+  backtickQuotes: boolean;
+  bracketQuotes: boolean;
+  // mysql client DELIMITER command
+  delimiterCommand: boolean;
+  // CREATE TRIGGER ... BEGIN ...; END bodies
+  triggerBodies: boolean;
+}
+
+const BASE_RULES: DialectRules = {
+  dollarQuotes: false,
+  backslashEscapes: false,
+  escapeStrings: false,
+  hashComments: false,
+  slashComments: false,
+  nestedBlockComments: false,
+  backtickQuotes: false,
+  bracketQuotes: false,
+  delimiterCommand: false,
+  triggerBodies: false,
+};
+
+const DIALECT_RULES: Record<ScriptDialect, DialectRules> = {
+  postgresql: { ...BASE_RULES, dollarQuotes: true, escapeStrings: true, nestedBlockComments: true },
+  mysql: { ...BASE_RULES, backslashEscapes: true, hashComments: true, backtickQuotes: true, delimiterCommand: true },
+  clickhouse: { ...BASE_RULES, backslashEscapes: true, hashComments: true, backtickQuotes: true },
+  sqlite: { ...BASE_RULES, backtickQuotes: true, bracketQuotes: true, triggerBodies: true },
+  duckdb: { ...BASE_RULES, dollarQuotes: true, escapeStrings: true },
+  cql: { ...BASE_RULES, dollarQuotes: true, slashComments: true },
+};
+
+const DOLLAR_TAG = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/;
+const DELIMITER_COMMAND = /^DELIMITER[ \t]+(\S+)[^\n]*(\n|$)/i;
+const TRIGGER_START = /^CREATE\s+(?:TEMP\s+|TEMPORARY\s+)?TRIGGER\b/i;
+const isWordChar = (char: string | undefined) => !!char && /[A-Za-z0-9_$]/.test(char);
+
+/**
+ * Whether the string or quoted identifier opened at `index` takes backslash
+ * escapes: every one in MySQL and ClickHouse, E'...' strings in PostgreSQL
+ * and DuckDB. Backtick and bracket quotes never do.
+ */
+function isBackslashEscaped(dialect: ScriptDialect, script: string, index: number): boolean {
+  const rules = DIALECT_RULES[dialect];
+  const quote = script[index];
+  if (quote !== "'" && quote !== '"') return false;
+  if (rules.backslashEscapes) return true;
+  return quote === "'" && rules.escapeStrings && /[Ee]/.test(script[index - 1] ?? '') && !isWordChar(script[index - 2]);
+}
+
+// Index just past the quote closed by `close`, honoring doubled-quote and backslash escapes
+function skipQuoted(script: string, from: number, close: string, backslash: boolean): number {
+  let j = from + 1;
+  while (j < script.length) {
+    const char = script[j];
+    if (backslash && char === '\\') {
+      j += 2;
+    } else if (char === close) {
+      if (script[j + 1] === close && close !== ']') {
+        j += 2;
+      } else {
+        return j + 1;
+      }
+    } else {
+      j++;
+    }
+  }
+  return j;
+}
+
+/**
+ * The comment, string, quoted identifier or dollar-quoted body starting at
+ * `index`, if any, and the index just past it.
+ */
+export function literalAt(script: string, index: number, dialect: ScriptDialect): { kind: 'comment' | 'quoted'; end: number } | undefined {
+  const rules = DIALECT_RULES[dialect];
+  const char = script[index];
+  const next = script[index + 1];
+
+  if ((char === '-' && next === '-') || (rules.hashComments && char === '#') || (rules.slashComments && char === '/' && next === '/')) {
+    const newline = script.indexOf('\n', index);
+    return { kind: 'comment', end: newline === -1 ? script.length : newline + 1 };
+  }
+  if (char === '/' && next === '*') {
+    let depth = 1;
+    let j = index + 2;
+    while (j < script.length && depth > 0) {
+      if (script[j] === '*' && script[j + 1] === '/') {
+        depth--;
+        j += 2;
+      } else if (rules.nestedBlockComments && script[j] === '/' && script[j + 1] === '*') {
+        depth++;
+        j += 2;
+      } else {
+        j++;
+      }
+    }
+    return { kind: 'comment', end: j };
+  }
+
+  if (char === "'" || char === '"') {
+    return { kind: 'quoted', end: skipQuoted(script, index, char, isBackslashEscaped(dialect, script, index)) };
+  }
+  if (rules.backtickQuotes && char === '`') {
+    return { kind: 'quoted', end: skipQuoted(script, index, '`', false) };
+  }
+  if (rules.bracketQuotes && char === '[') {
+    return { kind: 'quoted', end: skipQuoted(script, index, ']', false) };
+  }
+  if (rules.dollarQuotes && char === '$' && !isWordChar(script[index - 1])) {
+    const match = DOLLAR_TAG.exec(script.slice(index, index + 64));
+    if (match) {
+      const close = script.indexOf(match[0], index + match[0].length);
+      return { kind: 'quoted', end: close === -1 ? script.length : close + match[0].length };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The code of a statement with each comment replaced by a space and each
+ * string, quoted identifier and dollar-quoted body by `''`, so keyword checks
+ * see only what the server parses as SQL.
+ */
+export function maskLiterals(script: string, dialect: ScriptDialect): string {
+  let result = '';
+  let last = 0;
+  let i = 0;
+
+  while (i < script.length) {
+    const literal = literalAt(script, i, dialect);
+    if (!literal) {
+      i++;
+      continue;
+    }
+    result += script.slice(last, i) + (literal.kind === 'comment' ? ' ' : "''");
+    i = last = literal.end;
+  }
+
+  return result + script.slice(last);
+}
+
+/**
+ * Split a script on top-level statement delimiters. Delimiters inside
+ * strings, quoted identifiers, comments and dollar-quoted bodies are
+ * skipped. Statements that are empty or only comments are dropped.
+ */
+export function splitStatements(script: string, dialect: ScriptDialect): ScriptStatement[] {
+  const rules = DIALECT_RULES[dialect];
+  const statements: ScriptStatement[] = [];
+
+  let delimiter = ';';
+  let start = 0;
+  // Whether the current statement has anything besides whitespace and comments
+  let hasCode = false;
+  let i = 0;
+
+  const push = (end: number) => {
+    if (hasCode) {
+      const text = script.slice(start, end).trimEnd();
+      statements.push({ text, start, end: start + text.length });
+    }
+    hasCode = false;
+  };
+
+  while (i < script.length) {
+    if (rules.delimiterCommand && !hasCode) {
+      const match = DELIMITER_COMMAND.exec(script.slice(i));
+      if (match) {
+        delimiter = match[1];
+        i += match[0].length;
+        start = i;
+        continue;
+      }
+    }
+
+    if (/\s/.test(script[i])) {
+      i++;
+      continue;
+    }
+
+    const literal = literalAt(script, i, dialect);
+    if (literal?.kind === 'comment') {
+      i = literal.end;
+      continue;
+    }
+
+    if (script.startsWith(delimiter, i)) {
+      const isTriggerBody =
+        rules.triggerBodies &&
+        TRIGGER_START.test(script.slice(start).trimStart()) &&
+        !/\bEND\s*$/i.test(script.slice(start, i));
+      if (!isTriggerBody) {
+        push(i);
+        i += delimiter.length;
+        start = i;
+        continue;
+      }
+    }
+
+    // Leading comments belong to no statement
+    if (!hasCode) {
+      hasCode = true;
+      start = i;
+    }
+
+    // Strings, quoted identifiers and dollar-quoted bodies
+    if (literal) {
+      i = literal.end;
+      continue;
+    }
+
+    i++;
+  }
+
+  push(script.length);
+  return statements;
+}
@@ -0,0 +1,184 @@
+import "server-only";
+
+import {
+  DatabaseAdapter,
+  ExecuteQueryOptions,
+  QuerySession,
+  ScriptStreamEvent,
+  StatementResult,
+} from "./adapters/types";
+import { locateError } from "./adapters/error-position";
+import type { ScriptStatement } from "./engines";
+import { STREAM_BATCH_SIZE } from "./query-streams";
+import { sanitizeError } from "./validation";
+
+/**
+ * Runs the statements of an editor script one after another and streams a
+ * result per statement back as NDJSON. Statements share one connection when
+ * the adapter can pin one (see DatabaseAdapter.openSession).
+ */
+
+export interface ScriptOptions extends ExecuteQueryOptions {
+  queryId: string;
+  // Rows kept per statement
+  maxRows: number;
+  // Stop at the first failing statement instead of running the rest
+  stopOnError: boolean;
+}
+
+export interface ScriptSummary {
+  statementCount: number;
+  failed: number;
+  skipped: number;
+  executionTimeMs: number;
+}
+
+// Query IDs of running scripts, and whether they've been cancelled
+const globalForScripts = globalThis as unknown as { __runningScripts?: Map<string, boolean> };
+const runningScripts = (globalForScripts.__runningScripts ??= new Map<string, boolean>());
+
+/**
+ * Stop a running script after its current statement. False when no script
+ * with this ID is running.
+ */
+export function cancelScript(queryId: string): boolean {
+  if (!runningScripts.has(queryId)) return false;
+  runningScripts.set(queryId, true);
+  return true;
+}
+
+/**
+ * Run one statement, keeping at most `maxRows` rows. Streaming adapters stop
+ * reading (and close the cursor) once the cap is reached.
+ */
+async function runStatement(
+  runner: DatabaseAdapter | QuerySession,
+  text: string,
+  options: ScriptOptions,
+): Promise<StatementResult> {
+  const { maxRows } = options;
+  const startTime = Date.now();
+
+  if (!runner.streamQuery) {
+    const result = await runner.executeQuery(text, options);
+    return result.rows.length > maxRows
+      ? { ...result, rows: result.rows.slice(0, maxRows), truncated: true }
+      : result;
+  }
+
+  const columns = new Set<string>();
+  const rows: Record<string, unknown>[] = [];
+  // rowCount also includes rows affected by writes
+  let rowCount = 0;
+  let truncated = false;
+
+  try {
+    for await (const batch of runner.streamQuery(text, { ...options, batchSize: STREAM_BATCH_SIZE })) {
+      batch.columns.forEach((column) => columns.add(column));
+      rowCount += batch.rowCount ?? batch.rows.length;
+      if (rows.length + batch.rows.length > maxRows) {
+        rows.push(...batch.rows.slice(0, maxRows - rows.length));
+        truncated = true;
+        break;
+      }
+      rows.push(...batch.rows);
+    }
+  } catch (error) {
+    return {
+      rows: [],
+      columns: [],
+      rowCount: 0,
+      executionTimeMs: Date.now() - startTime,
+      error: sanitizeError(error),
+      errorPosition: locateError(error, text),
+    };
+  }
+
+  return {
+    rows,
+    columns: [...columns],
+    rowCount: truncated ? rows.length : rowCount,
+    executionTimeMs: Date.now() - startTime,
+    truncated: truncated || undefined,
+  };
+}
+
+/**
+ * Run a script and stream its results. `onFinish` is called once at the end.
+ */
+export function scriptStreamResponse(
+  adapter: DatabaseAdapter,
+  statements: ScriptStatement[],
+  options: ScriptOptions,
+  onFinish: (summary: ScriptSummary) => void,
+): Response {
+  const encoder = new TextEncoder();
+  const { queryId } = options;
+  let disconnected = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ScriptStreamEvent) => {
+        if (!disconnected) {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+        }
+      };
+
+      runningScripts.set(queryId, false);
+      const startTime = Date.now();
+      let failed = 0;
+      let ran = 0;
+      let session: QuerySession | undefined;
+
+      try {
+        send({ type: "start", queryId, statements });
+        session = await adapter.openSession?.();
+
+        for (const [index, statement] of statements.entries()) {
+          if (runningScripts.get(queryId)) break;
+
+          const result = await runStatement(session ?? adapter, statement.text, options);
+          ran++;
+          send({ type: "statement", index, result });
+
+          if (result.error) {
+            failed++;
+            if (options.stopOnError) break;
+          }
+        }
+
+        send({
+          type: "done",
+          executionTimeMs: Date.now() - startTime,
+          failed,
+          skipped: statements.length - ran,
+        });
+      } catch (error) {
+        send({ type: "error", error: sanitizeError(error) });
+      } finally {
+        await session?.close().catch(console.error);
+        runningScripts.delete(queryId);
+        onFinish({
+          statementCount: statements.length,
+          failed,
+          skipped: statements.length - ran,
+          executionTimeMs: Date.now() - startTime,
+        });
+        if (!disconnected) controller.close();
+      }
+    },
+
+    cancel() {
+      // Client disconnected: finish the current statement, skip the rest
+      disconnected = true;
+      cancelScript(queryId);
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-store",
+    },
+  });
+}
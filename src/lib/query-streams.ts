@@ -0,0 +1,227 @@
+import "server-only";
+
+import { DatabaseAdapter, ExecuteQueryOptions, QueryBatch, QueryStreamEvent } from "./adapters/types";
+import { locateError } from "./adapters/error-position";
+import { sanitizeError } from "./validation";
+
+/**
+ * Streamed query results, sent to the query editor as NDJSON.
+ *
+ * A response carries at most `maxRows` rows. When the result has more, the
+ * open cursor is parked here under its query ID until the editor asks for the
+ * next page (POST /api/query/more) or it sits idle for IDLE_TIMEOUT_MS.
+ */
+
+// Rows read from the database per batch (and per NDJSON "rows" line)
+export const STREAM_BATCH_SIZE = 500;
+
+// Parked cursors hold a connection open; release them if nobody comes back
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface OpenStream {
+  connectionId: string;
+  // Query text, for locating errors in it
+  query: string;
+  batches: AsyncIterator<QueryBatch>;
+  // Rows of a batch that didn't fit in the previous response
+  pending: QueryBatch | null;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+export interface StreamSummary {
+  rowCount: number;
+  executionTimeMs: number;
+  hasMore: boolean;
+  error?: string;
+}
+
+// Persist on globalThis so parked cursors survive HMR recompilation in dev mode
+const globalForStreams = globalThis as unknown as { __queryStreams?: Map<string, OpenStream> };
+const openStreams = (globalForStreams.__queryStreams ??= new Map<string, OpenStream>());
+
+/**
+ * Start a query as a stream of batches. Adapters without a native cursor
+ * run the query in full and hand back a single batch.
+ */
+export function openQueryStream(
+  adapter: DatabaseAdapter,
+  connectionId: string,
+  query: string,
+  options: ExecuteQueryOptions,
+): OpenStream {
+  const batches = adapter.streamQuery
+    ? adapter.streamQuery(query, { ...options, batchSize: STREAM_BATCH_SIZE })
+    : executeAsBatch(adapter, query, options);
+
+  return { connectionId, query, batches, pending: null };
+}
+
+async function* executeAsBatch(
+  adapter: DatabaseAdapter,
+  query: string,
+  options: ExecuteQueryOptions,
+): AsyncGenerator<QueryBatch> {
+  const result = await adapter.executeQuery(query, options);
+  if (result.error) throw new Error(result.error);
+  yield { columns: result.columns, rows: result.rows, rowCount: result.rowCount };
+}
+
+/**
+ * Take a parked stream for the next page. Undefined when it has expired,
+ * was cancelled, or belongs to another connection.
+ */
+export function resumeQueryStream(queryId: string, connectionId: string): OpenStream | undefined {
+  const stream = openStreams.get(queryId);
+  if (!stream || stream.connectionId !== connectionId) return undefined;
+
+  openStreams.delete(queryId);
+  clearTimeout(stream.idleTimer);
+  return stream;
+}
+
+/**
+ * Close a parked stream, releasing its cursor. False when there was none.
+ */
+export async function closeQueryStream(queryId: string): Promise<boolean> {
+  const stream = openStreams.get(queryId);
+  if (!stream) return false;
+
+  openStreams.delete(queryId);
+  clearTimeout(stream.idleTimer);
+  await stream.batches.return?.().catch(() => {});
+  return true;
+}
+
+/**
+ * Close every parked stream of a connection (on disconnect).
+ */
+export async function closeConnectionStreams(connectionId: string): Promise<void> {
+  const ids = [...openStreams.entries()]
+    .filter(([, stream]) => stream.connectionId === connectionId)
+    .map(([queryId]) => queryId);
+  await Promise.all(ids.map(closeQueryStream));
+}
+
+function park(queryId: string, stream: OpenStream): void {
+  // Query IDs come from the client; a reused one releases the cursor parked under it
+  if (openStreams.get(queryId) !== stream) {
+    closeQueryStream(queryId).catch(console.error);
+  }
+
+  stream.idleTimer = setTimeout(() => {
+    if (openStreams.get(queryId) === stream) {
+      closeQueryStream(queryId).catch(console.error);
+    }
+  }, IDLE_TIMEOUT_MS);
+  openStreams.set(queryId, stream);
+}
+
+/**
+ * Whether rows remain after a full page, reading the next batch ahead into
+ * `pending` when there is none. A result that ends exactly on the page
+ * boundary has no more.
+ */
+async function peekMoreRows(stream: OpenStream): Promise<boolean> {
+  while (!stream.pending || stream.pending.rows.length === 0) {
+    const next = await stream.batches.next();
+    if (next.done) return false;
+    stream.pending = next.value;
+  }
+  return true;
+}
+
+/**
+ * Send up to `maxRows` rows of a stream as an NDJSON response. Batches are
+ * read as the client consumes them; if the client goes away the cursor is
+ * closed. `onFinish` is called once, whichever way the response ends.
+ */
+export function queryStreamResponse(
+  queryId: string,
+  stream: OpenStream,
+  maxRows: number,
+  onFinish: (summary: StreamSummary) => void,
+): Response {
+  const encoder = new TextEncoder();
+  const startTime = Date.now();
+  // Rows sent count against maxRows; rowCount also includes rows affected by writes
+  let sent = 0;
+  let rowCount = 0;
+  let started = false;
+  let finished = false;
+
+  const line = (event: QueryStreamEvent) => encoder.encode(JSON.stringify(event) + "\n");
+
+  const finish = (summary: Omit<StreamSummary, "executionTimeMs">) => {
+    finished = true;
+    const executionTimeMs = Date.now() - startTime;
+    onFinish({ ...summary, executionTimeMs });
+    return executionTimeMs;
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        controller.enqueue(line({ type: "start", queryId }));
+        return;
+      }
+
+      try {
+        let batch = stream.pending;
+        stream.pending = null;
+        if (!batch) {
+          const next = await stream.batches.next();
+          batch = next.done ? null : next.value;
+        }
+
+        if (!batch) {
+          const executionTimeMs = finish({ rowCount, hasMore: false });
+          controller.enqueue(line({ type: "done", rowCount, executionTimeMs, hasMore: false }));
+          controller.close();
+          return;
+        }
+
+        // Keep what doesn't fit for the next page
+        const room = maxRows - sent;
+        if (batch.rows.length > room) {
+          stream.pending = { ...batch, rows: batch.rows.slice(room) };
+          batch = { ...batch, rows: batch.rows.slice(0, room) };
+        }
+
+        sent += batch.rows.length;
+        rowCount += batch.rowCount ?? batch.rows.length;
+        controller.enqueue(line({ type: "rows", columns: batch.columns, rows: batch.rows }));
+
+        if (sent >= maxRows) {
+          const hasMore = await peekMoreRows(stream);
+          // The client may have gone away while the next batch was read
+          if (finished) return;
+          if (hasMore) park(queryId, stream);
+          const executionTimeMs = finish({ rowCount, hasMore });
+          controller.enqueue(line({ type: "done", rowCount, executionTimeMs, hasMore }));
+          controller.close();
+        }
+      } catch (error) {
+        await stream.batches.return?.(undefined).catch(() => {});
+        const message = sanitizeError(error);
+        finish({ rowCount, hasMore: false, error: message });
+        controller.enqueue(line({ type: "error", error: message, position: locateError(error, stream.query) }));
+        controller.close();
+      }
+    },
+
+    async cancel() {
+      // Client disconnected mid-stream
+      if (finished) return;
+      finish({ rowCount, hasMore: false, error: "Client disconnected" });
+      await stream.batches.return?.(undefined).catch(() => {});
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -1,12 +1,30 @@
 import { create } from 'zustand';
-import { TableInfo, ColumnInfo, QueryResult } from '../adapters/types';
+import {
+  TableInfo,
+  ColumnInfo,
+  QueryResult,
+  AdapterCapabilities,
+  StatementResult,
+  QueryParam,
+  QueryPlan,
+} from '../adapters/types';
+import type { ScriptStatement } from '../engines';
 
 export type TabType = 'data' | 'schema' | 'query' | 'analytics';
 
+// Column = value conditions, e.g. every column of a followed foreign key
+export type DataTabFilter = Record<string, unknown>;
+
+// A query parameter as typed into the editor's parameter panel
+export interface ParameterInput {
+  type: QueryParam['type'];
+  value: string;
+}
+
 export interface DataTab {
   id: string;
   tableName: string;
-  filter?: { column: string; value: unknown };
+  filter?: DataTabFilter;
   label: string;
 }
 
@@ -16,6 +34,22 @@ interface QueryTab {
   query: string;
   result: QueryResult | null;
   isExecuting: boolean;
+  // ID of the running query, for cancelling it and fetching more rows
+  queryId?: string;
+  // The server is holding more rows of `result`
+  hasMore?: boolean;
+  isFetchingMore?: boolean;
+  // Offsets of the text the last run sent; cleared when the query is edited
+  executedRange?: { start: number; end: number };
+  // Set when the last run was a multi-statement script; results line up with
+  // statements and stay undefined for statements that haven't run (or were skipped)
+  statements?: ScriptStatement[];
+  statementResults?: (StatementResult | undefined)[];
+  activeStatement?: number;
+  // Set when the last run was an Explain; shown instead of `result`
+  plan?: QueryPlan;
+  // Values entered for the query's placeholders, kept while names come and go
+  parameters?: Record<string, ParameterInput>;
 }
 
 interface StudioState {
@@ -23,6 +57,8 @@ interface StudioState {
   tables: TableInfo[];
   selectedTable: string | null;
   tableSchema: ColumnInfo[];
+  // Columns by table, loaded on demand for editor completion
+  tableColumns: Record<string, ColumnInfo[]>;
   isLoadingTables: boolean;
   isLoadingSchema: boolean;
 
@@ -37,6 +73,12 @@ interface StudioState {
   queryTabs: QueryTab[];
   activeQueryTabId: string | null;
 
+  // Rows loaded per query run / "fetch more"
+  queryRowLimit: number;
+
+  // Scripts stop at the first failing statement
+  stopOnError: boolean;
+
   // Query history
   queryHistory: { query: string; timestamp: number; database: string }[];
 
@@ -44,25 +86,32 @@ interface StudioState {
   sidebarOpen: boolean;
   sidebarWidth: number;
   tableFilter: string;
+  schemaFilter: string | null;
 
   // Error state
   error: string | null;
 
+  // Capabilities reported by GET /api/settings for a connection
+  capabilities: { connectionId: string; value: AdapterCapabilities } | null;
+
   // Actions
   setTables: (tables: TableInfo[]) => void;
   setSelectedTable: (table: string | null) => void;
   setTableSchema: (schema: ColumnInfo[]) => void;
+  setTableColumns: (tableName: string, columns: ColumnInfo[]) => void;
   setIsLoadingTables: (loading: boolean) => void;
   setIsLoadingSchema: (loading: boolean) => void;
   setActiveTab: (tab: TabType) => void;
   setSidebarOpen: (open: boolean) => void;
   setSidebarWidth: (width: number) => void;
   setTableFilter: (filter: string) => void;
+  setSchemaFilter: (schema: string | null) => void;
   setError: (error: string | null) => void;
+  setCapabilities: (connectionId: string, capabilities: AdapterCapabilities) => void;
 
   // Data tab actions
   openTableTab: (tableName: string) => string;
-  addDataTab: (tableName: string, filter?: { column: string; value: unknown }) => string;
+  addDataTab: (tableName: string, filter?: DataTabFilter) => string;
   removeDataTab: (id: string) => void;
   clearAllDataTabs: () => void;
   setActiveDataTab: (id: string) => void;
@@ -72,12 +121,22 @@ interface StudioState {
   removeQueryTab: (id: string) => void;
   setActiveQueryTab: (id: string) => void;
   updateQueryTab: (id: string, updates: Partial<QueryTab>) => void;
+  appendQueryRows: (id: string, columns: string[], rows: Record<string, unknown>[]) => void;
+  setQueryRowLimit: (limit: number) => void;
+  setStatementResult: (id: string, index: number, result: StatementResult) => void;
+  setStopOnError: (stopOnError: boolean) => void;
+  setParameterInput: (id: string, name: string, input: ParameterInput) => void;
   addToHistory: (query: string, database: string) => void;
 
   // Reset state (for disconnection)
   reset: () => void;
 }
 
+export const describeFilter = (filter: DataTabFilter) =>
+  Object.entries(filter)
+    .map(([column, value]) => `${column} = ${String(value)}`)
+    .join(', ');
+
 const generateTabId = (prefix = 'tab') => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
 
 const initialQueryTab: QueryTab = {
@@ -92,6 +151,7 @@ const initialState = {
   tables: [],
   selectedTable: null,
   tableSchema: [],
+  tableColumns: {},
   isLoadingTables: false,
   isLoadingSchema: false,
   activeTab: 'data' as TabType,
@@ -99,22 +159,30 @@ const initialState = {
   activeDataTabId: null as string | null,
   queryTabs: [initialQueryTab],
   activeQueryTabId: initialQueryTab.id,
+  queryRowLimit: 1000,
+  stopOnError: true,
   queryHistory: [],
   sidebarOpen: true,
   sidebarWidth: 280,
   tableFilter: '',
+  schemaFilter: null,
   error: null,
+  capabilities: null,
 };
 
 export const useStudioStore = create<StudioState>()((set, get) => ({
   ...initialState,
 
-  setTables: (tables) => set({ tables }),
+  // A refreshed table list also refreshes the columns editor completion loads
+  setTables: (tables) => set({ tables, tableColumns: {} }),
 
   setSelectedTable: (table) => set({ selectedTable: table }),
 
   setTableSchema: (schema) => set({ tableSchema: schema }),
 
+  setTableColumns: (tableName, columns) =>
+    set((state) => ({ tableColumns: { ...state.tableColumns, [tableName]: columns } })),
+
   setIsLoadingTables: (loading) => set({ isLoadingTables: loading }),
 
   setIsLoadingSchema: (loading) => set({ isLoadingSchema: loading }),
@@ -127,8 +195,13 @@ export const useStudioStore = create<StudioState>()((set, get) => ({
 
   setTableFilter: (filter) => set({ tableFilter: filter }),
 
+  setSchemaFilter: (schema) => set({ schemaFilter: schema }),
+
   setError: (error) => set({ error }),
 
+  setCapabilities: (connectionId, capabilities) =>
+    set({ capabilities: { connectionId, value: capabilities } }),
+
   openTableTab: (tableName) => {
     const { dataTabs } = get();
     // Check if tab already exists (matching tableName, no filter)
@@ -155,7 +228,7 @@ export const useStudioStore = create<StudioState>()((set, get) => ({
   addDataTab: (tableName, filter) => {
     const { dataTabs } = get();
     const label = filter
-      ? `${tableName} (${filter.column} = ${String(filter.value)})`
+      ? `${tableName} (${describeFilter(filter)})`
       : tableName;
     const newTab: DataTab = {
       id: generateTabId('data'),
@@ -258,6 +331,50 @@ export const useStudioStore = create<StudioState>()((set, get) => ({
     }));
   },
 
+  // Add a streamed batch to a tab's result; documents can bring new columns
+  appendQueryRows: (id, columns, rows) => {
+    set((state) => ({
+      queryTabs: state.queryTabs.map((tab) => {
+        if (tab.id !== id) return tab;
+        const result = tab.result ?? { rows: [], columns: [], rowCount: 0, executionTimeMs: 0 };
+        const newColumns = columns.filter((col) => !result.columns.includes(col));
+        return {
+          ...tab,
+          result: {
+            ...result,
+            columns: newColumns.length > 0 ? [...result.columns, ...newColumns] : result.columns,
+            rows: [...result.rows, ...rows],
+            rowCount: result.rowCount + rows.length,
+          },
+        };
+      }),
+    }));
+  },
+
+  setQueryRowLimit: (limit) => set({ queryRowLimit: limit }),
+
+  // Record a script statement's result and show it
+  setStatementResult: (id, index, result) => {
+    set((state) => ({
+      queryTabs: state.queryTabs.map((tab) => {
+        if (tab.id !== id) return tab;
+        const statementResults = [...(tab.statementResults ?? [])];
+        statementResults[index] = result;
+        return { ...tab, statementResults, activeStatement: index };
+      }),
+    }));
+  },
+
+  setStopOnError: (stopOnError) => set({ stopOnError }),
+
+  setParameterInput: (id, name, input) => {
+    set((state) => ({
+      queryTabs: state.queryTabs.map((tab) =>
+        tab.id === id ? { ...tab, parameters: { ...tab.parameters, [name]: input } } : tab
+      ),
+    }));
+  },
+
   addToHistory: (query, database) => {
     set((state) => ({
       queryHistory: [
@@ -278,6 +395,8 @@ export const useStudioStore = create<StudioState>()((set, get) => ({
 
     set({
       ...initialState,
+      queryRowLimit: get().queryRowLimit,
+      stopOnError: get().stopOnError,
       dataTabs: [],
       activeDataTabId: null,
       queryTabs: [newTab],
@@ -292,9 +411,14 @@ export const useTables = () => useStudioStore((state) => state.tables);
 export const useFilteredTables = () => {
   const tables = useStudioStore((state) => state.tables);
   const filter = useStudioStore((state) => state.tableFilter);
+  const schemaFilter = useStudioStore((state) => state.schemaFilter);
 
-  if (!filter) return tables;
+  if (!filter && !schemaFilter) return tables;
 
   const lowerFilter = filter.toLowerCase();
-  return tables.filter((table) => table.name.toLowerCase().includes(lowerFilter));
+  return tables.filter(
+    (table) =>
+      (!schemaFilter || table.schema === schemaFilter) &&
+      table.name.toLowerCase().includes(lowerFilter)
+  );
 };
@@ -1,8 +1,12 @@
 import { z } from "zod";
+import { ENGINES } from "./engines";
+import { FilterExpression, SortKey } from "./adapters/types";
 
 // Identifier validation regex - alphanumeric, underscore, dot (for schema.table)
 const identifierRegex = /^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)?$/;
 const columnNameRegex = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+// Filter columns may be dotted paths into documents (MongoDB, Elasticsearch)
+const filterColumnRegex = /^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z0-9_]+)*$/;
 // Redis key patterns allow colons, wildcards, hyphens, dots, and digits at start
 const redisPatternRegex = /^[a-zA-Z0-9_:.*\-]+$/;
 
@@ -26,15 +30,71 @@ export const ConnectionIdSchema = z
   .min(1, "Connection ID required")
   .startsWith("conn_", "Invalid connection ID format");
 
+const FilterValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+const FilterColumnSchema = z
+  .string()
+  .max(256, "Filter column too long")
+  .regex(filterColumnRegex, "Invalid filter column");
+
+export const FilterConditionSchema = z.union([
+  z.object({
+    column: FilterColumnSchema,
+    op: z.enum(["eq", "ne", "lt", "lte", "gt", "gte"]),
+    value: FilterValueSchema,
+  }),
+  z.object({
+    column: FilterColumnSchema,
+    op: z.enum(["in", "nin"]),
+    value: z.array(FilterValueSchema).min(1, "Empty value list").max(1000, "Too many values"),
+  }),
+  z.object({
+    column: FilterColumnSchema,
+    op: z.enum(["like", "ilike", "contains", "regex"]),
+    value: z.string().max(1000, "Pattern too long"),
+  }),
+  z.object({
+    column: FilterColumnSchema,
+    op: z.enum(["isNull", "isNotNull"]),
+  }),
+  z.object({
+    column: FilterColumnSchema,
+    op: z.literal("between"),
+    value: z.tuple([FilterValueSchema, FilterValueSchema]),
+  }),
+]);
+
+export const FilterExpressionSchema: z.ZodType<FilterExpression> = z.lazy(() =>
+  z.union([
+    FilterConditionSchema,
+    z.object({
+      type: z.enum(["and", "or"]),
+      filters: z.array(FilterExpressionSchema).max(100, "Too many filters"),
+    }),
+  ])
+);
+
+// Sort keys in priority order; columns may be document paths like filters
+export const SortSchema = z
+  .array(
+    z.object({
+      column: FilterColumnSchema,
+      order: z.enum(["asc", "desc"]),
+    })
+  )
+  .max(16, "Too many sort keys");
+
+// Opaque keyset cursor (base64url) returned in PaginatedResult.cursors
+export const PageCursorSchema = z
+  .string()
+  .max(4096, "Page cursor too long")
+  .regex(/^[A-Za-z0-9_-]+$/, "Invalid page cursor");
+
 export const QueryOptionsSchema = z.object({
   page: z.coerce.number().int().positive().default(1),
   pageSize: z.coerce.number().int().min(1).max(100).default(50),
-  sortBy: z
-    .string()
-    .regex(columnNameRegex, "Invalid sort column")
-    .optional(),
-  sortOrder: z.enum(["asc", "desc"]).optional(),
-  filters: z.record(z.string(), z.unknown()).optional(),
+  sort: SortSchema.optional(),
+  filters: FilterExpressionSchema.optional(),
+  cursor: PageCursorSchema.optional(),
 });
 
 export const DataWriteSchema = z.object({
@@ -50,9 +110,68 @@ export const DataUpdateSchema = z.object({
   data: z.record(z.string(), z.unknown()),
 });
 
+// Client-chosen handle for a running editor query (also sent to ClickHouse as query_id)
+export const QueryIdSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{1,64}$/, "Invalid query ID format");
+
+// Statement timeout in ms; 0 disables it. Capped at a day.
+export const StatementTimeoutSchema = z.number().int().min(0).max(86_400_000);
+
+// Rows per streamed response before the editor has to ask for more
+export const MaxRowsSchema = z.number().int().min(1).max(100_000);
+
+// Typed values for `:name` / `{{name}}` placeholders (see QueryParam)
+export const QueryParamSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text"), value: z.string().max(100000) }),
+  z.object({ type: z.literal("number"), value: z.number().finite() }),
+  z.object({ type: z.literal("boolean"), value: z.boolean() }),
+  z.object({ type: z.literal("date"), value: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD") }),
+  z.object({ type: z.literal("null"), value: z.null() }),
+]);
+
+export const QueryParamsSchema = z.record(
+  z.string().regex(/^[A-Za-z_]\w{0,63}$/, "Invalid parameter name"),
+  QueryParamSchema
+);
+
 export const QueryExecuteSchema = z.object({
   connectionId: ConnectionIdSchema,
   query: z.string().min(1, "Query required").max(100000, "Query too long"),
+  queryId: QueryIdSchema.optional(),
+  timeoutMs: StatementTimeoutSchema.optional(),
+  maxRows: MaxRowsSchema.optional(),
+  params: QueryParamsSchema.optional(),
+});
+
+export const QueryScriptSchema = z.object({
+  connectionId: ConnectionIdSchema,
+  script: z.string().min(1, "Script required").max(1_000_000, "Script too long"),
+  queryId: QueryIdSchema.optional(),
+  timeoutMs: StatementTimeoutSchema.optional(),
+  maxRows: MaxRowsSchema.optional(),
+  stopOnError: z.boolean().optional(),
+  params: QueryParamsSchema.optional(),
+});
+
+export const QueryExplainSchema = z.object({
+  connectionId: ConnectionIdSchema,
+  query: z.string().min(1, "Query required").max(100000, "Query too long"),
+  queryId: QueryIdSchema.optional(),
+  timeoutMs: StatementTimeoutSchema.optional(),
+  params: QueryParamsSchema.optional(),
+  analyze: z.boolean().optional(),
+});
+
+export const QueryMoreSchema = z.object({
+  connectionId: ConnectionIdSchema,
+  queryId: QueryIdSchema,
+  maxRows: MaxRowsSchema.optional(),
+});
+
+export const QueryCancelSchema = z.object({
+  connectionId: ConnectionIdSchema,
+  queryId: QueryIdSchema,
 });
 
 /**
@@ -67,12 +186,16 @@ export function sanitizeError(error: unknown): string {
   if (error instanceof Error) {
     let msg = error.message;
 
-    // Remove credentials from connection strings
-    msg = msg.replace(/postgresql:\/\/[^@]+@/gi, "postgresql://***@");
-    msg = msg.replace(/mongodb:\/\/[^@]+@/gi, "mongodb://***@");
-    msg = msg.replace(/mongodb\+srv:\/\/[^@]+@/gi, "mongodb+srv://***@");
-    msg = msg.replace(/clickhouse:\/\/[^@]+@/gi, "clickhouse://***@");
-    msg = msg.replace(/redis:\/\/[^@]+@/gi, "redis://***@");
+    // Remove credentials from connection strings of every registered engine
+    for (const engine of ENGINES) {
+      for (const scheme of engine.schemes) {
+        const escaped = scheme.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        msg = msg.replace(new RegExp(`${escaped}:\\/\\/[^@]+@`, "gi"), `${scheme}://***@`);
+      }
+      for (const pattern of engine.credentialPatterns ?? []) {
+        msg = msg.replace(pattern, "$1***");
+      }
+    }
     msg = msg.replace(/http:\/\/[^@]+@/gi, "http://***@");
     msg = msg.replace(/https:\/\/[^@]+@/gi, "https://***@");
 
@@ -136,3 +259,48 @@ export function quotePostgresIdentifier(name: string): string {
     .map((part) => `"${part}"`)
     .join(".");
 }
+
+/**
+ * Parse the JSON-encoded `filters` query parameter of the data routes.
+ * Returns an error message for malformed JSON or an invalid expression.
+ */
+export function parseFiltersParam(
+  json: string | null
+): { filters?: FilterExpression; error?: string } {
+  if (!json) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { error: "Invalid filters format" };
+  }
+
+  const result = FilterExpressionSchema.safeParse(parsed);
+  if (!result.success) {
+    return { error: `Invalid filters: ${result.error.issues[0]?.message ?? "unknown error"}` };
+  }
+  return { filters: result.data };
+}
+
+/**
+ * Parse the JSON-encoded `sort` query parameter of the data route.
+ */
+export function parseSortParam(
+  json: string | null
+): { sort?: SortKey[]; error?: string } {
+  if (!json) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { error: "Invalid sort format" };
+  }
+
+  const result = SortSchema.safeParse(parsed);
+  if (!result.success) {
+    return { error: `Invalid sort: ${result.error.issues[0]?.message ?? "unknown error"}` };
+  }
+  return { sort: result.data };
+}